@@ -0,0 +1,523 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { seatToName } from "@/lib/league";
+import { useLeague } from "@/lib/useLeague";
+import { useSeason } from "@/lib/useSeason";
+import { useSeatClaims } from "@/lib/useSeatClaims";
+import { ageReferenceDate, celebrityAge } from "@/lib/age";
+import { DRAFT_ORDER_MODES, draftOrder, orderLabel, type DraftOrderMode } from "@/lib/draftOrder";
+import { useTrades } from "@/lib/useTrades";
+import CelebrityImport from "@/components/CelebrityImport";
+import DraftRestore from "@/components/DraftRestore";
+import TradeList from "@/components/TradeList";
+
+type BoardRow = {
+  pick_number: number;
+  seat: number;
+  player_name: string;
+  celebrity_id: string;
+  celebrity_name: string;
+  celebrity_age: number;
+  picked_at: string;
+};
+
+type AvailableCelebrity = {
+  id: string;
+  name: string;
+  age: number;
+  birth_date: string | null;
+};
+
+type LogEntry = {
+  id: number;
+  actor: string;
+  action: string;
+  details: { result?: string } | null;
+  created_at: string;
+};
+
+const SECRET_KEY = "death-draft-commissioner-secret";
+const ACTOR_KEY = "death-draft-commissioner-actor";
+
+const buttonClass =
+  "inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99] disabled:opacity-50";
+const inputClass = "h-9 rounded-2xl border border-neutral-200 bg-white px-3 text-sm text-neutral-900";
+
+export default function AdminPage() {
+  const { players } = useLeague();
+  const { season, reload: reloadSeason } = useSeason();
+  const { claimedSeats, reload: reloadClaims } = useSeatClaims(null);
+  const year = season?.year ?? null;
+  const { trades } = useTrades(year);
+  const [secret, setSecret] = useState("");
+  const [actor, setActor] = useState("");
+  const [authed, setAuthed] = useState(false);
+
+  const [rows, setRows] = useState<BoardRow[]>([]);
+  const [available, setAvailable] = useState<AvailableCelebrity[]>([]);
+  const [turnSeat, setTurnSeat] = useState<number | null>(null);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const [replacePickNumber, setReplacePickNumber] = useState<string>("");
+  const [replaceQuery, setReplaceQuery] = useState("");
+  const [replaceId, setReplaceId] = useState<string>("");
+  const [turnInput, setTurnInput] = useState<string>("1");
+  const [resetConfirm, setResetConfirm] = useState("");
+  const [orderInput, setOrderInput] = useState<DraftOrderMode>("linear");
+  const [clockInput, setClockInput] = useState("");
+
+  const loadLog = async (s: string) => {
+    const res = await fetch("/api/admin", { headers: { "x-commissioner-secret": s } });
+    const body = await res.json();
+    if (!res.ok || !body.ok) throw new Error(body.message ?? "Failed to load log.");
+    setLog(body.log as LogEntry[]);
+  };
+
+  const loadDraft = async () => {
+    if (year === null) return;
+
+    const [boardRes, stateRes, availRes] = await Promise.all([
+      supabase
+        .from("death_draft_board")
+        .select(
+          "pick_number, seat, player_name, celebrity_id, celebrity_name, celebrity_age, picked_at"
+        )
+        .eq("season", year)
+        .order("pick_number", { ascending: false }),
+      supabase.from("death_draft_state").select("turn_seat").eq("season", year).single(),
+      supabase
+        .from("death_draft_available")
+        .select("id, name, age, birth_date")
+        .eq("season", year)
+        .order("name", { ascending: true }),
+    ]);
+
+    if (boardRes.error) throw boardRes.error;
+    if (availRes.error) throw availRes.error;
+
+    setRows((boardRes.data ?? []) as BoardRow[]);
+    const asOf = ageReferenceDate(season);
+    setAvailable(
+      ((availRes.data ?? []) as AvailableCelebrity[]).map((c) => ({
+        ...c,
+        age: celebrityAge(c.birth_date, c.age, asOf),
+      }))
+    );
+    if (!stateRes.error && stateRes.data) {
+      setTurnSeat((stateRes.data as { turn_seat: number | null }).turn_seat ?? null);
+    }
+  };
+
+  const signIn = async (s: string, a: string) => {
+    setErr(null);
+    setBusy(true);
+    try {
+      await loadLog(s);
+      await loadDraft();
+      sessionStorage.setItem(SECRET_KEY, s);
+      sessionStorage.setItem(ACTOR_KEY, a);
+      setAuthed(true);
+    } catch (e) {
+      setErr((e as { message?: string })?.message ?? "Sign in failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    if (year === null) return;
+
+    const s = sessionStorage.getItem(SECRET_KEY);
+    const a = sessionStorage.getItem(ACTOR_KEY);
+    if (s && a) {
+      setSecret(s);
+      setActor(a);
+      void signIn(s, a);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [year]);
+
+  const runAction = async (payload: Record<string, unknown>) => {
+    setErr(null);
+    setNotice(null);
+    setBusy(true);
+    try {
+      const res = await fetch("/api/admin", {
+        method: "POST",
+        headers: { "content-type": "application/json", "x-commissioner-secret": secret },
+        body: JSON.stringify({ ...payload, actor }),
+      });
+      const body = await res.json();
+      if (!res.ok || !body.ok) throw new Error(body.message ?? "Action failed.");
+      setNotice(body.message);
+      reloadSeason();
+      reloadClaims();
+      await Promise.all([loadDraft(), loadLog(secret)]);
+    } catch (e) {
+      setErr((e as { message?: string })?.message ?? "Action failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const lastPick = rows[0] ?? null;
+  const order = useMemo(() => draftOrder(players, season), [players, season]);
+
+  const replaceMatches = useMemo(() => {
+    const q = replaceQuery.trim().toLowerCase();
+    if (!q) return [];
+    return available.filter((c) => c.name.toLowerCase().includes(q)).slice(0, 8);
+  }, [available, replaceQuery]);
+
+  if (!authed) {
+    return (
+      <main className="min-h-dvh bg-white p-6 text-neutral-900">
+        <div className="mx-auto max-w-md">
+          <h1 className="text-2xl font-semibold">Commissioner</h1>
+          <p className="mt-2 text-sm text-neutral-600">Enter the commissioner secret to fix draft mistakes.</p>
+          <form
+            className="mt-4 space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void signIn(secret, actor.trim());
+            }}
+          >
+            <input
+              className={inputClass + " w-full"}
+              placeholder="Your name"
+              value={actor}
+              onChange={(e) => setActor(e.target.value)}
+            />
+            <input
+              className={inputClass + " w-full"}
+              placeholder="Commissioner secret"
+              type="password"
+              value={secret}
+              onChange={(e) => setSecret(e.target.value)}
+            />
+            <button
+              type="submit"
+              className={buttonClass}
+              disabled={busy || year === null || !secret || !actor.trim()}
+            >
+              {busy ? "Checking…" : "Enter"}
+            </button>
+          </form>
+          {err ? (
+            <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{err}</div>
+          ) : null}
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="min-h-dvh bg-white px-6 py-4 text-neutral-900">
+      <div className="mx-auto w-full max-w-[720px] space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">Commissioner</h1>
+            <div className="mt-1 text-sm text-neutral-600">
+              {`${year} · ${rows.length} picks · `}
+              {turnSeat === null ? "No turn" : `${seatToName(players, turnSeat)} is up`}
+              {` · signed in as ${actor}`}
+            </div>
+          </div>
+          <Link href="/" className={buttonClass}>
+            Home
+          </Link>
+        </div>
+
+        {err ? (
+          <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{err}</div>
+        ) : null}
+        {notice ? (
+          <div className="rounded-2xl border border-emerald-200 bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+            {notice}
+          </div>
+        ) : null}
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Undo last pick</div>
+          <div className="mt-1 text-sm text-neutral-600">
+            {lastPick
+              ? `#${lastPick.pick_number} ${lastPick.player_name}: ${lastPick.celebrity_name}`
+              : "No picks yet."}
+          </div>
+          <button
+            type="button"
+            className={buttonClass + " mt-3"}
+            disabled={busy || !lastPick}
+            onClick={() => void runAction({ action: "undo_last" })}
+          >
+            Undo
+          </button>
+        </section>
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Replace a pick</div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <select
+              className={inputClass}
+              value={replacePickNumber}
+              onChange={(e) => setReplacePickNumber(e.target.value)}
+            >
+              <option value="">Pick…</option>
+              {rows.map((r) => (
+                <option key={r.pick_number} value={r.pick_number}>
+                  {`#${r.pick_number} ${r.player_name}: ${r.celebrity_name}`}
+                </option>
+              ))}
+            </select>
+            <input
+              className={inputClass + " min-w-0 flex-1"}
+              placeholder="Search available…"
+              value={replaceQuery}
+              onChange={(e) => {
+                setReplaceQuery(e.target.value);
+                setReplaceId("");
+              }}
+            />
+          </div>
+          {replaceMatches.length > 0 ? (
+            <div className="mt-2 space-y-1">
+              {replaceMatches.map((c) => (
+                <button
+                  key={c.id}
+                  type="button"
+                  onClick={() => setReplaceId(c.id)}
+                  className={
+                    "flex w-full items-center justify-between rounded-2xl border px-3 py-1.5 text-left text-sm " +
+                    (replaceId === c.id ? "border-neutral-900 bg-neutral-100" : "border-neutral-200")
+                  }
+                >
+                  <span className="truncate">{c.name}</span>
+                  <span className="text-neutral-500 tabular-nums">{c.age}</span>
+                </button>
+              ))}
+            </div>
+          ) : null}
+          <button
+            type="button"
+            className={buttonClass + " mt-3"}
+            disabled={busy || !replacePickNumber || !replaceId}
+            onClick={() =>
+              void runAction({
+                action: "replace_pick",
+                pick_number: Number(replacePickNumber),
+                celebrity_id: replaceId,
+              })
+            }
+          >
+            Replace
+          </button>
+        </section>
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Turn</div>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <button
+              type="button"
+              className={buttonClass}
+              disabled={busy}
+              onClick={() => void runAction({ action: "skip_turn" })}
+            >
+              Skip {turnSeat === null ? "" : seatToName(players, turnSeat)}
+            </button>
+            <select className={inputClass} value={turnInput} onChange={(e) => setTurnInput(e.target.value)}>
+              {players.map((p) => (
+                <option key={p.seat} value={p.seat}>
+                  {p.name}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={buttonClass}
+              disabled={busy}
+              onClick={() => void runAction({ action: "set_turn", seat: Number(turnInput) })}
+            >
+              Set turn
+            </button>
+          </div>
+        </section>
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Draft order</div>
+          <div className="mt-1 text-sm text-neutral-600">
+            {`${orderLabel(order.mode)}: ${order.seats.map((s) => seatToName(players, s)).join(" → ")}`}
+            {season?.order_seed != null ? ` (seed ${season.order_seed})` : ""}
+          </div>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <select
+              className={inputClass}
+              value={orderInput}
+              onChange={(e) => setOrderInput(e.target.value as DraftOrderMode)}
+            >
+              {DRAFT_ORDER_MODES.map((m) => (
+                <option key={m.mode} value={m.mode}>
+                  {m.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className={buttonClass}
+              disabled={busy || rows.length > 0}
+              onClick={() => void runAction({ action: "set_order", mode: orderInput })}
+            >
+              {orderInput === "lottery" ? "Draw lottery" : "Set order"}
+            </button>
+          </div>
+          {rows.length > 0 ? (
+            <div className="mt-2 text-xs text-neutral-500">Locked once picks are in.</div>
+          ) : null}
+        </section>
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Pick clock</div>
+          <div className="mt-1 text-sm text-neutral-600">
+            {season?.pick_clock_seconds
+              ? `${season.pick_clock_seconds}s per pick, then the top of the seat's queue (or the oldest available celebrity) is auto-picked.`
+              : "Off."}
+          </div>
+          <div className="mt-3 flex flex-wrap items-center gap-2">
+            <input
+              className={inputClass + " w-32"}
+              inputMode="numeric"
+              placeholder="Seconds"
+              value={clockInput}
+              onChange={(e) => setClockInput(e.target.value)}
+            />
+            <button
+              type="button"
+              className={buttonClass}
+              disabled={busy}
+              onClick={() =>
+                void runAction({ action: "set_clock", seconds: clockInput.trim() ? Number(clockInput) : null })
+              }
+            >
+              {clockInput.trim() ? "Set clock" : "Turn off"}
+            </button>
+          </div>
+        </section>
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Seat logins</div>
+          <div className="mt-2 space-y-1 text-sm">
+            {players.map((p) => {
+              const claimed = claimedSeats.includes(p.seat);
+              return (
+                <div key={p.seat} className="flex items-center justify-between gap-3">
+                  <div>
+                    {p.name}
+                    <span className="ml-2 text-neutral-500">{claimed ? "Claimed" : "Open"}</span>
+                  </div>
+                  <button
+                    type="button"
+                    className={buttonClass}
+                    disabled={busy || !claimed}
+                    onClick={() => void runAction({ action: "release_seat", seat: p.seat })}
+                  >
+                    Release
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </section>
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Trades</div>
+          <div className="mt-1 text-sm text-neutral-600">
+            Veto a pending trade, or reverse an accepted one if nothing in it has been traded again.
+          </div>
+          <div className="mt-3">
+            <TradeList
+              trades={trades.filter((t) => t.status === "pending" || t.status === "accepted")}
+              players={players}
+              variant="light"
+              empty="No open or accepted trades."
+              actions={(t) => (
+                <button
+                  type="button"
+                  className={buttonClass + " border-red-200 text-red-700"}
+                  disabled={busy}
+                  onClick={() => void runAction({ action: "veto_trade", trade_id: t.id })}
+                >
+                  Veto
+                </button>
+              )}
+            />
+          </div>
+        </section>
+
+        <CelebrityImport
+          secret={secret}
+          actor={actor}
+          onImported={(message) => {
+            setNotice(message);
+            void Promise.all([loadDraft(), loadLog(secret)]).catch((e) =>
+              setErr((e as { message?: string })?.message ?? "Reload failed.")
+            );
+          }}
+        />
+
+        <DraftRestore
+          secret={secret}
+          actor={actor}
+          year={year}
+          onRestored={(message) => {
+            setNotice(message);
+            void Promise.all([loadDraft(), loadLog(secret)]).catch((e) =>
+              setErr((e as { message?: string })?.message ?? "Reload failed.")
+            );
+          }}
+        />
+
+        <section className="rounded-3xl border border-red-200 p-4">
+          <div className="text-sm font-semibold text-red-700">Reset draft</div>
+          <div className="mt-1 text-sm text-neutral-600">Deletes every pick and puts the first seat on the clock.</div>
+          <div className="mt-3 flex flex-wrap gap-2">
+            <input
+              className={inputClass}
+              placeholder='Type "RESET"'
+              value={resetConfirm}
+              onChange={(e) => setResetConfirm(e.target.value)}
+            />
+            <button
+              type="button"
+              className={buttonClass + " border-red-200 text-red-700"}
+              disabled={busy || resetConfirm !== "RESET"}
+              onClick={() => {
+                setResetConfirm("");
+                void runAction({ action: "reset", confirm: resetConfirm });
+              }}
+            >
+              Reset
+            </button>
+          </div>
+        </section>
+
+        <section className="rounded-3xl border border-neutral-200 p-4">
+          <div className="text-sm font-semibold">Log</div>
+          <div className="mt-2 text-sm">
+            {log.length === 0 ? <div className="text-neutral-400">Nothing yet.</div> : null}
+            {log.map((l) => (
+              <div key={l.id} className="border-b border-neutral-200/60 py-1 last:border-b-0">
+                <span className="text-neutral-500 tabular-nums">{new Date(l.created_at).toLocaleString()}</span>
+                {` · ${l.actor} · ${l.details?.result ?? l.action}`}
+              </div>
+            ))}
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { getDraftRepo } from "@/lib/draftRepo";
+import type { BoardRow } from "@/lib/draftRepository";
+import { useLeague } from "@/lib/useLeague";
+import { useSeason } from "@/lib/useSeason";
+import { todayIso } from "@/lib/age";
+import { AGE_BANDS, draftAnalytics, mostLikelyNext, seasonYearsLeft, type AgeProfile } from "@/lib/analytics";
+
+// Youngest band lightest, so older-skewing rosters read as darker bars.
+const BAND_COLORS = ["#e5e5e5", "#d4d4d4", "#a3a3a3", "#737373", "#404040", "#171717"];
+
+function fixed(n: number | null, digits = 1) {
+  return n === null ? "—" : n.toFixed(digits);
+}
+
+function percent(p: number) {
+  return p < 0.001 ? "<0.1%" : `${(p * 100).toFixed(p < 0.1 ? 1 : 0)}%`;
+}
+
+function AgeBar({ profile }: { profile: AgeProfile }) {
+  if (profile.count === 0) return <div className="h-3 rounded-full bg-neutral-100" />;
+  return (
+    <div className="flex h-3 overflow-hidden rounded-full">
+      {profile.bands.map((n, i) =>
+        n > 0 ? (
+          <div
+            key={AGE_BANDS[i].label}
+            title={`${AGE_BANDS[i].label}: ${n}`}
+            style={{ width: `${(n / profile.count) * 100}%`, backgroundColor: BAND_COLORS[i] }}
+          />
+        ) : null
+      )}
+    </div>
+  );
+}
+
+/** Per-seat age profiles and expected deaths for the rest of the season, from a bundled life table. */
+export default function AnalyticsPage() {
+  const { players, error: leagueErr } = useLeague();
+  const { season, error: seasonErr } = useSeason();
+  const year = season?.year ?? null;
+  const [rows, setRows] = useState<BoardRow[]>([]);
+  const [deadIds, setDeadIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (year === null) return;
+    let alive = true;
+
+    (async () => {
+      try {
+        const [board, deathsRes] = await Promise.all([
+          getDraftRepo().fetchBoard(year),
+          supabase.from("death_draft_deaths").select("celebrity_id"),
+        ]);
+        if (deathsRes.error) throw deathsRes.error;
+        if (!alive) return;
+        setRows(board);
+        setDeadIds(((deathsRes.data ?? []) as { celebrity_id: string }[]).map((d) => d.celebrity_id));
+      } catch (e) {
+        if (alive) setErr((e as { message?: string })?.message ?? "Failed to load.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    })();
+
+    return () => {
+      alive = false;
+    };
+  }, [year]);
+
+  // Ages as of today rather than the draft date: the odds are about the rest of the season.
+  const asOf = todayIso();
+  const years = year === null ? 1 : seasonYearsLeft(year, asOf);
+
+  const { seats, league } = useMemo(
+    () => draftAnalytics(rows, players, { asOf, years, deadIds }),
+    [rows, players, asOf, years, deadIds]
+  );
+  const likely = useMemo(
+    () => mostLikelyNext(rows, players, { asOf, years, deadIds, limit: 15 }),
+    [rows, players, asOf, years, deadIds]
+  );
+
+  const ranked = useMemo(() => seats.slice().sort((a, b) => b.expectedDeaths - a.expectedDeaths), [seats]);
+  const maxExpected = Math.max(0.0001, ...seats.map((s) => s.expectedDeaths));
+  const leagueMeanPerSeat = seats.length ? league.expectedDeaths / seats.length : 0;
+
+  return (
+    <main className="min-h-dvh bg-white px-6 py-4 text-neutral-900">
+      <div className="mx-auto w-full max-w-[960px]">
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">{year === null ? "Analytics" : `${year} Analytics`}</h1>
+            {!loading && !err && (
+              <div className="mt-1 text-sm text-neutral-600">
+                {`${league.count} living picks · league average age ${fixed(league.mean)} · ${fixed(
+                  league.expectedDeaths
+                )} deaths expected by Dec 31`}
+              </div>
+            )}
+          </div>
+
+          <Link
+            href="/"
+            className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
+          >
+            Home
+          </Link>
+        </div>
+
+        {err || leagueErr || seasonErr ? (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            Error loading analytics: {err ?? leagueErr ?? seasonErr}
+          </div>
+        ) : null}
+
+        {loading ? <div className="text-sm text-neutral-500">Loading…</div> : null}
+
+        {!loading && !err ? (
+          <div className="space-y-4">
+            <section className="rounded-3xl border border-neutral-200 p-4 shadow-sm">
+              <div className="text-sm font-semibold">Expected deaths by Dec 31</div>
+              <div className="mt-3 space-y-2">
+                {ranked.map((s) => (
+                  <div key={s.seat} className="flex items-center gap-3 text-sm">
+                    <div className="w-28 shrink-0 truncate font-semibold">{s.name}</div>
+                    <div className="h-4 flex-1 overflow-hidden rounded-full bg-neutral-100">
+                      <div
+                        className="h-full rounded-full"
+                        style={{ width: `${(s.expectedDeaths / maxExpected) * 100}%`, backgroundColor: s.color }}
+                      />
+                    </div>
+                    <div className="w-32 shrink-0 text-right tabular-nums">
+                      {fixed(s.expectedDeaths, 2)}
+                      <span className="ml-1 text-xs text-neutral-500">
+                        {s.expectedDeaths >= leagueMeanPerSeat ? "above avg" : "below avg"}
+                      </span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <section className="rounded-3xl border border-neutral-200 p-4 shadow-sm">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm font-semibold">Age profiles</div>
+                <div className="flex flex-wrap gap-3 text-xs text-neutral-500">
+                  {AGE_BANDS.map((b, i) => (
+                    <div key={b.label} className="flex items-center gap-1">
+                      <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: BAND_COLORS[i] }} />
+                      {b.label}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="mt-3 overflow-x-auto">
+                <table className="w-full min-w-[640px] text-sm">
+                  <thead>
+                    <tr className="text-left text-xs uppercase text-neutral-400">
+                      <th className="py-1 font-semibold">Seat</th>
+                      <th className="py-1 text-right font-semibold">Living</th>
+                      <th className="py-1 text-right font-semibold">Avg</th>
+                      <th className="py-1 text-right font-semibold">Median</th>
+                      <th className="py-1 text-right font-semibold">Range</th>
+                      <th className="w-1/3 py-1 pl-4 font-semibold">Distribution</th>
+                      <th className="py-1 text-right font-semibold">Any death</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...seats, { seat: 0, name: "League", color: "#171717", ...league }].map((s) => (
+                      <tr
+                        key={s.seat}
+                        className={
+                          "border-t border-neutral-200/60 " + (s.seat === 0 ? "font-semibold text-neutral-900" : "")
+                        }
+                      >
+                        <td className="py-1.5">
+                          <span className="mr-2 inline-block h-2.5 w-2.5 rounded-full" style={{ backgroundColor: s.color }} />
+                          {s.name}
+                          {s.dead > 0 ? <span className="ml-1 text-xs text-neutral-500">{`(${s.dead} dead)`}</span> : null}
+                        </td>
+                        <td className="py-1.5 text-right tabular-nums">{s.count}</td>
+                        <td className="py-1.5 text-right tabular-nums">{fixed(s.mean)}</td>
+                        <td className="py-1.5 text-right tabular-nums">{fixed(s.median)}</td>
+                        <td className="py-1.5 text-right tabular-nums text-neutral-500">
+                          {s.youngest === null ? "—" : `${s.youngest}–${s.oldest}`}
+                        </td>
+                        <td className="py-1.5 pl-4">
+                          <AgeBar profile={s} />
+                        </td>
+                        <td className="py-1.5 text-right tabular-nums">{percent(s.atLeastOne)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </section>
+
+            <section className="rounded-3xl border border-neutral-200 p-4 shadow-sm">
+              <div className="text-sm font-semibold">Most likely next to go</div>
+              <div className="mt-2 text-sm">
+                {likely.length === 0 ? <div className="text-neutral-400">No living picks yet.</div> : null}
+                {likely.map((l, i) => (
+                  <div
+                    key={l.celebrity_id}
+                    className="flex items-center gap-3 border-b border-neutral-200/60 py-1 last:border-b-0"
+                  >
+                    <div className="w-6 shrink-0 text-neutral-400 tabular-nums">{i + 1}</div>
+                    <div className="min-w-0 flex-1 truncate">
+                      {l.celebrity_name}
+                      <span className="ml-2 text-xs text-neutral-500 tabular-nums">{l.age}</span>
+                    </div>
+                    <div className="w-28 shrink-0 truncate text-neutral-500">{l.owner_name}</div>
+                    <div className="w-14 shrink-0 text-right font-semibold tabular-nums">{percent(l.probability)}</div>
+                  </div>
+                ))}
+              </div>
+            </section>
+
+            <div className="text-xs text-neutral-400">
+              Odds come from a bundled US period life table (SSA), averaged across sexes, for the rest of the season.
+              Famous people aren&apos;t average people, so treat these as bragging rights, not forecasts.
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,104 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { isCommissioner } from "@/lib/commissioner";
+import { fetchCurrentSeason } from "@/lib/season";
+import { todayIso } from "@/lib/age";
+import { PROFILE_FIELDS, type CelebrityProfile } from "@/lib/celebrityProfile";
+import {
+  parseImportRows,
+  planImport,
+  summarizePlan,
+  type ImportRow,
+  type PoolCelebrity,
+} from "@/lib/celebrityImport";
+
+type ImportRequest = {
+  actor: string;
+  /** Checked with `parseImportRows`; the client can send anything. */
+  rows: unknown;
+  /** Row numbers of near-duplicates to add anyway. */
+  add_anyway?: number[];
+  /** false (the default) only previews the plan. */
+  commit?: boolean;
+};
+
+function profileOf(row: CelebrityProfile): CelebrityProfile {
+  return Object.fromEntries(PROFILE_FIELDS.map((f) => [f, row[f]])) as CelebrityProfile;
+}
+
+function json(body: Record<string, unknown>, status = 200) {
+  return NextResponse.json(body, { status });
+}
+
+// The plan is always rebuilt here against the live pool, so a stale preview
+// can't sneak duplicates in.
+export async function POST(req: Request) {
+  if (!isCommissioner(req)) return json({ ok: false, message: "Forbidden." }, 403);
+
+  let body: ImportRequest;
+  try {
+    body = (await req.json()) as ImportRequest;
+  } catch {
+    return json({ ok: false, message: "Invalid JSON." }, 400);
+  }
+
+  const actor = typeof body.actor === "string" ? body.actor.trim() : "";
+  if (!actor) return json({ ok: false, message: "Tell us who you are." }, 400);
+
+  let rows: ImportRow[];
+  try {
+    rows = parseImportRows(body.rows);
+  } catch (e) {
+    return json({ ok: false, message: (e as Error).message }, 400);
+  }
+  if (rows.length === 0) return json({ ok: false, message: "No rows to import." }, 400);
+
+  const addAnyway = body.add_anyway ?? [];
+  if (!Array.isArray(addAnyway) || !addAnyway.every((n) => Number.isInteger(n))) {
+    return json({ ok: false, message: "add_anyway must be a list of row numbers." }, 400);
+  }
+
+  try {
+    const season = await fetchCurrentSeason(supabaseAdmin);
+    const asOf = season.draft_date ?? todayIso();
+
+    const { data, error } = await supabaseAdmin
+      .from("death_draft_celebrities")
+      .select("id, name, birth_date, category, nationality, notes, reference_url, photo_url")
+      .eq("season", season.year);
+    if (error) throw error;
+
+    const plan = planImport(rows, (data ?? []) as PoolCelebrity[], { asOf, addAnyway });
+    const summary = summarizePlan(plan);
+
+    if (!body.commit) return json({ ok: true, asOf, plan, summary });
+    if (summary.add + summary.merge === 0) return json({ ok: false, message: "Nothing to import." }, 400);
+
+    const res = await supabaseAdmin.rpc("death_draft_import_celebrities", {
+      p_season: season.year,
+      p_add: plan
+        .filter((p) => p.action === "add")
+        .map((p) => ({ name: p.name, birth_date: p.birth_date, age: p.age, ...profileOf(p) })),
+      p_merge: plan
+        .filter((p) => p.action === "merge")
+        .map((p) => ({ id: p.match?.id, birth_date: p.birth_date, ...profileOf(p) })),
+    });
+    if (res.error) throw res.error;
+
+    const counts = (Array.isArray(res.data) ? res.data[0] : res.data) as { added: number; merged: number };
+    const skipped = rows.length - counts.added - counts.merged;
+    const message = `Imported ${counts.added} new, merged ${counts.merged}, skipped ${skipped}.`;
+
+    const logged = await supabaseAdmin.from("death_draft_admin_log").insert({
+      actor,
+      action: "import_celebrities",
+      details: { season: season.year, rows: rows.length, ...counts, skipped, result: message },
+    });
+    if (logged.error) return json({ ok: false, message: `${message} But it was not logged: ${logged.error.message}` }, 500);
+
+    return json({ ok: true, message, asOf, plan, summary: { add: counts.added, merge: counts.merged, skip: skipped } });
+  } catch (e) {
+    const message = (e as { message?: string })?.message ?? "Import failed.";
+    return json({ ok: false, message }, 500);
+  }
+}
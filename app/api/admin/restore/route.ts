@@ -0,0 +1,92 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { isCommissioner } from "@/lib/commissioner";
+import { missingSeats, parseDraftLog } from "@/lib/draftLog";
+import { fetchPlayers } from "@/lib/league";
+import { fetchSeason } from "@/lib/season";
+
+type RestoreRequest = {
+  actor: string;
+  log: unknown;
+  /** false (the default) only checks the file against the live draft. */
+  commit?: boolean;
+};
+
+function json(body: Record<string, unknown>, status = 200) {
+  return NextResponse.json(body, { status });
+}
+
+// Restores only into a season with no picks; the RPC checks that again under
+// the state lock, so a pick landing between preview and commit is refused.
+export async function POST(req: Request) {
+  if (!isCommissioner(req)) return json({ ok: false, message: "Forbidden." }, 403);
+
+  let body: RestoreRequest;
+  try {
+    body = (await req.json()) as RestoreRequest;
+  } catch {
+    return json({ ok: false, message: "Invalid JSON." }, 400);
+  }
+
+  const actor = typeof body.actor === "string" ? body.actor.trim() : "";
+  if (!actor) return json({ ok: false, message: "Tell us who you are." }, 400);
+
+  const { log, errors } = parseDraftLog(body.log);
+  if (!log) return json({ ok: false, message: errors[0], errors }, 400);
+
+  try {
+    const [season, players] = await Promise.all([fetchSeason(log.season.year, supabaseAdmin), fetchPlayers(supabaseAdmin)]);
+    if (!season) return json({ ok: false, message: `There is no ${log.season.year} season to restore into.` }, 404);
+
+    const missing = missingSeats(log, players);
+    if (missing.length > 0) {
+      return json({ ok: false, message: `Add these seats to the league first: ${missing.join(", ")}.` }, 409);
+    }
+
+    const { count, error } = await supabaseAdmin
+      .from("death_draft_picks")
+      .select("*", { count: "exact", head: true })
+      .eq("season", season.year);
+    if (error) throw error;
+    if (count) return json({ ok: false, message: `The ${season.year} draft already has ${count} picks. Reset it first.` }, 409);
+
+    const summary = {
+      season: season.year,
+      picks: log.picks.length,
+      exported_at: log.exported_at,
+      turn_seat: log.state?.turn_seat ?? null,
+    };
+    if (!body.commit) return json({ ok: true, summary });
+
+    // A log from before the first pick has no state; put the first seat on the clock.
+    const res = await supabaseAdmin.rpc("death_draft_restore_draft", {
+      p_season: season.year,
+      p_order_mode: log.season.order_mode,
+      p_order_seed: log.season.order_seed,
+      p_order_seats: log.season.order_seats,
+      p_pick_clock_seconds: log.season.pick_clock_seconds,
+      p_celebrities: log.celebrities,
+      p_picks: log.picks,
+      p_turn_seat: log.state?.turn_seat ?? log.order.seats[0],
+      p_pick_number: log.state?.pick_number ?? 0,
+      p_turn_started_at: log.state?.updated_at ?? new Date().toISOString(),
+      p_skipped_slots: log.state?.skipped_slots ?? 0,
+    });
+    if (res.error) throw res.error;
+
+    const out = (Array.isArray(res.data) ? res.data[0] : res.data) as { ok: boolean; message: string } | null;
+    if (!out?.ok) return json({ ok: false, message: out?.message ?? "Restore failed." }, 409);
+
+    const logged = await supabaseAdmin.from("death_draft_admin_log").insert({
+      actor,
+      action: "restore_draft",
+      details: { ...summary, result: out.message },
+    });
+    if (logged.error) return json({ ok: false, message: `${out.message} But it was not logged: ${logged.error.message}` }, 500);
+
+    return json({ ok: true, message: out.message, summary });
+  } catch (e) {
+    const message = (e as { message?: string })?.message ?? "Restore failed.";
+    return json({ ok: false, message }, 500);
+  }
+}
@@ -0,0 +1,289 @@
+import { randomInt } from "crypto";
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { isCommissioner } from "@/lib/commissioner";
+import { fetchPlayers } from "@/lib/league";
+import { fetchCurrentSeason, type Season } from "@/lib/season";
+import {
+  DRAFT_ORDER_MODES,
+  draftOrder,
+  lotteryOrder,
+  seatForPick,
+  type DraftOrderMode,
+} from "@/lib/draftOrder";
+
+type AdminAction =
+  | { action: "undo_last" }
+  | { action: "replace_pick"; pick_number: number; celebrity_id: string }
+  | { action: "skip_turn" }
+  | { action: "set_turn"; seat: number }
+  | { action: "set_order"; mode: DraftOrderMode }
+  | { action: "set_clock"; seconds: number | null }
+  | { action: "release_seat"; seat: number }
+  | { action: "veto_trade"; trade_id: number }
+  | { action: "reset"; confirm: string };
+
+type AdminRequest = AdminAction & { actor: string };
+
+type Result = { ok: true; message: string } | { ok: false; message: string; status: number };
+
+function fail(message: string, status = 400): Result {
+  return { ok: false, message, status };
+}
+
+async function loadState(season: number) {
+  const { data, error } = await supabaseAdmin
+    .from("death_draft_state")
+    .select("id, turn_seat, pick_number")
+    .eq("season", season)
+    .single();
+  if (error) throw error;
+  return data as { id: number; turn_seat: number; pick_number: number };
+}
+
+async function setState(season: number, turnSeat: number, pickNumber: number, skippedSlots?: number) {
+  const { error } = await supabaseAdmin
+    .from("death_draft_state")
+    .update({
+      turn_seat: turnSeat,
+      pick_number: pickNumber,
+      updated_at: new Date().toISOString(),
+      ...(skippedSlots === undefined ? {} : { skipped_slots: skippedSlots }),
+    })
+    .eq("season", season);
+  if (error) throw error;
+}
+
+async function undoLast(season: number): Promise<Result> {
+  const { data, error } = await supabaseAdmin
+    .from("death_draft_picks")
+    .select("pick_number, seat, celebrity_id")
+    .eq("season", season)
+    .order("pick_number", { ascending: false })
+    .limit(1);
+  if (error) throw error;
+
+  const last = data?.[0];
+  if (!last) return fail("There are no picks to undo.");
+
+  const del = await supabaseAdmin
+    .from("death_draft_picks")
+    .delete()
+    .eq("season", season)
+    .eq("pick_number", last.pick_number);
+  if (del.error) throw del.error;
+
+  // The seat that made the pick is back on the clock.
+  await setState(season, last.seat, last.pick_number - 1);
+  return { ok: true, message: `Undid pick #${last.pick_number}.` };
+}
+
+async function replacePick(season: number, pickNumber: number, celebrityId: string): Promise<Result> {
+  if (!Number.isInteger(pickNumber) || !celebrityId) return fail("pick_number and celebrity_id are required.");
+
+  const [pickRes, celebRes, takenRes] = await Promise.all([
+    supabaseAdmin
+      .from("death_draft_picks")
+      .select("pick_number")
+      .eq("season", season)
+      .eq("pick_number", pickNumber)
+      .maybeSingle(),
+    supabaseAdmin
+      .from("death_draft_celebrities")
+      .select("id, name")
+      .eq("season", season)
+      .eq("id", celebrityId)
+      .maybeSingle(),
+    supabaseAdmin.from("death_draft_picks").select("pick_number").eq("celebrity_id", celebrityId).maybeSingle(),
+  ]);
+  if (pickRes.error) throw pickRes.error;
+  if (celebRes.error) throw celebRes.error;
+  if (takenRes.error) throw takenRes.error;
+
+  if (!pickRes.data) return fail(`Pick #${pickNumber} does not exist.`, 404);
+  if (!celebRes.data) return fail("Unknown celebrity.", 404);
+  if (takenRes.data) return fail(`${celebRes.data.name} was already taken at pick #${takenRes.data.pick_number}.`, 409);
+
+  const { error } = await supabaseAdmin
+    .from("death_draft_picks")
+    .update({ celebrity_id: celebrityId })
+    .eq("season", season)
+    .eq("pick_number", pickNumber);
+  if (error) throw error;
+
+  return { ok: true, message: `Pick #${pickNumber} is now ${celebRes.data.name}.` };
+}
+
+async function setTurn(season: number, seat: number): Promise<Result> {
+  const players = await fetchPlayers(supabaseAdmin);
+  if (!players.some((p) => p.seat === seat)) return fail(`Seat ${seat} is not in the league.`);
+
+  const state = await loadState(season);
+  await setState(season, seat, state.pick_number);
+  return { ok: true, message: `Seat ${seat} is on the clock.` };
+}
+
+// Hands the clock to whoever is on deck. The skipped slot is used up, so the
+// skipped seat doesn't get the pick back and nobody picks twice.
+async function skipTurn(season: number): Promise<Result> {
+  const { data, error } = await supabaseAdmin.rpc("death_draft_skip_turn", { p_season: season });
+  if (error) throw error;
+
+  const res = Array.isArray(data) ? data[0] : data;
+  if (!res?.ok) return fail(res?.message ?? "Skip failed.", 409);
+  return { ok: true, message: res.message };
+}
+
+async function setOrder(season: Season, mode: DraftOrderMode): Promise<Result> {
+  if (!DRAFT_ORDER_MODES.some((m) => m.mode === mode)) return fail("Unknown draft order.");
+
+  const [state, players] = await Promise.all([loadState(season.year), fetchPlayers(supabaseAdmin)]);
+  if (state.pick_number > 0) return fail("The draft order can't change once picks are in. Reset first.");
+
+  const seed = mode === "lottery" ? randomInt(0, 2 ** 31) : null;
+  const seats = seed === null ? null : lotteryOrder(players.map((p) => p.seat), seed);
+
+  const { error } = await supabaseAdmin
+    .from("death_draft_seasons")
+    .update({ order_mode: mode, order_seed: seed, order_seats: seats })
+    .eq("year", season.year);
+  if (error) throw error;
+
+  const first = seatForPick(draftOrder(players, { order_mode: mode, order_seats: seats }), 1);
+  if (first !== null) await setState(season.year, first, 0, 0);
+
+  return {
+    ok: true,
+    message: seed === null ? `Draft order is now ${mode}.` : `Lottery drawn with seed ${seed}: ${seats!.join(", ")}.`,
+  };
+}
+
+async function setClock(season: number, seconds: number | null): Promise<Result> {
+  if (seconds !== null && (!Number.isInteger(seconds) || seconds <= 0)) {
+    return fail("Clock must be a whole number of seconds, or empty to turn it off.");
+  }
+
+  const { error } = await supabaseAdmin
+    .from("death_draft_seasons")
+    .update({ pick_clock_seconds: seconds })
+    .eq("year", season);
+  if (error) throw error;
+
+  return { ok: true, message: seconds === null ? "Pick clock off." : `Pick clock set to ${seconds}s.` };
+}
+
+async function releaseSeat(seat: number): Promise<Result> {
+  const { data, error } = await supabaseAdmin
+    .from("death_draft_seat_claims")
+    .delete()
+    .eq("seat", seat)
+    .select("seat");
+  if (error) throw error;
+  if (!data || data.length === 0) return fail(`Seat ${seat} isn't claimed.`, 404);
+
+  return { ok: true, message: `Released seat ${seat}; the next login to claim it gets it.` };
+}
+
+async function vetoTrade(tradeId: number): Promise<Result> {
+  if (!Number.isInteger(tradeId)) return fail("trade_id is required.");
+
+  const { data, error } = await supabaseAdmin.rpc("death_draft_veto_trade", { p_trade_id: tradeId });
+  if (error) throw error;
+
+  const res = Array.isArray(data) ? data[0] : data;
+  if (!res?.ok) return fail(res?.message ?? "Veto failed.", 409);
+  return { ok: true, message: `Vetoed trade #${tradeId}.` };
+}
+
+async function reset(season: Season, confirm: string): Promise<Result> {
+  if (confirm !== "RESET") return fail('Type "RESET" to confirm.');
+
+  const { error } = await supabaseAdmin.from("death_draft_picks").delete().eq("season", season.year);
+  if (error) throw error;
+
+  const players = await fetchPlayers(supabaseAdmin);
+  await setState(season.year, seatForPick(draftOrder(players, season), 1) ?? 1, 0, 0);
+  return { ok: true, message: "Draft reset." };
+}
+
+// Corrections only ever apply to the current season; archives are read-only.
+async function run(body: AdminRequest): Promise<Result> {
+  const season = await fetchCurrentSeason(supabaseAdmin);
+  const { year } = season;
+
+  switch (body.action) {
+    case "undo_last":
+      return undoLast(year);
+    case "replace_pick":
+      return replacePick(year, Number(body.pick_number), String(body.celebrity_id ?? ""));
+    case "skip_turn":
+      return skipTurn(year);
+    case "set_turn":
+      return setTurn(year, Number(body.seat));
+    case "set_order":
+      return setOrder(season, body.mode);
+    case "release_seat":
+      return releaseSeat(Number(body.seat));
+    case "veto_trade":
+      return vetoTrade(Number(body.trade_id));
+    case "set_clock":
+      return setClock(year, body.seconds === null || body.seconds === undefined ? null : Number(body.seconds));
+    case "reset":
+      return reset(season, String(body.confirm ?? ""));
+    default:
+      return fail("Unknown action.");
+  }
+}
+
+export async function GET(req: Request) {
+  if (!isCommissioner(req)) return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
+
+  const { data, error } = await supabaseAdmin
+    .from("death_draft_admin_log")
+    .select("id, actor, action, details, created_at")
+    .order("created_at", { ascending: false })
+    .limit(50);
+  if (error) return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+
+  return NextResponse.json({ ok: true, log: data ?? [] });
+}
+
+export async function POST(req: Request) {
+  if (!isCommissioner(req)) return NextResponse.json({ ok: false, message: "Forbidden." }, { status: 403 });
+
+  let body: AdminRequest;
+  try {
+    body = (await req.json()) as AdminRequest;
+  } catch {
+    return NextResponse.json({ ok: false, message: "Invalid JSON." }, { status: 400 });
+  }
+
+  const actor = typeof body.actor === "string" ? body.actor.trim() : "";
+  if (!actor) return NextResponse.json({ ok: false, message: "Tell us who you are." }, { status: 400 });
+
+  let result: Result;
+  try {
+    result = await run(body);
+  } catch (e) {
+    // Supabase errors are plain objects, not Error instances.
+    const message = (e as { message?: string })?.message ?? "Admin action failed.";
+    return NextResponse.json({ ok: false, message }, { status: 500 });
+  }
+
+  if (!result.ok) {
+    return NextResponse.json({ ok: false, message: result.message }, { status: result.status });
+  }
+
+  const logged = await supabaseAdmin.from("death_draft_admin_log").insert({
+    actor,
+    action: body.action,
+    details: { ...body, result: result.message },
+  });
+  if (logged.error) {
+    // The action already went through; say so rather than inviting a retry that would repeat it.
+    const message = `${result.message} But it was not logged: ${logged.error.message}`;
+    return NextResponse.json({ ok: false, message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, message: result.message });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { BOARD_VIEWS, type BoardView } from "@/lib/board";
+import { parseImageSize } from "@/lib/boardImage";
+import { renderBoardImage } from "@/lib/renderBoardImage";
+
+// GET /api/board-image?season=2026&view=rounds&size=1920x1080&page=2
+// Every parameter is optional: current season, rosters, HD, first page.
+// The page count comes back in the x-board-pages header.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+
+  const view = (params.get("view") ?? "seats") as BoardView;
+  if (!BOARD_VIEWS.some((v) => v.view === view)) {
+    return NextResponse.json({ ok: false, message: "Unknown view." }, { status: 400 });
+  }
+
+  const size = parseImageSize(params.get("size"));
+  if (!size) return NextResponse.json({ ok: false, message: "Size must be a preset or WIDTHxHEIGHT." }, { status: 400 });
+
+  const year = params.has("season") ? Number(params.get("season")) : null;
+  if (year !== null && !Number.isInteger(year)) {
+    return NextResponse.json({ ok: false, message: "Invalid season." }, { status: 400 });
+  }
+
+  try {
+    const image = await renderBoardImage({ year, view, size, page: Number(params.get("page")) || 1 });
+    if (!image) return NextResponse.json({ ok: false, message: `No ${year} season.` }, { status: 404 });
+    return image;
+  } catch (e) {
+    const message = (e as { message?: string })?.message ?? "Couldn't draw the board.";
+    return NextResponse.json({ ok: false, message }, { status: 500 });
+  }
+}
@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+
+// Any client whose countdown hits zero pokes this. The database decides whether
+// the clock really expired, so duplicate or early calls are harmless. Without
+// pg_cron (see 0019_auto_pick_oldest.sql) this is the only trigger, so an
+// expired clock waits until someone has the board or a pick page open.
+export async function POST() {
+  const { data, error } = await supabaseAdmin.rpc("death_draft_auto_pick");
+  if (error) return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+
+  const res = Array.isArray(data) ? data[0] : data;
+  return NextResponse.json({ ok: !!res?.ok, message: res?.message ?? "" });
+}
@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { buildDraftLog, draftLogCsv } from "@/lib/draftLog";
+import { draftOrder } from "@/lib/draftOrder";
+import { fetchPlayers } from "@/lib/league";
+import { fetchCurrentSeason, fetchSeason } from "@/lib/season";
+import { supabaseDraftRepository } from "@/lib/supabaseDraftRepository";
+
+// GET /api/draft-log?season=2026&format=csv. JSON (the default) is the
+// lossless backup the admin page can restore; CSV is one line per pick.
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const format = params.get("format") === "csv" ? "csv" : "json";
+  const year = Number(params.get("season"));
+
+  try {
+    const season = params.has("season") ? await fetchSeason(year, supabaseAdmin) : await fetchCurrentSeason(supabaseAdmin);
+    if (!season) return NextResponse.json({ ok: false, message: `No ${year} season.` }, { status: 404 });
+
+    const repo = supabaseDraftRepository(supabaseAdmin);
+    const [players, state, board] = await Promise.all([
+      fetchPlayers(supabaseAdmin),
+      repo.fetchState(season.year),
+      repo.fetchBoard(season.year),
+    ]);
+
+    const log = buildDraftLog({ season, players, order: draftOrder(players, season), state, board });
+    const stamp = log.exported_at.slice(0, 19).replace(/[:T]/g, "-");
+    const filename = `death-draft-log-${season.year}-${stamp}.${format}`;
+
+    return new NextResponse(format === "csv" ? draftLogCsv(log) : JSON.stringify(log, null, 2), {
+      headers: {
+        "content-type": format === "csv" ? "text/csv; charset=utf-8" : "application/json; charset=utf-8",
+        "content-disposition": `attachment; filename="${filename}"`,
+        "cache-control": "no-store",
+      },
+    });
+  } catch (e) {
+    const message = (e as { message?: string })?.message ?? "Export failed.";
+    return NextResponse.json({ ok: false, message }, { status: 500 });
+  }
+}
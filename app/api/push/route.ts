@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { notifyTurn } from "@/lib/pushTurn";
+
+// Clients that see the turn change poke this, like /api/clock. Each turn is
+// only announced once, so duplicate calls are harmless.
+export async function POST() {
+  try {
+    return NextResponse.json(await notifyTurn());
+  } catch (e) {
+    return NextResponse.json(
+      { ok: false, message: (e as { message?: string })?.message ?? "Push failed." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { IMAGE_SIZES } from "@/lib/boardImage";
+import { renderBoardImage } from "@/lib/renderBoardImage";
+
+// Link previews show the board as it stands, so this can't be built once at deploy.
+export const dynamic = "force-dynamic";
+
+export const alt = "Celebrity Death Draft board";
+export const size = IMAGE_SIZES.og;
+export const contentType = "image/png";
+
+export default async function Image() {
+  // Chat apps re-fetch previews rarely; a minute of caching spares the database on a busy share.
+  const image = await renderBoardImage({ year: null, view: "seats", size, page: 1, cacheControl: "public, max-age=60" });
+  return image ?? new Response(null, { status: 404 });
+}
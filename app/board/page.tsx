@@ -1,79 +1,94 @@
 "use client";
 
-import { useEffect, useMemo, useRef, useState } from "react";
-import { supabase } from "@/lib/supabaseClient";
-import html2canvas from "html2canvas";
-
-type Player = {
-  seat: number;
-  name: string;
-};
-
-type BoardRow = {
-  pick_number: number;
-  seat: number;
-  player_name: string;
-  celebrity_id: string;
-  celebrity_name: string;
-  celebrity_age: number;
-  picked_at: string;
-};
-
-const PLAYERS: Player[] = [
-  { seat: 1, name: "Scoot" },
-  { seat: 2, name: "Brian" },
-  { seat: 3, name: "Stephan" },
-  { seat: 4, name: "Bee" },
-  { seat: 5, name: "Ryan" },
-  { seat: 6, name: "Thomas" },
-];
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { draftOrder, upcomingPicks } from "@/lib/draftOrder";
+import { seasonTitle } from "@/lib/season";
+import { useLeague } from "@/lib/useLeague";
+import { useSeason } from "@/lib/useSeason";
+import { usePickClock } from "@/lib/usePickClock";
+import { useDraftChat } from "@/lib/useDraftChat";
+import { ageReferenceDate } from "@/lib/age";
+import { playCue } from "@/lib/soundCues";
+import { staleLabel, withSnapshot } from "@/lib/offlineCache";
+import { getDraftRepo } from "@/lib/draftRepo";
+import type { BoardRow } from "@/lib/draftRepository";
+import DraftBoard from "@/components/DraftBoard";
+import TvMode from "@/components/TvMode";
+import ChatTicker from "@/components/ChatTicker";
+
+/** How often the board double-checks its pick count against the server. */
+const VERIFY_MS = 30_000;
+const MAX_RECONNECT_DELAY_MS = 30_000;
 
 export default function BoardPage() {
+  const { players, error: leagueErr } = useLeague();
+  const { season, error: seasonErr } = useSeason();
+  const year = season?.year ?? null;
   const [rows, setRows] = useState<BoardRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [err, setErr] = useState<string | null>(null);
   const [rtStatus, setRtStatus] = useState<string>("connecting");
   const [rtEvents, setRtEvents] = useState<number>(0);
+  const [syncing, setSyncing] = useState(false);
+  const [reconnects, setReconnects] = useState(0);
   const [turnSeat, setTurnSeat] = useState<number | null>(null);
+  const [turnStartedAt, setTurnStartedAt] = useState<string | null>(null);
+  const [skippedSlots, setSkippedSlots] = useState(0);
   const [totalCelebrities, setTotalCelebrities] = useState<number>(0);
-  const boardImageRef = useRef<HTMLDivElement>(null);
+  // Set while the rows on screen are a cached copy from before the connection dropped.
+  const [staleAt, setStaleAt] = useState<string | null>(null);
+  const [tv, setTv] = useState(false);
+  const [sound, setSound] = useState(false);
+  // Picks waiting to be announced in TV mode, oldest first.
+  const [announcements, setAnnouncements] = useState<BoardRow[]>([]);
+
+  // The ticker shares this page's board rows and realtime channel.
+  const chat = useDraftChat(year, { picks: rows, limit: 50 });
+
+  // Realtime handlers are registered once per connection, so they read rows through a ref.
+  const rowsRef = useRef<BoardRow[]>([]);
+  useEffect(() => {
+    rowsRef.current = rows;
+  }, [rows]);
+  const tvRef = useRef(false);
+  useEffect(() => {
+    tvRef.current = tv;
+  }, [tv]);
 
   const load = async () => {
+    if (year === null) return;
     setErr(null);
 
-    const [boardRes, stateRes, countRes] = await Promise.all([
-      supabase
-        .from("death_draft_board")
-        .select(
-          "pick_number, seat, player_name, celebrity_id, celebrity_name, celebrity_age, picked_at"
-        ),
-      supabase
-        .from("death_draft_state")
-        .select("turn_seat")
-        .eq("id", 1)
-        .single(),
-      supabase
-        .from("death_draft_celebrities")
-        .select("*", { count: "exact", head: true }),
+    // Each read falls back to its last good copy, so the board still opens offline.
+    const repo = getDraftRepo();
+    const [boardRes, stateRes, countRes] = await Promise.allSettled([
+      withSnapshot(`board-${year}`, () => repo.fetchBoard(year)),
+      withSnapshot(`state-${year}`, () => repo.fetchState(year)),
+      withSnapshot(`celebrity-count-${year}`, () => repo.countCelebrities(year)),
     ]);
 
-    if (boardRes.error) {
-      setErr(boardRes.error.message);
+    if (boardRes.status === "rejected") {
+      setErr((boardRes.reason as { message?: string })?.message ?? "Failed to load board.");
       return;
     }
 
-    setRows((boardRes.data ?? []) as BoardRow[]);
+    setRows(boardRes.value.data);
+    setStaleAt(boardRes.value.staleAt);
 
-    if (!stateRes.error && stateRes.data) {
-      setTurnSeat((stateRes.data as any).turn_seat ?? null);
+    if (stateRes.status === "fulfilled" && stateRes.value.data) {
+      setTurnSeat(stateRes.value.data.turn_seat ?? null);
+      setTurnStartedAt(stateRes.value.data.updated_at ?? null);
+      setSkippedSlots(stateRes.value.data.skipped_slots ?? 0);
     }
 
-    if (!countRes.error && countRes.count !== null) {
-      setTotalCelebrities(countRes.count);
+    if (countRes.status === "fulfilled") {
+      setTotalCelebrities(countRes.value.data);
     }
   };
 
   useEffect(() => {
+    if (year === null) return;
+
     let alive = true;
 
     const run = async () => {
@@ -87,448 +102,221 @@ export default function BoardPage() {
 
     void run();
 
-    setRtStatus("connecting");
+    const repo = getDraftRepo();
+    let unsubscribe: (() => void) | null = null;
+    let retryTimer: number | null = null;
+    let attempt = 0;
+    let resyncing: Promise<void> | null = null;
+
+    // Full reload; concurrent triggers (gap, reconnect, count mismatch) share one.
+    const resync = () => {
+      if (!resyncing) {
+        setSyncing(true);
+        resyncing = Promise.all([load(), chat.reload()])
+          .then(() => {})
+          .catch(() => {
+            /* the next check tries again */
+          })
+          .finally(() => {
+            resyncing = null;
+            if (alive) setSyncing(false);
+          });
+      }
+      return resyncing;
+    };
+
+    const reconnect = () => {
+      if (!alive || retryTimer !== null) return;
+      attempt += 1;
+      setReconnects(attempt);
+
+      unsubscribe?.();
+      unsubscribe = null;
+
+      const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** (attempt - 1));
+      retryTimer = window.setTimeout(() => {
+        retryTimer = null;
+        if (alive) connect();
+      }, delay);
+    };
+
+    const connect = () => {
+      unsubscribe = repo.subscribe(year, {
+        ...chat.listeners,
+        onPickInserted: async (pick) => {
+          setRtEvents((n) => n + 1);
+
+          // A skipped pick number means we missed an event; patching around it would hide a pick.
+          const last = rowsRef.current.reduce((max, r) => Math.max(max, r.pick_number), 0);
+          if (pick.pick_number > last + 1) {
+            void resync();
+            return;
+          }
 
-    const channel = supabase
-      .channel("death-draft-board")
-      .on(
-        "postgres_changes",
-        { event: "INSERT", schema: "public", table: "death_draft_picks" },
-        async (payload) => {
           try {
-            const nextPick = payload.new as any;
             // Fetch the joined row from the view (so we have name + age)
-            const { data, error } = await supabase
-              .from("death_draft_board")
-              .select(
-                "pick_number, seat, player_name, celebrity_id, celebrity_name, celebrity_age, picked_at"
-              )
-              .eq("pick_number", nextPick.pick_number)
-              .single();
-
-            if (error || !data) return;
+            const row = await repo.fetchBoardRow(year, pick.pick_number);
+            if (!row) {
+              void resync();
+              return;
+            }
 
             setRows((prev) => {
               // Avoid duplicates if the event fires twice
-              if (prev.some((r) => r.pick_number === (data as any).pick_number)) return prev;
-              return [...prev, data as BoardRow];
+              if (prev.some((r) => r.pick_number === row.pick_number)) return prev;
+              return [...prev, row];
             });
-            setRtEvents((n) => n + 1);
+            // Only live inserts are announced; a resync catching up stays quiet.
+            if (tvRef.current) {
+              setAnnouncements((q) => (q.some((r) => r.pick_number === row.pick_number) ? q : [...q, row]));
+            }
           } catch {
             // If anything goes wrong, fall back to full reload
-            void load();
+            void resync();
           }
-        }
-      )
-      .on(
-        "postgres_changes",
-        { event: "DELETE", schema: "public", table: "death_draft_picks" },
-        (payload) => {
-          const oldRow = payload.old as any;
-          setRows((prev) => prev.filter((r) => r.celebrity_id !== oldRow.celebrity_id));
+        },
+        onPickDeleted: (pick) => {
+          setRows((prev) => prev.filter((r) => r.celebrity_id !== pick.celebrity_id));
           setRtEvents((n) => n + 1);
-        }
-      )
-      .on(
-        "postgres_changes",
-        { event: "UPDATE", schema: "public", table: "death_draft_picks" },
-        () => {
+        },
+        onPickUpdated: () => {
           // Updates are rare; easiest correct behavior is refetch.
-          void load();
+          void resync();
           setRtEvents((n) => n + 1);
-        }
-      )
-      .on(
-        "postgres_changes",
-        { event: "UPDATE", schema: "public", table: "death_draft_state", filter: "id=eq.1" },
-        (payload) => {
-          const next = payload.new as any;
-          setTurnSeat(next?.turn_seat ?? null);
+        },
+        onState: (next) => {
+          setTurnSeat(next.turn_seat ?? null);
+          setTurnStartedAt(next.updated_at ?? null);
+          setSkippedSlots(next.skipped_slots ?? 0);
+          void fetch("/api/push", { method: "POST" }).catch(() => {
+            /* best effort; any open pick page asks too */
+          });
           setRtEvents((n) => n + 1);
-        }
-      )
-      .subscribe((status) => {
-        setRtStatus(String(status).toLowerCase());
+        },
+        onStatus: (status) => {
+          if (!alive) return;
+          setRtStatus(status);
+
+          if (status === "subscribed") {
+            // Picks made while we were disconnected never arrive as events.
+            if (attempt > 0) void resync();
+            attempt = 0;
+            setReconnects(0);
+          } else if (status === "channel_error" || status === "timed_out" || status === "closed") {
+            reconnect();
+          }
+        },
       });
-
-    return () => {
-      alive = false;
-      void supabase.removeChannel(channel);
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, []);
 
-  const bySeat = useMemo(() => {
-    const m = new Map<number, BoardRow[]>();
-    for (const p of PLAYERS) m.set(p.seat, []);
+    connect();
 
-    for (const r of rows) {
-      if (!m.has(r.seat)) m.set(r.seat, []);
-      m.get(r.seat)!.push(r);
-    }
-
-    // Sort within each seat by age (desc), tie-break by name.
-    for (const [seat, list] of m.entries()) {
-      list.sort((a, b) => {
-        if (b.celebrity_age !== a.celebrity_age) return b.celebrity_age - a.celebrity_age;
-        return a.celebrity_name.localeCompare(b.celebrity_name);
-      });
-      m.set(seat, list);
-    }
+    // Belt and braces: a dropped event with no later pick leaves no gap to notice.
+    const verify = async () => {
+      const count = await repo.countPicks(year).catch(() => null);
+      if (!alive || count === null) return;
+      if (count !== rowsRef.current.length) void resync();
+    };
+    const verifyTimer = window.setInterval(() => void verify(), VERIFY_MS);
 
-    return m;
-  }, [rows]);
+    // Screen-shares and sleeping laptops drop sockets quietly; catch up on return.
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible" && alive) void resync();
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("online", resync);
 
-  const lastPickNumber = useMemo(() => {
-    if (rows.length === 0) return null;
-    return rows.reduce((max, r) => (r.pick_number > max ? r.pick_number : max), rows[0].pick_number);
-  }, [rows]);
+    return () => {
+      alive = false;
+      window.clearInterval(verifyTimer);
+      if (retryTimer !== null) window.clearTimeout(retryTimer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("online", resync);
+      unsubscribe?.();
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [year, chat.listeners]);
 
   const liveLabel = useMemo(() => {
+    if (staleAt) return "Offline";
+    if (reconnects > 0 && rtStatus !== "subscribed") return `Reconnecting (${reconnects})`;
+    if (syncing) return rtStatus === "subscribed" ? "Live · Resyncing" : "Resyncing";
     if (rtStatus === "subscribed") return "Live";
-    if (rtStatus === "channel_error") return "Not Live - Refresh";
     return "Connecting";
-  }, [rtStatus]);
-
-  const roundNumber = useMemo(() => {
-    const numPicks = rows.length;
-    return Math.max(1, Math.ceil(numPicks / 6));
-  }, [rows.length]);
-
-  const percentComplete = useMemo(() => {
-    if (totalCelebrities === 0) return 0;
-    return Math.round((rows.length / totalCelebrities) * 100);
-  }, [rows.length, totalCelebrities]);
-
-  const exportBoardCsv = () => {
-    // Build per-seat lists in the same order as the UI
-    const lists: Record<number, BoardRow[]> = {};
-    for (const p of PLAYERS) {
-      const l = (bySeat.get(p.seat) ?? []).slice();
-      // bySeat is already sorted, but keep it explicit
-      l.sort((a, b) => {
-        if (b.celebrity_age !== a.celebrity_age) return b.celebrity_age - a.celebrity_age;
-        return a.celebrity_name.localeCompare(b.celebrity_name);
-      });
-      lists[p.seat] = l;
-    }
-
-    const maxLen = Math.max(0, ...PLAYERS.map((p) => lists[p.seat].length));
-
-    const headers: string[] = [];
-    for (const p of PLAYERS) {
-      headers.push(p.name);
-      headers.push(`${p.name} Age`);
-    }
-
-    const escape = (v: string) => {
-      // CSV escaping: wrap in quotes if needed and double internal quotes
-      if (/[\n\r,\"]/g.test(v)) return `"${v.replace(/\"/g, '""')}"`;
-      return v;
-    };
-
-    const lines: string[] = [];
-    lines.push(headers.map(escape).join(","));
-
-    for (let i = 0; i < maxLen; i++) {
-      const row: string[] = [];
-      for (const p of PLAYERS) {
-        const item = lists[p.seat][i];
-        row.push(item ? item.celebrity_name : "");
-        row.push(item ? String(item.celebrity_age) : "");
-      }
-      lines.push(row.map(escape).join(","));
-    }
-
-    const csv = lines.join("\n");
-    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
-    const url = URL.createObjectURL(blob);
-
-    const a = document.createElement("a");
-    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
-    a.href = url;
-    a.download = `death-draft-board-${stamp}.csv`;
-    document.body.appendChild(a);
-    a.click();
-    a.remove();
-    URL.revokeObjectURL(url);
+  }, [rtStatus, reconnects, syncing, staleAt]);
+
+  const upcoming = useMemo(() => {
+    if (turnSeat === null) return [];
+    const nextPick = rows.reduce((max, r) => Math.max(max, r.pick_number), 0) + 1;
+    return upcomingPicks(draftOrder(players, season), nextPick, 4, skippedSlots);
+  }, [players, season, rows, turnSeat, skippedSlots]);
+
+  const clockRemaining = usePickClock(turnStartedAt, season?.pick_clock_seconds ?? null, () => {
+    void fetch("/api/clock", { method: "POST" }).catch(() => {
+      /* another client will retry; the next state update resets the clock */
+    });
+  });
+
+  const enterTv = () => {
+    setTv(true);
+    // Fullscreen needs the click's user gesture, so it's requested here rather than in an effect.
+    void document.documentElement.requestFullscreen?.().catch(() => {
+      /* not allowed (e.g. iframe); TV mode still covers the window */
+    });
   };
 
-  const exportBoardImage = async () => {
-    if (!boardImageRef.current) return;
-
-    try {
-      // Capture at actual size first
-      const canvas = await html2canvas(boardImageRef.current, {
-        backgroundColor: "#ffffff",
-        scale: 2,
-        logging: false,
-        ignoreElements: (element) => {
-          return false;
-        },
-        onclone: (clonedDoc) => {
-          const clonedElement = clonedDoc.querySelector('[data-export-board]');
-          if (clonedElement) {
-            (clonedElement as HTMLElement).style.color = '#171717';
-          }
-        },
-      });
-
-      // Create a new canvas with fixed 1920x1080 dimensions
-      const finalCanvas = document.createElement('canvas');
-      finalCanvas.width = 1920 * 2; // 2x for retina
-      finalCanvas.height = 1080 * 2; // 2x for retina
-      const ctx = finalCanvas.getContext('2d');
-
-      if (ctx) {
-        // Fill with white background
-        ctx.fillStyle = '#ffffff';
-        ctx.fillRect(0, 0, finalCanvas.width, finalCanvas.height);
-
-        // Calculate scaling to fit the content within 1920x1080
-        const scaleX = finalCanvas.width / canvas.width;
-        const scaleY = finalCanvas.height / canvas.height;
-        const scale = Math.min(scaleX, scaleY);
-
-        // Calculate centered position
-        const scaledWidth = canvas.width * scale;
-        const scaledHeight = canvas.height * scale;
-        const x = (finalCanvas.width - scaledWidth) / 2;
-        const y = (finalCanvas.height - scaledHeight) / 2;
-
-        // Draw the scaled image centered
-        ctx.drawImage(canvas, x, y, scaledWidth, scaledHeight);
-      }
+  const exitTv = useCallback(() => {
+    setTv(false);
+    setAnnouncements([]);
+    if (document.fullscreenElement) void document.exitFullscreen().catch(() => {});
+  }, []);
 
-      finalCanvas.toBlob((blob) => {
-        if (!blob) return;
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement("a");
-        const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
-        a.href = url;
-        a.download = `death-draft-board-${stamp}.png`;
-        document.body.appendChild(a);
-        a.click();
-        a.remove();
-        URL.revokeObjectURL(url);
-      });
-    } catch (error) {
-      console.error("Failed to export image:", error);
-    }
+  const toggleSound = () => {
+    // Enabling from a click also unlocks audio for later cues.
+    if (!sound) playCue("pick");
+    setSound((s) => !s);
   };
 
+  const title = year === null ? "" : seasonTitle(year, { withYear: true });
+
+  if (tv) {
+    return (
+      <TvMode
+        title={title}
+        players={players}
+        rows={rows}
+        asOf={ageReferenceDate(season)}
+        turnSeat={turnSeat}
+        upcoming={upcoming}
+        clockRemaining={clockRemaining}
+        statusLabel={liveLabel}
+        announcement={announcements[0] ?? null}
+        onAnnounced={() => setAnnouncements((q) => q.slice(1))}
+        sound={sound}
+        onToggleSound={toggleSound}
+        onExit={exitTv}
+      />
+    );
+  }
+
   return (
-    <main className="min-h-dvh bg-white px-8 py-4 text-neutral-900">
-      <div className="mx-auto w-full max-w-[1400px]">
-        <div className="mb-3 flex items-center justify-between">
-          <div>
-            <h1 className="text-2xl font-semibold tracking-tight">10th Annual Celebrity Death Draft - 2026</h1>
-            {!loading && !err && (
-              <div className="mt-1 flex items-center gap-4 text-sm text-neutral-600">
-                <div>Round {roundNumber}</div>
-                <div>{percentComplete}% Complete</div>
-              </div>
-            )}
-          </div>
-
-          <div className="flex items-center gap-2">
-            <button
-              type="button"
-              onClick={exportBoardCsv}
-              className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
-            >
-              Export CSV
-            </button>
-
-            <button
-              type="button"
-              onClick={exportBoardImage}
-              className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
-            >
-              Export Image
-            </button>
-
-            <div className="text-sm text-neutral-500">
-              {loading ? (
-                "Loading…"
-              ) : err ? (
-                ""
-              ) : (
-                <div className="flex items-center gap-3">
-                  <div>{`${rows.length} picks`}</div>
-                  <div className="text-xs uppercase text-neutral-400">{liveLabel}</div>
-                </div>
-              )}
-            </div>
-          </div>
-        </div>
-
-        {err ? (
-          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
-            Error loading board: {err}
-          </div>
-        ) : null}
-
-        <div className="overflow-x-auto">
-          <div className="max-h-[calc(100vh-120px)] overflow-y-auto pb-64">
-            <div className="grid min-w-[1200px] grid-cols-6 gap-8">
-              {PLAYERS.map((p) => {
-                const list = bySeat.get(p.seat) ?? [];
-                return (
-                  <section key={p.seat} className="">
-                    <div
-                      className={
-                        "sticky top-0 z-10 backdrop-blur py-2 text-center text-base font-semibold border-b " +
-                        (turnSeat === p.seat
-                          ? "bg-amber-100 border-amber-200 text-neutral-900"
-                          : "bg-white/95 border-neutral-200 text-neutral-900")
-                      }
-                    >
-                      {p.name}
-                      {turnSeat === p.seat ? (
-                        <span className="ml-2 rounded-full bg-amber-300/70 px-2 py-0.5 text-[10px] font-extrabold uppercase tracking-wide">
-                          UP
-                        </span>
-                      ) : null}
-                    </div>
-
-                    <div className="pr-1 text-sm">
-                      {list.length === 0 ? (
-                        <div className="py-2 text-center text-xs text-neutral-400">No picks yet</div>
-                      ) : null}
-
-                      {list.map((r) => (
-                        <div
-                          key={r.celebrity_id}
-                          className={
-                            "flex items-center justify-between gap-2 border-b border-neutral-200/60 py-0.5 leading-tight " +
-                            (lastPickNumber !== null && r.pick_number === lastPickNumber
-                              ? "relative font-semibold text-[14px] after:content-[''] after:pointer-events-none after:absolute after:inset-y-0 after:-inset-x-1 after:rounded after:border after:border-neutral-300"
-                              : "")
-                          }
-                        >
-                          <div
-                            className={
-                              "min-w-0 flex-1 truncate " +
-                              (lastPickNumber !== null && r.pick_number === lastPickNumber ? "text-[14px]" : "text-[13px]")
-                            }
-                          >
-                            {r.celebrity_name}
-                          </div>
-                          <div
-                            className={
-                              "w-9 shrink-0 text-right tabular-nums " +
-                              (lastPickNumber !== null && r.pick_number === lastPickNumber
-                                ? "text-neutral-900 text-[13px]"
-                                : "text-neutral-600 text-[12px]")
-                            }
-                          >
-                            {r.celebrity_age}
-                          </div>
-                        </div>
-                      ))}
-                    </div>
-                  </section>
-                );
-              })}
-            </div>
-          </div>
-        </div>
-
-        {/* Hidden board for image export */}
-        <div
-          ref={boardImageRef}
-          data-export-board
-          style={{
-            position: 'fixed',
-            left: '-9999px',
-            top: '0',
-            backgroundColor: '#ffffff',
-            padding: '40px 50px',
-            width: '1820px',
-            height: '1000px',
-            color: '#171717',
-            boxSizing: 'border-box',
-          }}
-        >
-          <h1 style={{
-            fontSize: '32px',
-            fontWeight: '600',
-            letterSpacing: '-0.025em',
-            textAlign: 'center',
-            marginBottom: '30px',
-            color: '#171717',
-          }}>
-            10th Annual Celebrity Death Draft
-          </h1>
-          <div style={{
-            display: 'grid',
-            gridTemplateColumns: 'repeat(6, 1fr)',
-            gap: '20px',
-            height: 'calc(100% - 90px)',
-          }}>
-            {PLAYERS.map((p) => {
-              const list = bySeat.get(p.seat) ?? [];
-              return (
-                <section key={p.seat} style={{ display: 'flex', flexDirection: 'column', height: '100%' }}>
-                  <div style={{
-                    backgroundColor: '#ffffff',
-                    padding: '8px 0',
-                    textAlign: 'center',
-                    fontSize: '18px',
-                    fontWeight: '600',
-                    borderBottom: '2px solid #171717',
-                    color: '#171717',
-                    marginBottom: '10px',
-                    flexShrink: 0,
-                  }}>
-                    {p.name}
-                  </div>
-
-                  <div style={{ paddingRight: '4px', fontSize: '14px', flex: '1', overflow: 'auto' }}>
-                    {list.map((r) => (
-                      <div
-                        key={r.celebrity_id}
-                        style={{
-                          display: 'flex',
-                          alignItems: 'center',
-                          justifyContent: 'space-between',
-                          gap: '8px',
-                          borderBottom: '1px solid #e5e5e5',
-                          padding: '5px 0',
-                          lineHeight: '1.3',
-                        }}
-                      >
-                        <div style={{
-                          minWidth: '0',
-                          flex: '1',
-                          overflow: 'hidden',
-                          textOverflow: 'ellipsis',
-                          whiteSpace: 'nowrap',
-                          fontSize: '14px',
-                          color: '#171717',
-                        }}>
-                          {r.celebrity_name}
-                        </div>
-                        <div style={{
-                          width: '32px',
-                          flexShrink: '0',
-                          textAlign: 'right',
-                          fontVariantNumeric: 'tabular-nums',
-                          color: '#525252',
-                          fontSize: '13px',
-                        }}>
-                          {r.celebrity_age}
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </section>
-              );
-            })}
-          </div>
-        </div>
-      </div>
-    </main>
+    <DraftBoard
+      title={title}
+      players={players}
+      rows={rows}
+      turnSeat={turnSeat}
+      asOf={ageReferenceDate(season)}
+      upcoming={upcoming}
+      clockRemaining={clockRemaining}
+      totalCelebrities={totalCelebrities}
+      loading={loading}
+      err={err ?? leagueErr ?? seasonErr}
+      statusLabel={liveLabel}
+      onPresent={enterTv}
+      logHref={year === null ? undefined : `/api/draft-log?season=${year}`}
+      imageUrl={year === null ? undefined : `/api/board-image?season=${year}`}
+      chatTicker={year === null ? null : <ChatTicker feed={chat.feed} players={players} />}
+      staleNotice={staleAt ? `Offline: this board is ${staleLabel(staleAt)}. It will refresh when you reconnect.` : null}
+    />
   );
 }
@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ServiceWorker from "@/components/ServiceWorker";
+import { fetchCurrentSeason, seasonTitle } from "@/lib/season";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -12,10 +14,19 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Celebrity Death Draft",
-  description: "10th Annual Celebrity Death Draft",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  let description = "Celebrity Death Draft";
+  try {
+    description = seasonTitle((await fetchCurrentSeason()).year);
+  } catch {
+    // Keep the generic description if the season can't be loaded.
+  }
+
+  return {
+    title: "Celebrity Death Draft",
+    description,
+  };
+}
 
 export default function RootLayout({
   children,
@@ -28,6 +39,7 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <ServiceWorker />
       </body>
     </html>
   );
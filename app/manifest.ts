@@ -1,8 +1,16 @@
 import type { MetadataRoute } from "next";
+import { fetchCurrentSeason, seasonTitle } from "@/lib/season";
+
+export default async function manifest(): Promise<MetadataRoute.Manifest> {
+  let name = "Celebrity Death Draft";
+  try {
+    name = seasonTitle((await fetchCurrentSeason()).year);
+  } catch {
+    // Fall back to the generic name if the database is unreachable at build time.
+  }
 
-export default function manifest(): MetadataRoute.Manifest {
   return {
-    name: "10th Annual Celebrity Death Draft",
+    name,
     short_name: "Death Draft",
     start_url: "/",
     display: "standalone",
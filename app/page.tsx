@@ -3,51 +3,78 @@
 import Link from "next/link";
 import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/lib/supabaseClient";
+import { draftOrder, orderLabel } from "@/lib/draftOrder";
+import { precachePages } from "@/lib/offlineCache";
+import { seatToName } from "@/lib/league";
+import { seasonTitle } from "@/lib/season";
+import { useLeague } from "@/lib/useLeague";
+import { useSeason } from "@/lib/useSeason";
+import { useSeatClaims } from "@/lib/useSeatClaims";
 
 type Tile = {
   href: string;
   title: string;
   subtitle?: string;
+  color?: string;
 };
 
 export default function Home() {
   const [count, setCount] = useState<number | null>(null);
   const [err, setErr] = useState<string | null>(null);
+  const { players, error: leagueErr } = useLeague();
+  const { season, error: seasonErr } = useSeason();
+  const year = season?.year ?? null;
+
+  const { claimedSeats } = useSeatClaims(null);
+  const order = useMemo(() => draftOrder(players, season), [players, season]);
 
   const tiles = useMemo<Tile[]>(
     () => [
       { href: "/board", title: "Draft Board", subtitle: "Screen-share view" },
-      { href: "/pick/1", title: "Scoot" },
-      { href: "/pick/2", title: "Brian" },
-      { href: "/pick/3", title: "Stephan" },
-      { href: "/pick/4", title: "Bee" },
-      { href: "/pick/5", title: "Ryan" },
-      { href: "/pick/6", title: "Thomas" },
+      { href: "/standings", title: "Standings", subtitle: "Season scoring" },
+      { href: "/analytics", title: "Analytics", subtitle: "Ages and odds" },
+      ...(year === null ? [] : [{ href: `/seasons/${year}/trades`, title: "Trades", subtitle: "Post-draft trade log" }]),
+      { href: "/seasons", title: "Past Seasons", subtitle: "Archived boards" },
+      ...players.map((p) => ({
+        href: `/pick/${p.seat}`,
+        title: p.name,
+        subtitle: claimedSeats.includes(p.seat) ? "Claimed" : "Open seat",
+        color: p.color,
+      })),
     ],
-    []
+    [players, claimedSeats, year]
   );
 
+  // Keep the board and every seat's pick page ready for a dead zone on draft night.
+  useEffect(() => {
+    if (players.length === 0) return;
+    void precachePages(["/board", ...players.map((p) => `/pick/${p.seat}`)]).catch(() => {});
+  }, [players]);
+
   useEffect(() => {
+    if (year === null) return;
+
     (async () => {
       const { count, error } = await supabase
         .from("death_draft_celebrities")
-        .select("*", { count: "exact", head: true });
+        .select("*", { count: "exact", head: true })
+        .eq("season", year);
 
       if (error) setErr(error.message);
       else setCount(count ?? 0);
     })();
-  }, []);
+  }, [year]);
 
   return (
     <main className="min-h-dvh p-6">
       <div className="mx-auto w-full max-w-[520px]">
         <div className="mb-4">
           <h1 className="text-3xl font-extrabold tracking-tight text-white">
-            10th Annual Celebrity Death Draft
+            {year === null ? "Celebrity Death Draft" : seasonTitle(year)}
           </h1>
           <div className="mt-2 text-sm text-neutral-300">
-            {err
-              ? `DB error: ${err}`
+            {err || leagueErr || seasonErr
+              ? `DB error: ${err ?? leagueErr ?? seasonErr}`
               : count === null
               ? "Loading celebs…"
               : `${count} celebs loaded`}
@@ -65,21 +92,26 @@ export default function Home() {
                   : "flex h-16 w-full items-center justify-between rounded-3xl border border-neutral-200 bg-white px-5 text-neutral-900 shadow-sm transition active:scale-[0.99]"
               }
             >
-              <div className="min-w-0">
-                <div
-                  className={
-                    i === 0
-                      ? "text-xl font-semibold tracking-tight"
-                      : "text-lg font-semibold tracking-tight"
-                  }
-                >
-                  {t.title}
-                </div>
-                {t.subtitle ? (
-                  <div className={i === 0 ? "mt-0.5 text-sm text-white/70" : "mt-0.5 text-sm text-neutral-500"}>
-                    {t.subtitle}
-                  </div>
+              <div className="flex min-w-0 items-center gap-3">
+                {t.color ? (
+                  <span className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: t.color }} />
                 ) : null}
+                <div className="min-w-0">
+                  <div
+                    className={
+                      i === 0
+                        ? "text-xl font-semibold tracking-tight"
+                        : "text-lg font-semibold tracking-tight"
+                    }
+                  >
+                    {t.title}
+                  </div>
+                  {t.subtitle ? (
+                    <div className={i === 0 ? "mt-0.5 text-sm text-white/70" : "mt-0.5 text-sm text-neutral-500"}>
+                      {t.subtitle}
+                    </div>
+                  ) : null}
+                </div>
               </div>
               <div className={i === 0 ? "text-white/60" : "text-neutral-400"}>›</div>
             </Link>
@@ -87,7 +119,9 @@ export default function Home() {
         </div>
 
         <div className="mt-6 text-xs text-neutral-500">
-          Draft order: Scoot → Brian → Stephan → Bee → Ryan → Thomas
+          {order.seats.length > 0
+            ? `Draft order (${orderLabel(order.mode)}): ${order.seats.map((s) => seatToName(players, s)).join(" → ")}`
+            : null}
         </div>
       </div>
     </main>
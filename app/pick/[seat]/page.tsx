@@ -1,60 +1,143 @@
 "use client";
 
 import { useEffect, useMemo, useState } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
 import Link from "next/link";
-import { supabase } from "@/lib/supabaseClient";
-
-type Player = { seat: number; name: string };
-
-type DraftState = {
-  id: number;
-  turn_seat: number;
-  pick_number: number;
-  updated_at: string;
-};
-
-type AvailableCelebrity = {
-  id: string;
-  name: string;
-  age: number;
-  created_at: string;
-};
-
-const PLAYERS: Player[] = [
-  { seat: 1, name: "Scoot" },
-  { seat: 2, name: "Brian" },
-  { seat: 3, name: "Stephan" },
-  { seat: 4, name: "Bee" },
-  { seat: 5, name: "Ryan" },
-  { seat: 6, name: "Thomas" },
-];
-
-function seatToName(seat: number) {
-  return PLAYERS.find((p) => p.seat === seat)?.name ?? `Seat ${seat}`;
-}
+import { hasSeat, seatToName } from "@/lib/league";
+import { useLeague } from "@/lib/useLeague";
+import { useSeason } from "@/lib/useSeason";
+import { draftOrder, upcomingPicks } from "@/lib/draftOrder";
+import { formatClock, usePickClock } from "@/lib/usePickClock";
+import { useDraftQueue } from "@/lib/useDraftQueue";
+import { useAuth } from "@/lib/useAuth";
+import { useSeatClaims } from "@/lib/useSeatClaims";
+import { usePickOutbox } from "@/lib/usePickOutbox";
+import { staleLabel, withSnapshot } from "@/lib/offlineCache";
+import { ageReferenceDate, celebrityAge, todayIso } from "@/lib/age";
+import { seasonYearsLeft } from "@/lib/analytics";
+import { useRiskFlags } from "@/lib/useRiskFlags";
+import { useDraftChat } from "@/lib/useDraftChat";
+import {
+  CELEBRITY_SORTS,
+  applyFilters,
+  filtersFromParams,
+  filtersToParams,
+  isFiltered,
+  type CelebrityFilters,
+  type CelebritySort,
+} from "@/lib/celebrityFilters";
+import { useWindowVirtualList } from "@/lib/useWindowVirtualList";
+import { getDraftRepo } from "@/lib/draftRepo";
+import type { AvailableCelebrity, DraftState } from "@/lib/draftRepository";
+import SeatLogin from "@/components/SeatLogin";
+import CelebrityProfileDetails from "@/components/CelebrityProfileDetails";
+import TradePanel from "@/components/TradePanel";
+import PushToggle from "@/components/PushToggle";
+import PickRecommendations from "@/components/PickRecommendations";
+import DraftChat from "@/components/DraftChat";
+
+/** Fixed row height (px) for the virtualized list, including the gap. */
+const ROW_HEIGHT = 56;
+
+const ageInput = (value: string) => (/^\d+$/.test(value.trim()) ? Number(value) : null);
+
+const filterInputClass =
+  "h-9 min-w-0 rounded-2xl border border-white/10 bg-neutral-900 px-3 text-sm text-neutral-100";
 
 export default function PickPage() {
   const params = useParams<{ seat: string }>();
   const router = useRouter();
 
+  const { players, loading: leagueLoading } = useLeague();
+  const { season } = useSeason();
+  const year = season?.year ?? null;
+
   const seat = Number(params.seat);
-  const isValidSeat = Number.isFinite(seat) && seat >= 1 && seat <= 6;
+  // Assume the seat is valid until the roster arrives so loading can start right away.
+  const isValidSeat = Number.isInteger(seat) && seat >= 1 && (leagueLoading || hasSeat(players, seat));
 
   const [state, setState] = useState<DraftState | null>(null);
   const [available, setAvailable] = useState<AvailableCelebrity[]>([]);
   const [loading, setLoading] = useState(true);
-  const [pickingId, setPickingId] = useState<string | null>(null);
   const [pendingPick, setPendingPick] = useState<AvailableCelebrity | null>(null);
   const [err, setErr] = useState<string | null>(null);
+  // Set while state and the list come from the offline snapshot.
+  const [staleAt, setStaleAt] = useState<string | null>(null);
   const [rtStatus, setRtStatus] = useState<string>("connecting");
   const [rtEvents, setRtEvents] = useState<number>(0);
   const [rtLast, setRtLast] = useState<string>("");
 
-  const myName = useMemo(() => (isValidSeat ? seatToName(seat) : "Unknown"), [isValidSeat, seat]);
+  // Picks go through a local outbox so a dropped connection doesn't lose them.
+  const outbox = usePickOutbox(year, seat);
+  const pickingId = outbox.pending?.celebrity_id ?? null;
+
+  const myName = useMemo(
+    () => (isValidSeat ? seatToName(players, seat) : "Unknown"),
+    [isValidSeat, players, seat]
+  );
   const turnSeat = state?.turn_seat ?? null;
   const isMyTurn = isValidSeat && turnSeat === seat;
 
+  // Anyone can watch a seat's page, but only the login that claimed it can pick.
+  const { user } = useAuth();
+  const claims = useSeatClaims(user?.id ?? null);
+  const ownsSeat = claims.mySeats.includes(seat);
+  const canPick = isMyTurn && ownsSeat;
+
+  // Current pick first, then enough of the order to find this seat's next turn.
+  const upcoming = useMemo(
+    () =>
+      state ? upcomingPicks(
+            draftOrder(players, season),
+            state.pick_number + 1,
+            players.length * 2 + 1,
+            state.skipped_slots ?? 0
+          ) : [],
+    [players, season, state]
+  );
+  const isOnDeck = !isMyTurn && upcoming[1]?.seat === seat;
+
+  const queue = useDraftQueue(isValidSeat ? year : null, isValidSeat ? seat : null);
+
+  // Queue entries that are still available, in rank order. Anything another seat
+  // takes drops out as soon as the picks subscription refreshes `available`.
+  const queued = useMemo(() => {
+    const byId = new Map(available.map((c) => [c.id, c]));
+    return queue.queueIds.map((id) => byId.get(id)).filter((c): c is AvailableCelebrity => !!c);
+  }, [available, queue.queueIds]);
+
+  const risk = useRiskFlags(isValidSeat ? year : null, seat);
+  const chat = useDraftChat(isValidSeat ? year : null);
+  // The odds cover what's left of the season from today, like the analytics page.
+  const seasonLeft = year === null ? 1 : seasonYearsLeft(year, todayIso());
+
+  const clockRemaining = usePickClock(state?.updated_at ?? null, season?.pick_clock_seconds ?? null, () => {
+    void fetch("/api/clock", { method: "POST" }).catch(() => {
+      /* the board or another picker will retry */
+    });
+  });
+  const myNextPick = upcoming.slice(1).find((u) => u.seat === seat) ?? null;
+
+  // Search, filters and sort live in the query string so a refresh keeps the view.
+  const searchParams = useSearchParams();
+  const filters = useMemo(() => filtersFromParams(new URLSearchParams(searchParams.toString())), [searchParams]);
+
+  const setFilters = (patch: Partial<CelebrityFilters>) => {
+    const qs = filtersToParams({ ...filters, ...patch }, new URLSearchParams(window.location.search)).toString();
+    // replaceState keeps typing instant; Next syncs useSearchParams from it.
+    window.history.replaceState(null, "", qs ? `?${qs}` : window.location.pathname);
+  };
+
+  const shown = useMemo(() => applyFilters(available, filters), [available, filters]);
+  const categories = useMemo(
+    () =>
+      Array.from(new Set(available.map((c) => c.category).filter((c): c is string => !!c))).sort((a, b) =>
+        a.localeCompare(b)
+      ),
+    [available]
+  );
+  const list = useWindowVirtualList(shown.length, ROW_HEIGHT);
+
   const liveLabel = useMemo(() => {
     if (rtStatus === "subscribed") return "Live";
     if (rtStatus === "channel_error") return "Not Live - Refresh";
@@ -62,25 +145,27 @@ export default function PickPage() {
   }, [rtStatus]);
 
   const loadState = async () => {
-    const { data, error } = await supabase
-      .from("death_draft_state")
-      .select("id, turn_seat, pick_number, updated_at")
-      .eq("id", 1)
-      .single();
-
-    if (error) throw error;
-    setState(data as DraftState);
+    if (year === null) return;
+    const res = await withSnapshot(`state-${year}`, () => getDraftRepo().fetchState(year));
+    setState(res.data);
+    setStaleAt(res.staleAt);
   };
 
   const loadAvailable = async () => {
-    const { data, error } = await supabase
-      .from("death_draft_available")
-      .select("id, name, age, created_at")
-      .order("age", { ascending: false })
-      .order("name", { ascending: true });
-
-    if (error) throw error;
-    setAvailable((data ?? []) as AvailableCelebrity[]);
+    if (year === null) return;
+    const { data, staleAt: availableStaleAt } = await withSnapshot(`available-${year}`, () =>
+      getDraftRepo().fetchAvailable(year)
+    );
+    if (availableStaleAt) setStaleAt(availableStaleAt);
+
+    // Oldest first as of the draft date, so the order can't drift between import and draft night.
+    const asOf = ageReferenceDate(season);
+    const list = data.map((c) => ({
+      ...c,
+      age: celebrityAge(c.birth_date, c.age, asOf),
+    }));
+    list.sort((a, b) => b.age - a.age || a.name.localeCompare(b.name));
+    setAvailable(list);
   };
 
   const loadAll = async () => {
@@ -89,7 +174,7 @@ export default function PickPage() {
   };
 
   useEffect(() => {
-    if (!isValidSeat) return;
+    if (!isValidSeat || year === null) return;
 
     let alive = true;
 
@@ -107,116 +192,108 @@ export default function PickPage() {
     void run();
 
     // Live updates: state changes (turn) + picks changes (availability)
-    setRtStatus("connecting");
-    const channel = supabase
-      .channel(`death-draft-pick-seat-${seat}`)
-      .on(
-        "postgres_changes",
-        {
-          event: "*",
-          schema: "public",
-          table: "death_draft_state",
-          filter: "id=eq.1",
-        },
-        (payload) => {
-          const next = payload.new as any;
-          if (next?.id === 1) {
-            setState({
-              id: next.id,
-              turn_seat: next.turn_seat,
-              pick_number: next.pick_number,
-              updated_at: next.updated_at,
-            });
-            setRtEvents((n) => n + 1);
-            setRtLast(new Date().toLocaleTimeString());
-          }
-        }
-      )
-      .on(
-        "postgres_changes",
-        { event: "*", schema: "public", table: "death_draft_picks" },
-        () => {
-          setRtEvents((n) => n + 1);
-          setRtLast(new Date().toLocaleTimeString());
-          void loadAvailable().catch(() => {
-            /* ignore transient */
-          });
-        }
-      )
-      .subscribe((status) => {
-        if (!alive) return;
-        // statuses include: 'SUBSCRIBED', 'TIMED_OUT', 'CLOSED', 'CHANNEL_ERROR'
-        setRtStatus(String(status).toLowerCase());
+    const onPicksChanged = () => {
+      setRtEvents((n) => n + 1);
+      setRtLast(new Date().toLocaleTimeString());
+      void loadAvailable().catch(() => {
+        /* ignore transient */
       });
+    };
+    // Chat and reactions come in on the same channel.
+    const chatListeners = chat.listeners;
+    const unsubscribe = getDraftRepo().subscribe(year, {
+      ...chatListeners,
+      onState: (next) => {
+        setState(next);
+        // The turn moved; the server alerts whoever is up and on deck (once, however many pages ask).
+        void fetch("/api/push", { method: "POST" }).catch(() => {});
+        setRtEvents((n) => n + 1);
+        setRtLast(new Date().toLocaleTimeString());
+      },
+      onPickInserted: (pick) => {
+        onPicksChanged();
+        chatListeners.onPickInserted?.(pick);
+      },
+      onPickUpdated: (pick) => {
+        onPicksChanged();
+        chatListeners.onPickUpdated?.(pick);
+      },
+      onPickDeleted: (pick) => {
+        onPicksChanged();
+        chatListeners.onPickDeleted?.(pick);
+      },
+      onStatus: (status) => {
+        if (!alive) return;
+        setRtStatus(status);
+      },
+    });
 
     // Auto-refresh when returning to tab (handles stale connections)
     const handleVisibilityChange = () => {
       if (document.visibilityState === 'visible' && alive) {
         // Refresh data when user returns to the tab
         void loadAll().catch(() => {});
+        void chat.reload();
       }
     };
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
 
+    // Back from a dead zone: swap the snapshot for live data.
+    const handleOnline = () => {
+      if (alive) {
+        void loadAll().catch(() => {});
+        void chat.reload();
+      }
+    };
+    window.addEventListener("online", handleOnline);
+
     return () => {
       alive = false;
-      void supabase.removeChannel(channel);
+      unsubscribe();
       document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener("online", handleOnline);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isValidSeat, seat]);
+  }, [isValidSeat, seat, year, chat.listeners]);
 
   const onPick = (c: AvailableCelebrity) => {
     if (!isValidSeat) return;
-    if (!isMyTurn) return;
+    if (!canPick) return;
     if (pickingId) return;
 
     setErr(null);
     setPendingPick(c);
   };
 
-  const confirmPick = async () => {
+  const submitPick = async (c: AvailableCelebrity) => {
     if (!isValidSeat) return;
-    if (!isMyTurn) return;
-    if (!pendingPick) return;
+    if (!canPick) return;
     if (pickingId) return;
 
     setErr(null);
-    setPickingId(pendingPick.id);
-
-    try {
-      const { data, error } = await supabase.rpc("death_draft_make_pick", {
-        p_seat: seat,
-        p_celebrity_id: pendingPick.id,
-      });
+    // Close confirm sheet; the outbox banner takes over from here
+    setPendingPick(null);
 
-      if (error) throw error;
+    const entry = await outbox.submit(c.id, c.name);
+    if (entry?.status !== "confirmed") return;
 
-      const res = Array.isArray(data) ? data[0] : data;
-      if (!res?.ok) {
-        throw new Error(res?.message ?? "Pick failed.");
-      }
-
-      // Close confirm sheet
-      setPendingPick(null);
-
-      // Optimistic refresh (realtime will also handle it)
-      await loadAll();
+    // Optimistic refresh (realtime will also handle it)
+    await loadAll().catch(() => {});
 
-      // Tiny haptic (iOS)
-      try {
-        navigator.vibrate?.(40);
-      } catch {
-        // ignore
-      }
-    } catch (e: any) {
-      setErr(e?.message ?? "Pick failed.");
-    } finally {
-      setPickingId(null);
+    // Tiny haptic (iOS)
+    try {
+      navigator.vibrate?.(40);
+    } catch {
+      // ignore
     }
   };
 
+  const confirmPick = async () => {
+    if (!pendingPick) return;
+    await submitPick(pendingPick);
+  };
+
   const handleRefresh = async () => {
     setErr(null);
     setLoading(true);
@@ -235,7 +312,7 @@ export default function PickPage() {
         <div className="mx-auto max-w-md">
           <h1 className="text-2xl font-semibold">Invalid seat</h1>
           <p className="mt-2 text-sm text-neutral-600">
-            This page expects a seat from 1 to 6.
+            This page expects a seat from 1 to {players.length}.
           </p>
           <Link
             href="/"
@@ -262,7 +339,7 @@ export default function PickPage() {
               <div className="mt-1 text-sm text-neutral-300">
                 {turnSeat === null
                   ? "Loading turn…"
-                  : `Current turn: ${seatToName(turnSeat)}`}
+                  : `Current turn: ${seatToName(players, turnSeat)}`}
               </div>
             </div>
             <div className="flex gap-2">
@@ -300,69 +377,305 @@ export default function PickPage() {
                   : "text-2xl font-extrabold tracking-tight text-neutral-200"
               }
             >
-              {isMyTurn ? "YOUR TURN" : "Not your turn"}
+              <div className="flex items-baseline justify-between gap-3">
+                <div>{isMyTurn ? "YOUR TURN" : isOnDeck ? "You're on deck" : "Not your turn"}</div>
+                {clockRemaining !== null ? (
+                  <div
+                    className={
+                      "tabular-nums text-xl " +
+                      (isMyTurn && clockRemaining <= 10 ? "text-red-300" : "text-neutral-400")
+                    }
+                  >
+                    {formatClock(clockRemaining)}
+                  </div>
+                ) : null}
+              </div>
             </div>
+            {upcoming.length > 1 ? (
+              <div className="mt-1 text-xs text-neutral-400">
+                {`Next: ${upcoming
+                  .slice(1, 4)
+                  .map((u) => (u.seat === seat ? "You" : seatToName(players, u.seat)))
+                  .join(" → ")}`}
+                {myNextPick && !isOnDeck ? ` · Your next pick: #${myNextPick.pick_number}` : ""}
+              </div>
+            ) : null}
+            {canPick && queued.length > 0 ? (
+              <button
+                type="button"
+                onClick={() => void submitPick(queued[0])}
+                disabled={!!pickingId}
+                className="mt-3 flex h-12 w-full items-center justify-center rounded-2xl border border-emerald-400/20 bg-emerald-500/20 px-4 text-sm font-semibold text-emerald-200 active:scale-[0.99] disabled:opacity-60"
+              >
+                <span className="truncate">
+                  {pickingId === queued[0].id ? "Picking…" : `Pick top of queue: ${queued[0].name}`}
+                </span>
+              </button>
+            ) : null}
           </div>
 
+          <SeatLogin
+            seat={seat}
+            seatName={myName}
+            user={user}
+            claimed={claims.claimedSeats.includes(seat)}
+            owns={ownsSeat}
+            onClaimed={claims.reload}
+          />
+          {ownsSeat ? <PushToggle seat={seat} /> : null}
+
           {/* Status line */}
           <div className="mt-3 flex items-center justify-between text-xs text-neutral-400">
-            <div>{loading ? "Loading…" : `${available.length} available`}</div>
+            <div>
+              {loading
+                ? "Loading…"
+                : isFiltered(filters)
+                  ? `${shown.length} of ${available.length} available`
+                  : `${available.length} available`}
+            </div>
             <div className="flex items-center gap-3">
               <div className="uppercase">{liveLabel}</div>
               <div>{state ? `Pick #${state.pick_number + 1}` : ""}</div>
             </div>
           </div>
 
-          {err ? (
+          {/* Search and filters */}
+          <div className="mt-3 space-y-2">
+            <input
+              type="search"
+              placeholder="Search celebrities"
+              value={filters.q}
+              onChange={(e) => setFilters({ q: e.target.value })}
+              className={filterInputClass + " w-full"}
+            />
+            <div className="flex gap-2">
+              <select
+                value={filters.sort}
+                onChange={(e) => setFilters({ sort: e.target.value as CelebritySort })}
+                className={filterInputClass + " flex-1"}
+              >
+                {CELEBRITY_SORTS.map((s) => (
+                  <option key={s.sort} value={s.sort}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+              {categories.length > 0 ? (
+                <select
+                  value={filters.category ?? ""}
+                  onChange={(e) => setFilters({ category: e.target.value || null })}
+                  className={filterInputClass + " flex-1"}
+                >
+                  <option value="">All categories</option>
+                  {categories.map((c) => (
+                    <option key={c} value={c}>
+                      {c}
+                    </option>
+                  ))}
+                </select>
+              ) : null}
+              <input
+                inputMode="numeric"
+                placeholder="Min age"
+                value={filters.minAge ?? ""}
+                onChange={(e) => setFilters({ minAge: ageInput(e.target.value) })}
+                className={filterInputClass + " w-20"}
+              />
+              <input
+                inputMode="numeric"
+                placeholder="Max age"
+                value={filters.maxAge ?? ""}
+                onChange={(e) => setFilters({ maxAge: ageInput(e.target.value) })}
+                className={filterInputClass + " w-20"}
+              />
+            </div>
+          </div>
+
+          {outbox.latest ? (
+            <div
+              className={
+                "mt-3 flex items-start justify-between gap-3 rounded-2xl border px-4 py-3 text-sm " +
+                (outbox.latest.status === "confirmed"
+                  ? "border-emerald-400/20 bg-emerald-500/10 text-emerald-200"
+                  : outbox.latest.status === "rejected"
+                    ? "border-red-200 bg-red-50 text-red-700"
+                    : "border-amber-400/30 bg-amber-500/10 text-amber-200")
+              }
+            >
+              <div>
+                {outbox.latest.status === "confirmed"
+                  ? `${outbox.latest.celebrity_name} is yours.`
+                  : outbox.latest.status === "rejected"
+                    ? outbox.latest.code === "taken"
+                      ? `${outbox.latest.celebrity_name} was taken before your pick landed. Pick again.`
+                      : `${outbox.latest.celebrity_name}: ${outbox.latest.message ?? "Pick failed."}`
+                    : outbox.latest.attempts > 0
+                      ? `Sending ${outbox.latest.celebrity_name}… will keep retrying until it goes through.`
+                      : `Sending ${outbox.latest.celebrity_name}…`}
+              </div>
+              {outbox.latest.status !== "pending" ? (
+                <button
+                  type="button"
+                  onClick={() => outbox.latest && outbox.dismiss(outbox.latest)}
+                  className="shrink-0 text-xs font-semibold underline"
+                >
+                  Dismiss
+                </button>
+              ) : null}
+            </div>
+          ) : null}
+
+          {staleAt ? (
+            <div className="mt-3 rounded-2xl border border-amber-400/30 bg-amber-500/10 px-4 py-3 text-sm text-amber-200">
+              {`Offline: turn and list are ${staleLabel(staleAt)}. They'll refresh when you reconnect.`}
+            </div>
+          ) : null}
+
+          {err || queue.error ? (
             <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
-              {err}
+              {err ?? queue.error}
             </div>
           ) : null}
         </div>
       </div>
 
-      {/* List */}
-      <div className="mx-auto w-full max-w-[720px] px-4 pb-10 pt-3">
-        <div className="space-y-2">
-          {available.map((c) => {
-            const disabled = !isMyTurn || !!pickingId;
-            const isThis = pickingId === c.id;
-
-            return (
-              <button
+      {/* Queue */}
+      {ownsSeat && queued.length > 0 ? (
+        <div className="mx-auto w-full max-w-[720px] px-4 pt-3">
+          <div className="text-xs font-semibold uppercase tracking-wide text-neutral-400">
+            My queue ({queued.length})
+          </div>
+          <div className="mt-2 space-y-1">
+            {queued.map((c, i) => (
+              <div
                 key={c.id}
-                onClick={() => onPick(c)}
-                disabled={disabled}
-                className={
-                  "flex w-full items-center justify-between gap-3 rounded-3xl border px-4 py-3 text-left transition active:scale-[0.99] " +
-                  (disabled
-                    ? "border-white/10 bg-white/5 text-neutral-100 opacity-60"
-                    : "border-white/10 bg-white/5 text-neutral-100 hover:bg-white/10")
-                }
+                className="flex items-center gap-2 rounded-2xl border border-white/10 bg-white/5 px-3 py-2"
               >
+                <div className="w-5 text-xs font-semibold text-neutral-500 tabular-nums">{i + 1}</div>
                 <div className="min-w-0 flex-1 truncate text-sm font-semibold">
                   {c.name}
-                  <span className="ml-2 text-xs font-semibold text-neutral-400 tabular-nums">
-                    {c.age}
-                  </span>
+                  <span className="ml-2 text-xs font-semibold text-neutral-400 tabular-nums">{c.age}</span>
                 </div>
+                <button
+                  type="button"
+                  onClick={() => void queue.move(c.id, -1)}
+                  disabled={i === 0}
+                  className="rounded-xl px-2 py-1 text-xs text-neutral-300 disabled:opacity-30"
+                  title="Move up"
+                >
+                  ↑
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void queue.move(c.id, 1)}
+                  disabled={i === queued.length - 1}
+                  className="rounded-xl px-2 py-1 text-xs text-neutral-300 disabled:opacity-30"
+                  title="Move down"
+                >
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void queue.remove(c.id)}
+                  className="rounded-xl px-2 py-1 text-xs text-neutral-400"
+                  title="Remove from queue"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
 
-                <div className="flex shrink-0 items-center gap-2">
-                  {isThis ? (
-                    <div className="text-xs font-semibold text-emerald-700">Picking…</div>
-                  ) : null}
-                  <div
+      {/* Recommendations for the seat's own turn, and the one after */}
+      {ownsSeat && (isMyTurn || isOnDeck) && !loading ? (
+        <div className="mx-auto w-full max-w-[720px] px-4 pt-3">
+          <PickRecommendations
+            available={available}
+            years={seasonLeft}
+            flags={risk.flags}
+            onFlag={risk.setFlag}
+            canPick={canPick}
+            pickingId={pickingId}
+            onPick={onPick}
+          />
+        </div>
+      ) : null}
+
+      {/* Draft-night chat; anyone watching the seat can read along */}
+      {year !== null ? (
+        <div className="mx-auto w-full max-w-[720px] px-4 pt-3">
+          <DraftChat chat={chat} seat={seat} players={players} canPost={ownsSeat} />
+        </div>
+      ) : null}
+
+      {/* Trades open once every celebrity has been drafted */}
+      {year !== null && state && !loading && available.length === 0 ? (
+        <div className="mx-auto w-full max-w-[720px] px-4 pt-3">
+          <TradePanel year={year} seat={seat} players={players} canAct={ownsSeat} />
+        </div>
+      ) : null}
+
+      {/* List */}
+      <div className="mx-auto w-full max-w-[720px] px-4 pb-10 pt-3">
+        <div ref={list.ref} style={{ paddingTop: list.padTop, paddingBottom: list.padBottom }}>
+          {shown.slice(list.start, list.end).map((c) => {
+            const disabled = !canPick || !!pickingId;
+            const isThis = pickingId === c.id;
+            const isQueued = queue.queueIds.includes(c.id);
+
+            return (
+              <div key={c.id} className="flex items-start gap-2" style={{ height: ROW_HEIGHT }}>
+                <button
+                  onClick={() => onPick(c)}
+                  disabled={disabled}
+                  className={
+                    "flex min-w-0 flex-1 items-center justify-between gap-3 rounded-3xl border px-4 py-3 text-left transition active:scale-[0.99] " +
+                    (disabled
+                      ? "border-white/10 bg-white/5 text-neutral-100 opacity-60"
+                      : "border-white/10 bg-white/5 text-neutral-100 hover:bg-white/10")
+                  }
+                >
+                  <div className="min-w-0 flex-1 truncate text-sm font-semibold">
+                    {c.name}
+                    <span className="ml-2 text-xs font-semibold text-neutral-400 tabular-nums">
+                      {c.age}
+                    </span>
+                  </div>
+
+                  <div className="flex shrink-0 items-center gap-2">
+                    {isThis ? (
+                      <div className="text-xs font-semibold text-emerald-700">Picking…</div>
+                    ) : null}
+                    <div
+                      className={
+                        "rounded-2xl px-3 py-1.5 text-xs font-semibold " +
+                        (disabled
+                          ? "bg-white/10 text-neutral-400"
+                          : "bg-emerald-500/20 text-emerald-200 border border-emerald-400/20")
+                      }
+                    >
+                      Pick
+                    </div>
+                  </div>
+                </button>
+                {ownsSeat ? (
+                  <button
+                    type="button"
+                    onClick={() => void (isQueued ? queue.remove(c.id) : queue.add(c.id))}
                     className={
-                      "rounded-2xl px-3 py-1.5 text-xs font-semibold " +
-                      (disabled
-                        ? "bg-white/10 text-neutral-400"
-                        : "bg-emerald-500/20 text-emerald-200 border border-emerald-400/20")
+                      "h-11 w-11 shrink-0 rounded-2xl border text-lg transition active:scale-[0.97] " +
+                      (isQueued
+                        ? "border-amber-400/30 bg-amber-500/15 text-amber-200"
+                        : "border-white/10 bg-white/5 text-neutral-400")
                     }
+                    title={isQueued ? "Remove from queue" : "Add to queue"}
                   >
-                    Pick
-                  </div>
-                </div>
-              </button>
+                    {isQueued ? "★" : "☆"}
+                  </button>
+                ) : null}
+              </div>
             );
           })}
 
@@ -370,6 +683,17 @@ export default function PickPage() {
             <div className="rounded-3xl border border-white/10 bg-white/5 p-6 text-center text-sm text-neutral-400">
               Draft Complete!
             </div>
+          ) : !loading && shown.length === 0 ? (
+            <div className="rounded-3xl border border-white/10 bg-white/5 p-6 text-center text-sm text-neutral-400">
+              No one matches.{" "}
+              <button
+                type="button"
+                className="underline"
+                onClick={() => setFilters({ q: "", minAge: null, maxAge: null, category: null })}
+              >
+                Clear filters
+              </button>
+            </div>
           ) : null}
         </div>
       </div>
@@ -388,7 +712,13 @@ export default function PickPage() {
             <div className="mt-1 text-lg font-semibold tracking-tight text-neutral-50">
               {pendingPick.name}
             </div>
-            <div className="mt-1 text-sm text-neutral-300">Age {pendingPick.age}</div>
+            <div className="mt-1 text-sm text-neutral-300">
+              Age {pendingPick.age}
+              {pendingPick.birth_date ? ` · born ${pendingPick.birth_date}` : ""}
+            </div>
+            <div className="mt-3">
+              <CelebrityProfileDetails name={pendingPick.name} profile={pendingPick} variant="dark" />
+            </div>
 
             <div className="mt-4 grid grid-cols-2 gap-3">
               <button
@@ -403,7 +733,7 @@ export default function PickPage() {
                 type="button"
                 className="h-12 rounded-2xl bg-emerald-500/20 border border-emerald-400/20 text-emerald-200 text-sm font-semibold active:scale-[0.99] disabled:opacity-60"
                 onClick={confirmPick}
-                disabled={!isMyTurn || !!pickingId}
+                disabled={!canPick || !!pickingId}
               >
                 {pickingId ? "Picking…" : "Confirm"}
               </button>
@@ -413,6 +743,10 @@ export default function PickPage() {
               <div className="mt-3 text-xs text-neutral-500">
                 Not your turn.
               </div>
+            ) : !ownsSeat ? (
+              <div className="mt-3 text-xs text-neutral-500">
+                Sign in and claim this seat to pick.
+              </div>
             ) : null}
           </div>
         </div>
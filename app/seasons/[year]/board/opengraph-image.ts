@@ -0,0 +1,16 @@
+import { IMAGE_SIZES } from "@/lib/boardImage";
+import { renderBoardImage } from "@/lib/renderBoardImage";
+
+export const dynamic = "force-dynamic";
+
+export const alt = "Celebrity Death Draft board";
+export const size = IMAGE_SIZES.og;
+export const contentType = "image/png";
+
+export default async function Image({ params }: { params: Promise<{ year: string }> }) {
+  const year = Number((await params).year);
+  if (!Number.isInteger(year)) return new Response(null, { status: 404 });
+
+  const image = await renderBoardImage({ year, view: "seats", size, page: 1, cacheControl: "public, max-age=60" });
+  return image ?? new Response(null, { status: 404 });
+}
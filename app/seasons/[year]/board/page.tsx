@@ -0,0 +1,84 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams } from "next/navigation";
+import { fetchSeason, seasonTitle, type Season } from "@/lib/season";
+import { useLeague } from "@/lib/useLeague";
+import { ageReferenceDate } from "@/lib/age";
+import { getDraftRepo } from "@/lib/draftRepo";
+import type { BoardRow } from "@/lib/draftRepository";
+import DraftBoard from "@/components/DraftBoard";
+
+/** Read-only board for any season; no realtime, since archives don't change. */
+export default function SeasonBoardPage() {
+  const params = useParams<{ year: string }>();
+  const year = Number(params.year);
+
+  const { players, error: leagueErr } = useLeague();
+  const [season, setSeason] = useState<Season | null>(null);
+  const [rows, setRows] = useState<BoardRow[]>([]);
+  const [totalCelebrities, setTotalCelebrities] = useState<number>(0);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!Number.isInteger(year)) {
+      setErr("Invalid season.");
+      setLoading(false);
+      return;
+    }
+
+    let alive = true;
+
+    const run = async () => {
+      setLoading(true);
+      setErr(null);
+      try {
+        const repo = getDraftRepo();
+        const [s, board, count] = await Promise.all([
+          fetchSeason(year),
+          repo.fetchBoard(year),
+          repo.countCelebrities(year).catch(() => null),
+        ]);
+
+        if (!alive) return;
+        if (!s) {
+          setErr(`No ${year} season.`);
+          return;
+        }
+
+        setSeason(s);
+        setRows(board);
+        if (count !== null) setTotalCelebrities(count);
+      } catch (e) {
+        if (alive) setErr((e as { message?: string })?.message ?? "Failed to load season.");
+      } finally {
+        if (alive) setLoading(false);
+      }
+    };
+
+    void run();
+
+    return () => {
+      alive = false;
+    };
+  }, [year]);
+
+  return (
+    <DraftBoard
+      title={Number.isInteger(year) ? seasonTitle(year, { withYear: true }) : "Celebrity Death Draft"}
+      players={players}
+      rows={rows}
+      turnSeat={null}
+      asOf={ageReferenceDate(season)}
+      upcoming={[]}
+      clockRemaining={null}
+      totalCelebrities={totalCelebrities}
+      loading={loading}
+      err={err ?? leagueErr}
+      statusLabel={season?.is_current ? "In progress" : "Final"}
+      logHref={Number.isInteger(year) ? `/api/draft-log?season=${year}` : undefined}
+      imageUrl={Number.isInteger(year) ? `/api/board-image?season=${year}` : undefined}
+    />
+  );
+}
@@ -0,0 +1,58 @@
+"use client";
+
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { useLeague } from "@/lib/useLeague";
+import { useTrades } from "@/lib/useTrades";
+import TradeList from "@/components/TradeList";
+
+const linkClass =
+  "inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]";
+
+/** Every trade proposed in a season, newest first, live. */
+export default function SeasonTradesPage() {
+  const params = useParams<{ year: string }>();
+  const year = Number(params.year);
+  const valid = Number.isInteger(year);
+
+  const { players, error: leagueErr } = useLeague();
+  const { trades, loading, error } = useTrades(valid ? year : null);
+  const accepted = trades.filter((t) => t.status === "accepted").length;
+
+  return (
+    <main className="min-h-dvh bg-white px-6 py-4 text-neutral-900">
+      <div className="mx-auto w-full max-w-[720px]">
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">{valid ? `${year} Trades` : "Trades"}</h1>
+            {valid && !loading ? (
+              <div className="mt-1 text-sm text-neutral-600">
+                {accepted === 1 ? "1 accepted trade" : `${accepted} accepted trades`}
+              </div>
+            ) : null}
+          </div>
+          <div className="flex items-center gap-2">
+            <Link href="/seasons" className={linkClass}>
+              Seasons
+            </Link>
+            <Link href="/" className={linkClass}>
+              Home
+            </Link>
+          </div>
+        </div>
+
+        {!valid || error || leagueErr ? (
+          <div className="mb-3 rounded-2xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            {valid ? `Error loading trades: ${error ?? leagueErr}` : "Invalid season."}
+          </div>
+        ) : null}
+
+        {valid && loading ? (
+          <div className="text-sm text-neutral-500">Loading…</div>
+        ) : (
+          <TradeList trades={trades} players={players} variant="light" />
+        )}
+      </div>
+    </main>
+  );
+}
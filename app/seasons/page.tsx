@@ -0,0 +1,73 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { fetchSeasons, seasonTitle, type Season } from "@/lib/season";
+
+export default function SeasonsPage() {
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    fetchSeasons()
+      .then((s) => {
+        if (alive) setSeasons(s);
+      })
+      .catch((e: { message?: string }) => {
+        if (alive) setErr(e?.message ?? "Failed to load seasons.");
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return (
+    <main className="min-h-dvh bg-white px-6 py-4 text-neutral-900">
+      <div className="mx-auto w-full max-w-[520px]">
+        <div className="mb-4 flex items-center justify-between">
+          <h1 className="text-2xl font-semibold tracking-tight">Seasons</h1>
+          <Link
+            href="/"
+            className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
+          >
+            Home
+          </Link>
+        </div>
+
+        {err ? (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            Error loading seasons: {err}
+          </div>
+        ) : null}
+
+        {loading ? <div className="text-sm text-neutral-500">Loading…</div> : null}
+
+        <div className="space-y-3">
+          {seasons.map((s) => (
+            <Link
+              key={s.year}
+              href={s.is_current ? "/board" : `/seasons/${s.year}/board`}
+              className="flex h-16 w-full items-center justify-between rounded-3xl border border-neutral-200 bg-white px-5 text-neutral-900 shadow-sm transition active:scale-[0.99]"
+            >
+              <div className="min-w-0">
+                <div className="text-lg font-semibold tracking-tight">{s.year}</div>
+                <div className="mt-0.5 truncate text-sm text-neutral-500">
+                  {seasonTitle(s.year)}
+                  {s.is_current ? " · Current" : ""}
+                </div>
+              </div>
+              <div className="text-neutral-400">›</div>
+            </Link>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
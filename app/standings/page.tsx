@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import { useLeague } from "@/lib/useLeague";
+import { useSeason } from "@/lib/useSeason";
+import { computeStandings, DEFAULT_SCORING_RULES, type Death } from "@/lib/scoring";
+
+type BoardRow = {
+  pick_number: number;
+  seat: number;
+  player_name: string;
+  owner_seat: number;
+  celebrity_id: string;
+  celebrity_name: string;
+  celebrity_age: number;
+  celebrity_birth_date: string | null;
+  picked_at: string;
+};
+
+export default function StandingsPage() {
+  const { players, error: leagueErr } = useLeague();
+  const { season, error: seasonErr } = useSeason();
+  const year = season?.year ?? null;
+  const [rows, setRows] = useState<BoardRow[]>([]);
+  const [deaths, setDeaths] = useState<Death[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [err, setErr] = useState<string | null>(null);
+  const [rtStatus, setRtStatus] = useState<string>("connecting");
+
+  const load = async () => {
+    if (year === null) return;
+    setErr(null);
+
+    const [boardRes, deathsRes] = await Promise.all([
+      supabase
+        .from("death_draft_board")
+        .select(
+          "pick_number, seat, player_name, owner_seat, celebrity_id, celebrity_name, celebrity_age, celebrity_birth_date, picked_at"
+        )
+        .eq("season", year),
+      supabase.from("death_draft_deaths").select("celebrity_id, died_on, source"),
+    ]);
+
+    if (boardRes.error) {
+      setErr(boardRes.error.message);
+      return;
+    }
+    if (deathsRes.error) {
+      setErr(deathsRes.error.message);
+      return;
+    }
+
+    setRows((boardRes.data ?? []) as BoardRow[]);
+    setDeaths((deathsRes.data ?? []) as Death[]);
+  };
+
+  useEffect(() => {
+    if (year === null) return;
+
+    let alive = true;
+
+    const run = async () => {
+      setLoading(true);
+      try {
+        await load();
+      } finally {
+        if (alive) setLoading(false);
+      }
+    };
+
+    void run();
+
+    setRtStatus("connecting");
+
+    // Deaths are rare and picks are frozen after draft night, so any change
+    // just triggers a full reload rather than patching state in place.
+    const channel = supabase
+      .channel("death-draft-standings")
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "death_draft_deaths" },
+        () => void load()
+      )
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "death_draft_picks" },
+        () => void load()
+      )
+      .subscribe((status) => {
+        if (!alive) return;
+        setRtStatus(String(status).toLowerCase());
+      });
+
+    return () => {
+      alive = false;
+      void supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [year]);
+
+  const standings = useMemo(
+    // Points go to whoever holds the celebrity now, including after trades.
+    () =>
+      computeStandings(
+        rows.map((r) => ({ ...r, seat: r.owner_seat })),
+        deaths,
+        players,
+        DEFAULT_SCORING_RULES
+      ),
+    [rows, deaths, players]
+  );
+
+  const liveLabel = useMemo(() => {
+    if (rtStatus === "subscribed") return "Live";
+    if (rtStatus === "channel_error") return "Not Live - Refresh";
+    return "Connecting";
+  }, [rtStatus]);
+
+  const totalDeaths = standings.reduce((n, s) => n + s.deaths, 0);
+
+  return (
+    <main className="min-h-dvh bg-white px-6 py-4 text-neutral-900">
+      <div className="mx-auto w-full max-w-[720px]">
+        <div className="mb-4 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">{year === null ? "Standings" : `${year} Standings`}</h1>
+            {!loading && !err && (
+              <div className="mt-1 text-sm text-neutral-600">
+                {totalDeaths === 1 ? "1 drafted death" : `${totalDeaths} drafted deaths`}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <div className="text-xs uppercase text-neutral-400">{loading ? "Loading…" : liveLabel}</div>
+            <Link
+              href="/"
+              className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
+            >
+              Home
+            </Link>
+          </div>
+        </div>
+
+        {err || leagueErr || seasonErr ? (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            Error loading standings: {err ?? leagueErr ?? seasonErr}
+          </div>
+        ) : null}
+
+        <div className="space-y-3">
+          {standings.map((s) => (
+            <section key={s.seat} className="rounded-3xl border border-neutral-200 bg-white px-5 py-4 shadow-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-baseline gap-3">
+                  <div className="w-6 text-sm font-semibold text-neutral-400 tabular-nums">{s.rank}</div>
+                  <div className="text-lg font-semibold tracking-tight">{s.name}</div>
+                </div>
+                <div className="text-right">
+                  <div className="text-xl font-extrabold tabular-nums">{s.total}</div>
+                  <div className="text-xs text-neutral-500">
+                    {s.deaths === 1 ? "1 death" : `${s.deaths} deaths`}
+                  </div>
+                </div>
+              </div>
+
+              {s.picks.length > 0 ? (
+                <div className="mt-3 border-t border-neutral-200/60 pt-2 text-sm">
+                  {s.picks.map((p) => (
+                    <div
+                      key={p.celebrity_id}
+                      className="flex items-center justify-between gap-3 border-b border-neutral-200/60 py-1 last:border-b-0"
+                    >
+                      <div className="min-w-0 flex-1">
+                        <div className="truncate font-semibold">
+                          {p.celebrity_name}
+                          <span className="ml-2 text-xs font-semibold text-neutral-500 tabular-nums">
+                            {p.age_at_death}
+                          </span>
+                        </div>
+                        <div className="text-xs text-neutral-500">
+                          {p.died_on}
+                          {p.source ? (
+                            <>
+                              {" · "}
+                              {/^https?:\/\//.test(p.source) ? (
+                                <a href={p.source} target="_blank" rel="noreferrer" className="underline">
+                                  source
+                                </a>
+                              ) : (
+                                p.source
+                              )}
+                            </>
+                          ) : null}
+                        </div>
+                      </div>
+                      <div className="shrink-0 text-right text-xs text-neutral-500 tabular-nums">
+                        <div className="text-sm font-semibold text-neutral-900">{p.total}</div>
+                        <div>
+                          {p.base} base
+                          {p.youth ? ` + ${p.youth} youth` : ""}
+                          {p.first_death ? ` + ${p.first_death} first` : ""}
+                          {p.youngest_death ? ` + ${p.youngest_death} youngest` : ""}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : null}
+            </section>
+          ))}
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,148 @@
+import type { BoardImageGrid, BoardImageLayout, ImageSize } from "@/lib/boardImage";
+
+type BoardImageProps = {
+  title: string;
+  /** Right of the title, e.g. "Round 4 · 38 picks". */
+  subtitle: string;
+  /** Already cut down to one page with `gridPage`. */
+  grid: BoardImageGrid;
+  layout: BoardImageLayout;
+  size: ImageSize;
+  page: number;
+};
+
+/**
+ * The board as drawn by next/og for /api/board-image and the link previews.
+ * Satori only understands inline styles and flexbox, so this can't share
+ * markup with DraftBoard.
+ */
+export default function BoardImage({ title, subtitle, grid, layout, size, page }: BoardImageProps) {
+  const { padding, titleSize, headerHeight, rowHeight, fontSize } = layout;
+  const labelWidth = grid.rowLabels ? Math.round(fontSize * 2.4) : 0;
+  const gap = Math.round(fontSize * 0.9);
+
+  return (
+    <div
+      style={{
+        width: size.width,
+        height: size.height,
+        display: "flex",
+        flexDirection: "column",
+        backgroundColor: "#ffffff",
+        color: "#171717",
+        padding,
+      }}
+    >
+      <div
+        style={{
+          display: "flex",
+          alignItems: "baseline",
+          justifyContent: "space-between",
+          height: Math.round(titleSize * 1.8),
+          fontSize: titleSize,
+          fontWeight: 600,
+          letterSpacing: "-0.025em",
+        }}
+      >
+        <div style={{ display: "flex" }}>{title}</div>
+        <div style={{ display: "flex", fontSize: Math.round(titleSize * 0.55), fontWeight: 400, color: "#737373" }}>
+          {layout.pages > 1 ? `${subtitle} · Page ${page} of ${layout.pages}` : subtitle}
+        </div>
+      </div>
+
+      {grid.headers ? (
+        <div style={{ display: "flex", height: headerHeight, gap }}>
+          {grid.rowLabels ? <div style={{ display: "flex", width: labelWidth }} /> : null}
+          {grid.headers.map((h, i) => (
+            <div
+              key={i}
+              style={{
+                display: "flex",
+                flex: 1,
+                minWidth: 0,
+                alignItems: "center",
+                justifyContent: "center",
+                fontSize: Math.round(fontSize * 1.25),
+                fontWeight: 600,
+                borderBottom: `${Math.max(2, Math.round(fontSize / 6))}px solid ${h.color}`,
+                overflow: "hidden",
+                whiteSpace: "nowrap",
+              }}
+            >
+              {h.label}
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {grid.rows.length === 0 ? (
+        <div style={{ display: "flex", justifyContent: "center", marginTop: padding, fontSize, color: "#a3a3a3" }}>
+          No picks yet
+        </div>
+      ) : null}
+
+      {grid.rows.map((row, i) => (
+        <div key={i} style={{ display: "flex", height: rowHeight, gap, fontSize }}>
+          {grid.rowLabels ? (
+            <div
+              style={{
+                display: "flex",
+                width: labelWidth,
+                alignItems: "center",
+                fontSize: Math.round(fontSize * 0.85),
+                fontWeight: 600,
+                color: "#a3a3a3",
+              }}
+            >
+              {grid.rowLabels[i]}
+            </div>
+          ) : null}
+          {row.map((c, j) => (
+            <div
+              key={j}
+              style={{
+                display: "flex",
+                flex: 1,
+                minWidth: 0,
+                alignItems: "center",
+                justifyContent: "space-between",
+                gap: Math.round(fontSize * 0.5),
+                borderBottom: "1px solid #e5e5e5",
+                // Satori rejects undefined style values, so optional ones are spread in.
+                ...(c?.color
+                  ? { borderLeft: `${Math.max(3, Math.round(fontSize / 4))}px solid ${c.color}`, paddingLeft: Math.round(fontSize * 0.4) }
+                  : {}),
+                // The bundled font has no bold, so the latest pick gets a tint instead.
+                ...(c?.latest ? { backgroundColor: "#fef3c7" } : {}),
+              }}
+            >
+              {c ? (
+                <div
+                  style={{
+                    display: "flex",
+                    flex: 1,
+                    minWidth: 0,
+                    overflow: "hidden",
+                    whiteSpace: "nowrap",
+                    textOverflow: "ellipsis",
+                  }}
+                >
+                  {c.name}
+                </div>
+              ) : null}
+              {c ? (
+                <div style={{ display: "flex", flexShrink: 0, color: "#525252", fontSize: Math.round(fontSize * 0.9) }}>
+                  {c.detail}
+                </div>
+              ) : null}
+            </div>
+          ))}
+          {/* A short last ticker row keeps its cells the same width as full rows. */}
+          {Array.from({ length: Math.max(0, grid.columns - row.length) }, (_, k) => (
+            <div key={`pad-${k}`} style={{ display: "flex", flex: 1 }} />
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
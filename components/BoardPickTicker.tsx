@@ -0,0 +1,55 @@
+import { roundNumber, seatToName, type Player } from "@/lib/league";
+import { pickSlot, type SeatRow } from "@/lib/board";
+
+type BoardPickTickerProps = {
+  players: Player[];
+  /** Most recent first, from `pickTicker`. */
+  picks: SeatRow[];
+};
+
+function pickTime(pickedAt: string) {
+  return new Date(pickedAt).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+/** The draft in the order it happened. */
+export default function BoardPickTicker({ players, picks }: BoardPickTickerProps) {
+  if (picks.length === 0) return <div className="py-2 text-center text-xs text-neutral-400">No picks yet</div>;
+
+  return (
+    <ol className="mx-auto max-w-[720px] text-sm">
+      {picks.map((r, i) => {
+        const player = players.find((p) => p.seat === r.seat);
+        return (
+          <li
+            key={r.pick_number}
+            className={
+              "flex items-center gap-3 border-b border-neutral-200/60 py-1.5 " + (i === 0 ? "font-semibold" : "")
+            }
+          >
+            <div className="w-10 shrink-0 text-right text-xs tabular-nums text-neutral-400">{`#${r.pick_number}`}</div>
+            <div className="w-10 shrink-0 text-xs text-neutral-400">{`R${roundNumber(pickSlot(r), players.length)}`}</div>
+            <div
+              className="w-28 shrink-0 truncate border-l-4 pl-2"
+              style={{ borderLeftColor: player?.color ?? "#e5e5e5" }}
+            >
+              {seatToName(players, r.seat)}
+            </div>
+            <div className="min-w-0 flex-1 truncate">
+              {r.celebrity_name}
+              {r.auto_pick ? (
+                <span className="ml-1 rounded bg-neutral-200 px-1 text-[9px] font-bold uppercase text-neutral-500">
+                  Auto
+                </span>
+              ) : null}
+              {r.owner_seat !== r.seat ? (
+                <span className="ml-1 text-xs font-normal text-neutral-400">{`→ ${seatToName(players, r.owner_seat)}`}</span>
+              ) : null}
+            </div>
+            <div className="w-9 shrink-0 text-right tabular-nums text-neutral-600">{r.age}</div>
+            <div className="w-16 shrink-0 text-right text-xs tabular-nums text-neutral-400">{pickTime(r.picked_at)}</div>
+          </li>
+        );
+      })}
+    </ol>
+  );
+}
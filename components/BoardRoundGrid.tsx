@@ -0,0 +1,71 @@
+import { seatToName, type Player } from "@/lib/league";
+import type { BoardRound } from "@/lib/board";
+
+type BoardRoundGridProps = {
+  players: Player[];
+  rounds: BoardRound[];
+  lastPickNumber: number | null;
+  turnSeat: number | null;
+};
+
+/** Rounds as rows, drafting seats as columns, so you can see who took whom when. */
+export default function BoardRoundGrid({ players, rounds, lastPickNumber, turnSeat }: BoardRoundGridProps) {
+  return (
+    <table
+      className="w-full table-fixed border-collapse text-sm"
+      style={{ minWidth: `${Math.max(1, players.length) * 160 + 56}px` }}
+    >
+      <thead>
+        <tr>
+          <th className="sticky top-0 z-10 w-14 bg-white/95 py-2 text-left text-xs font-semibold uppercase text-neutral-400 backdrop-blur">
+            Rd
+          </th>
+          {players.map((p) => (
+            <th
+              key={p.seat}
+              className={
+                "sticky top-0 z-10 border-b border-t-4 py-2 text-center text-base font-semibold backdrop-blur " +
+                (turnSeat === p.seat ? "bg-amber-100 border-b-amber-200" : "bg-white/95 border-b-neutral-200")
+              }
+              style={{ borderTopColor: p.color }}
+            >
+              {p.name}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {rounds.map((r) => (
+          <tr key={r.round} className="border-b border-neutral-200/60">
+            <td className="py-1 text-xs font-semibold tabular-nums text-neutral-400">{r.round}</td>
+            {players.map((p) => {
+              const cell = r.cells.get(p.seat);
+              const isLast = cell && cell.pick_number === lastPickNumber;
+              return (
+                <td key={p.seat} className="px-1 py-1 align-top">
+                  {cell ? (
+                    <div
+                      className={"rounded px-1 leading-tight " + (isLast ? "ring-1 ring-neutral-300 font-semibold" : "")}
+                    >
+                      <div className="flex items-baseline justify-between gap-2">
+                        <div className="min-w-0 truncate text-[13px]">{cell.celebrity_name}</div>
+                        <div className="shrink-0 text-[12px] tabular-nums text-neutral-600">{cell.age}</div>
+                      </div>
+                      <div className="text-[10px] text-neutral-400">
+                        {`#${cell.pick_number}`}
+                        {cell.auto_pick ? " · auto" : ""}
+                        {cell.owner_seat !== cell.seat ? ` · now ${seatToName(players, cell.owner_seat)}` : ""}
+                      </div>
+                    </div>
+                  ) : (
+                    <div className="px-1 text-[12px] text-neutral-300">—</div>
+                  )}
+                </td>
+              );
+            })}
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { parseImport, type ImportAction, type ImportRow, type PlannedRow } from "@/lib/celebrityImport";
+
+type CelebrityImportProps = {
+  secret: string;
+  actor: string;
+  onImported: (message: string) => void;
+};
+
+const buttonClass =
+  "inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99] disabled:opacity-50";
+
+const ACTION_STYLES: Record<ImportAction, string> = {
+  add: "text-emerald-700",
+  merge: "text-sky-700",
+  skip: "text-neutral-400",
+};
+
+/** Commissioner panel: paste or upload CSV/JSON, preview the plan, commit. */
+export default function CelebrityImport({ secret, actor, onImported }: CelebrityImportProps) {
+  const [text, setText] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [plan, setPlan] = useState<PlannedRow[] | null>(null);
+  const [asOf, setAsOf] = useState<string | null>(null);
+  const [addAnyway, setAddAnyway] = useState<number[]>([]);
+  /** Set once the plan on screen is the committed report, not a preview. */
+  const [report, setReport] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const send = async (payload: { rows: ImportRow[]; add_anyway?: number[]; commit?: boolean }) => {
+    const res = await fetch("/api/admin/import", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-commissioner-secret": secret },
+      body: JSON.stringify({ ...payload, actor }),
+    });
+    const body = await res.json();
+    if (!res.ok || !body.ok) throw new Error(body.message ?? "Import failed.");
+    return body as { message?: string; asOf: string; plan: PlannedRow[] };
+  };
+
+  const preview = async () => {
+    setErr(null);
+    setPlan(null);
+    setReport(null);
+    setBusy(true);
+    try {
+      const parsed = parseImport(text);
+      if (parsed.length === 0) throw new Error("Nothing to import.");
+
+      const body = await send({ rows: parsed });
+      setRows(parsed);
+      setPlan(body.plan);
+      setAsOf(body.asOf);
+      setAddAnyway([]);
+    } catch (e) {
+      setErr((e as { message?: string })?.message ?? "Couldn't read that file.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const commit = async () => {
+    setErr(null);
+    setBusy(true);
+    try {
+      const body = await send({ rows, add_anyway: addAnyway, commit: true });
+      setPlan(body.plan);
+      setReport(body.message ?? "Imported.");
+      setText("");
+      setAddAnyway([]);
+      onImported(body.message ?? "Imported.");
+    } catch (e) {
+      setErr((e as { message?: string })?.message ?? "Import failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const loadFile = async (file: File | undefined) => {
+    if (!file) return;
+    setText(await file.text());
+    setPlan(null);
+  };
+
+  // Near-duplicates ticked "add anyway" count as adds before the server re-plans.
+  const effective = useMemo(
+    () =>
+      (plan ?? []).map((p) =>
+        p.issue === "near_duplicate" && addAnyway.includes(p.row) ? { ...p, action: "add" as const } : p
+      ),
+    [plan, addAnyway]
+  );
+
+  const counts = useMemo(() => {
+    const c: Record<ImportAction, number> = { add: 0, merge: 0, skip: 0 };
+    for (const p of effective) c[p.action] += 1;
+    return c;
+  }, [effective]);
+
+  const toggleAddAnyway = (row: number) =>
+    setAddAnyway((prev) => (prev.includes(row) ? prev.filter((r) => r !== row) : [...prev, row]));
+
+  return (
+    <section className="rounded-3xl border border-neutral-200 p-4">
+      <div className="text-sm font-semibold">Import celebrities</div>
+      <div className="mt-1 text-sm text-neutral-600">
+        CSV with a header row, or a JSON array. Columns: name, birth_date (YYYY-MM-DD), and optionally category,
+        nationality, notes, reference_url and photo_url.
+      </div>
+
+      <textarea
+        className="mt-3 h-32 w-full rounded-2xl border border-neutral-200 bg-white p-3 font-mono text-xs text-neutral-900"
+        placeholder={"name,birth_date,category\nBetty White,1922-01-17,Actor"}
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setPlan(null);
+        }}
+      />
+
+      <div className="mt-2 flex flex-wrap items-center gap-2">
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="text-sm"
+          onChange={(e) => void loadFile(e.target.files?.[0])}
+        />
+        <button type="button" className={buttonClass} disabled={busy || !text.trim()} onClick={() => void preview()}>
+          Preview
+        </button>
+      </div>
+
+      {err ? (
+        <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">{err}</div>
+      ) : null}
+
+      {plan ? (
+        <div className="mt-3">
+          <div className="text-sm text-neutral-600">
+            {report ?? `${counts.add} to add · ${counts.merge} to merge · ${counts.skip} skipped`}
+            {asOf ? ` · ages as of ${asOf}` : ""}
+          </div>
+
+          <div className="mt-2 max-h-80 overflow-y-auto rounded-2xl border border-neutral-200">
+            {effective.map((p) => (
+              <div
+                key={p.row}
+                className="flex items-start gap-3 border-b border-neutral-200/60 px-3 py-1.5 text-sm last:border-b-0"
+              >
+                <span className="w-8 shrink-0 text-neutral-400 tabular-nums">{p.row}</span>
+                <div className="min-w-0 flex-1">
+                  <div className="truncate">
+                    {p.name || <span className="text-neutral-400">(no name)</span>}
+                    {p.age !== null ? <span className="ml-2 text-neutral-500 tabular-nums">{p.age}</span> : null}
+                  </div>
+                  {p.message ? <div className="text-xs text-neutral-500">{p.message}</div> : null}
+                </div>
+                {p.issue === "near_duplicate" && !report ? (
+                  <label className="flex shrink-0 items-center gap-1 text-xs text-neutral-600">
+                    <input
+                      type="checkbox"
+                      checked={addAnyway.includes(p.row)}
+                      onChange={() => toggleAddAnyway(p.row)}
+                    />
+                    Add anyway
+                  </label>
+                ) : null}
+                <span className={"w-12 shrink-0 text-right text-xs font-semibold uppercase " + ACTION_STYLES[p.action]}>
+                  {p.action}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {report ? null : (
+            <button
+              type="button"
+              className={buttonClass + " mt-3"}
+              disabled={busy || rows.length === 0 || counts.add + counts.merge === 0}
+              onClick={() => void commit()}
+            >
+              {busy ? "Importing…" : `Import ${counts.add + counts.merge}`}
+            </button>
+          )}
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,45 @@
+import { profileSummary, safeUrl, type CelebrityProfile } from "@/lib/celebrityProfile";
+
+type CelebrityProfileDetailsProps = {
+  name: string;
+  profile: CelebrityProfile;
+  /** Dark for the pick page sheet, light for the board. */
+  variant: "dark" | "light";
+};
+
+/** Photo, category/nationality, notes and reference link; renders nothing when empty. */
+export default function CelebrityProfileDetails({ name, profile, variant }: CelebrityProfileDetailsProps) {
+  const summary = profileSummary(profile);
+  const photo = safeUrl(profile.photo_url);
+  const link = safeUrl(profile.reference_url);
+  if (!summary && !profile.notes && !photo && !link) return null;
+
+  const muted = variant === "dark" ? "text-neutral-400" : "text-neutral-500";
+  const body = variant === "dark" ? "text-neutral-300" : "text-neutral-700";
+  const linkClass = variant === "dark" ? "text-emerald-300 underline" : "text-neutral-900 underline";
+
+  return (
+    <div className="flex gap-3">
+      {photo ? (
+        // Photos come from anywhere on the web, so next/image's host allowlist doesn't fit.
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={photo}
+          alt={name}
+          loading="lazy"
+          referrerPolicy="no-referrer"
+          className="h-16 w-16 shrink-0 rounded-2xl object-cover"
+        />
+      ) : null}
+      <div className="min-w-0 flex-1 text-sm">
+        {summary ? <div className={"text-xs font-semibold uppercase tracking-wide " + muted}>{summary}</div> : null}
+        {profile.notes ? <div className={"mt-1 " + body}>{profile.notes}</div> : null}
+        {link ? (
+          <a href={link} target="_blank" rel="noopener noreferrer" className={"mt-1 inline-block text-xs " + linkClass}>
+            {new URL(link).hostname.replace(/^www\./, "")}
+          </a>
+        ) : null}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import type { FeedItem } from "@/lib/chat";
+import { seatToName, type Player } from "@/lib/league";
+
+type ChatTickerProps = {
+  /** `useDraftChat`'s feed, oldest first. */
+  feed: FeedItem[];
+  players: Player[];
+};
+
+const TICKER_ITEMS = 12;
+
+/** Read-only strip of the latest chat and pick reactions, newest on the left. */
+export default function ChatTicker({ feed, players }: ChatTickerProps) {
+  // Picks nobody reacted to are already on the board; only the banter is news here.
+  const items = feed
+    .filter((item) => item.kind === "message" || item.reactions.length > 0)
+    .slice(-TICKER_ITEMS)
+    .reverse();
+
+  if (items.length === 0) return null;
+
+  const color = (seat: number) => players.find((p) => p.seat === seat)?.color ?? "#a3a3a3";
+
+  return (
+    <div className="mb-3 flex items-center gap-4 overflow-hidden whitespace-nowrap rounded-2xl border border-neutral-200 bg-neutral-50 px-4 py-2 text-sm">
+      {items.map((item) =>
+        item.kind === "message" ? (
+          <div key={`m${item.message.id}`} className="flex shrink-0 items-center gap-1.5">
+            <span className="font-semibold" style={{ color: color(item.message.seat) }}>
+              {seatToName(players, item.message.seat)}
+            </span>
+            <span className="max-w-[320px] truncate text-neutral-700">{item.message.body}</span>
+          </div>
+        ) : (
+          <div key={`p${item.pick.pick_number}`} className="flex shrink-0 items-center gap-1.5 text-neutral-500">
+            <span className="tabular-nums">{`#${item.pick.pick_number}`}</span>
+            <span className="text-neutral-700">{item.pick.celebrity_name}</span>
+            <span>{item.reactions.map((r) => (r.seats.length > 1 ? `${r.emoji}${r.seats.length}` : r.emoji)).join(" ")}</span>
+          </div>
+        )
+      )}
+    </div>
+  );
+}
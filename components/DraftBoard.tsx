@@ -0,0 +1,364 @@
+"use client";
+
+import { useMemo, useState, type ReactNode } from "react";
+import { roundNumber as roundForPicks, seatToName, type Player } from "@/lib/league";
+import type { UpcomingPick } from "@/lib/draftOrder";
+import { formatClock } from "@/lib/usePickClock";
+import { profileTooltip } from "@/lib/celebrityProfile";
+import type { BoardRow } from "@/lib/draftRepository";
+import { BOARD_PAGES_HEADER } from "@/lib/boardImage";
+import { BOARD_VIEWS, boardCsv, groupBySeat, pickSlot, pickTicker, roundGrid, rowProfile, type BoardView } from "@/lib/board";
+import CelebrityProfileDetails from "@/components/CelebrityProfileDetails";
+import BoardRoundGrid from "@/components/BoardRoundGrid";
+import BoardPickTicker from "@/components/BoardPickTicker";
+
+type DraftBoardProps = {
+  /** Heading on screen, e.g. "10th Annual Celebrity Death Draft - 2026". */
+  title: string;
+  players: Player[];
+  rows: BoardRow[];
+  turnSeat: number | null;
+  /** Date ages are computed as of (YYYY-MM-DD), normally the draft date. */
+  asOf: string;
+  /** Pick on the clock followed by the next few in draft order; empty for archives. */
+  upcoming: UpcomingPick[];
+  /** Seconds left for the seat on the clock; null when there's no pick clock. */
+  clockRemaining: number | null;
+  totalCelebrities: number;
+  loading: boolean;
+  err: string | null;
+  /** Shown next to the pick count, e.g. "Live" or "Final". */
+  statusLabel: string;
+  /** Opens presentation mode; the button only shows on boards that have one. */
+  onPresent?: () => void;
+  /** Shown above the board when the rows are a cached copy. */
+  staleNotice?: string | null;
+  /** /api/draft-log URL with the season set; offered as JSON and CSV, hidden when unset. */
+  logHref?: string;
+  /** /api/board-image URL with the season set; the view and page are added per download. */
+  imageUrl?: string;
+  /** Live chat strip shown above the board; archives leave it out. */
+  chatTicker?: ReactNode;
+};
+
+/** Per-seat board layout shared by the live board and season archives. */
+export default function DraftBoard({
+  title,
+  players,
+  rows,
+  turnSeat,
+  asOf,
+  upcoming,
+  clockRemaining,
+  totalCelebrities,
+  loading,
+  err,
+  statusLabel,
+  onPresent,
+  staleNotice,
+  logHref,
+  imageUrl,
+  chatTicker,
+}: DraftBoardProps) {
+  // Board rows expand in place to show the celebrity's profile.
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const onDeckSeat = upcoming[1]?.seat ?? null;
+
+  // Rosters by default; the image export follows whichever view is showing.
+  const [view, setView] = useState<BoardView>("seats");
+  const [imageBusy, setImageBusy] = useState(false);
+
+  const bySeat = useMemo(() => groupBySeat(rows, players, asOf), [rows, players, asOf]);
+  const rounds = useMemo(() => roundGrid(rows, players, asOf), [rows, players, asOf]);
+  const ticker = useMemo(() => pickTicker(rows, asOf), [rows, asOf]);
+
+  const lastPickNumber = useMemo(() => {
+    if (rows.length === 0) return null;
+    return rows.reduce((max, r) => (r.pick_number > max ? r.pick_number : max), rows[0].pick_number);
+  }, [rows]);
+
+  // By order slot, so a skipped turn doesn't hold the count back.
+  const roundNumber = useMemo(
+    () => roundForPicks(rows.reduce((max, r) => Math.max(max, pickSlot(r)), 0), players.length),
+    [rows, players.length]
+  );
+
+  const percentComplete = useMemo(() => {
+    if (totalCelebrities === 0) return 0;
+    return Math.round((rows.length / totalCelebrities) * 100);
+  }, [rows.length, totalCelebrities]);
+
+  const exportBoardCsv = () => {
+    const csv = boardCsv(players, bySeat);
+    const blob = new Blob([csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+
+    const a = document.createElement("a");
+    const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+    a.href = url;
+    a.download = `death-draft-board-${stamp}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    a.remove();
+    URL.revokeObjectURL(url);
+  };
+
+  // The server draws the image (/api/board-image); a board too long for one
+  // frame comes back as several pages, downloaded one after another.
+  const exportBoardImage = async () => {
+    if (!imageUrl) return;
+    setImageBusy(true);
+    try {
+      const stamp = new Date().toISOString().slice(0, 19).replace(/[:T]/g, "-");
+      let pages = 1;
+      for (let page = 1; page <= pages; page++) {
+        const res = await fetch(`${imageUrl}&view=${view}&page=${page}`);
+        if (!res.ok) throw new Error(`Image export failed (${res.status}).`);
+        pages = Number(res.headers.get(BOARD_PAGES_HEADER)) || 1;
+
+        const url = URL.createObjectURL(await res.blob());
+        const a = document.createElement("a");
+        a.href = url;
+        a.download = pages > 1 ? `death-draft-board-${stamp}-${page}.png` : `death-draft-board-${stamp}.png`;
+        document.body.appendChild(a);
+        a.click();
+        a.remove();
+        URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      console.error("Failed to export image:", error);
+    } finally {
+      setImageBusy(false);
+    }
+  };
+
+  return (
+    <main className="min-h-dvh bg-white px-8 py-4 text-neutral-900">
+      <div className="mx-auto w-full max-w-[1400px]">
+        <div className="mb-3 flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-semibold tracking-tight">{title}</h1>
+            {!loading && !err && (
+              <div className="mt-1 flex items-center gap-4 text-sm text-neutral-600">
+                <div>Round {roundNumber}</div>
+                <div>{percentComplete}% Complete</div>
+                {upcoming.length > 1 ? (
+                  <div className="text-neutral-500">
+                    {`Next: ${upcoming
+                      .slice(1)
+                      .map((u) => seatToName(players, u.seat))
+                      .join(", ")}`}
+                  </div>
+                ) : null}
+              </div>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <div className="flex h-9 items-center rounded-2xl border border-neutral-200 bg-white p-0.5 shadow-sm">
+              {BOARD_VIEWS.map((v) => (
+                <button
+                  key={v.view}
+                  type="button"
+                  onClick={() => setView(v.view)}
+                  className={
+                    "h-full rounded-[14px] px-3 text-sm font-semibold transition " +
+                    (view === v.view ? "bg-neutral-900 text-white" : "text-neutral-600")
+                  }
+                >
+                  {v.label}
+                </button>
+              ))}
+            </div>
+
+            {onPresent ? (
+              <button
+                type="button"
+                onClick={onPresent}
+                className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
+              >
+                TV mode
+              </button>
+            ) : null}
+
+            <button
+              type="button"
+              onClick={exportBoardCsv}
+              className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
+            >
+              Export CSV
+            </button>
+
+            {logHref
+              ? (["json", "csv"] as const).map((format) => (
+                  <a
+                    key={format}
+                    href={`${logHref}${logHref.includes("?") ? "&" : "?"}format=${format}`}
+                    download
+                    className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99]"
+                  >
+                    {`Export Log (${format.toUpperCase()})`}
+                  </a>
+                ))
+              : null}
+
+            {imageUrl ? (
+              <button
+                type="button"
+                onClick={() => void exportBoardImage()}
+                disabled={imageBusy}
+                className="inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99] disabled:opacity-50"
+              >
+                {imageBusy ? "Exporting…" : "Export Image"}
+              </button>
+            ) : null}
+
+            <div className="text-sm text-neutral-500">
+              {loading ? (
+                "Loading…"
+              ) : err ? (
+                ""
+              ) : (
+                <div className="flex items-center gap-3">
+                  <div>{`${rows.length} picks`}</div>
+                  <div className="text-xs uppercase text-neutral-400">{statusLabel}</div>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+
+        {err ? (
+          <div className="rounded-2xl border border-red-200 bg-red-50 p-4 text-sm text-red-700">
+            Error loading board: {err}
+          </div>
+        ) : null}
+
+        {staleNotice ? (
+          <div className="mb-3 rounded-2xl border border-amber-200 bg-amber-50 px-4 py-2 text-sm text-amber-800">
+            {staleNotice}
+          </div>
+        ) : null}
+
+        {chatTicker}
+
+        <div className="overflow-x-auto">
+          <div className="max-h-[calc(100vh-120px)] overflow-y-auto pb-64">
+            {view === "rounds" ? (
+              <BoardRoundGrid players={players} rounds={rounds} lastPickNumber={lastPickNumber} turnSeat={turnSeat} />
+            ) : view === "ticker" ? (
+              <BoardPickTicker players={players} picks={ticker} />
+            ) : (
+              <div
+                className="grid gap-8"
+                style={{
+                  gridTemplateColumns: `repeat(${Math.max(1, players.length)}, minmax(0, 1fr))`,
+                  minWidth: `${Math.max(1, players.length) * 200}px`,
+                }}
+              >
+                {players.map((p) => {
+                  const list = bySeat.get(p.seat) ?? [];
+                  return (
+                    <section key={p.seat} className="">
+                      <div
+                        className={
+                          "sticky top-0 z-10 backdrop-blur py-2 text-center text-base font-semibold border-b border-t-4 " +
+                          (turnSeat === p.seat
+                            ? "bg-amber-100 border-b-amber-200 text-neutral-900"
+                            : "bg-white/95 border-b-neutral-200 text-neutral-900")
+                        }
+                        style={{ borderTopColor: p.color }}
+                      >
+                        {p.name}
+                        {turnSeat === p.seat ? (
+                          <span className="ml-2 rounded-full bg-amber-300/70 px-2 py-0.5 text-[10px] font-extrabold uppercase tracking-wide">
+                            UP
+                            {clockRemaining !== null ? (
+                              <span className={"ml-1 tabular-nums " + (clockRemaining <= 10 ? "text-red-700" : "")}>
+                                {formatClock(clockRemaining)}
+                              </span>
+                            ) : null}
+                          </span>
+                        ) : onDeckSeat === p.seat ? (
+                          <span className="ml-2 rounded-full bg-neutral-200 px-2 py-0.5 text-[10px] font-extrabold uppercase tracking-wide text-neutral-600">
+                            On deck
+                          </span>
+                        ) : null}
+                      </div>
+
+                      <div className="pr-1 text-sm">
+                        {list.length === 0 ? (
+                          <div className="py-2 text-center text-xs text-neutral-400">No picks yet</div>
+                        ) : null}
+
+                        {list.map((r) => (
+                          <div key={r.celebrity_id}>
+                            <div
+                              onClick={() => setExpandedId((id) => (id === r.celebrity_id ? null : r.celebrity_id))}
+                              title={profileTooltip(r.celebrity_name, rowProfile(r))}
+                              className={
+                                "flex cursor-pointer items-center justify-between gap-2 border-b border-neutral-200/60 py-0.5 leading-tight " +
+                                (lastPickNumber !== null && r.pick_number === lastPickNumber
+                                  ? "relative font-semibold text-[14px] after:content-[''] after:pointer-events-none after:absolute after:inset-y-0 after:-inset-x-1 after:rounded after:border after:border-neutral-300"
+                                  : "")
+                              }
+                            >
+                              <div
+                                className={
+                                  "min-w-0 flex-1 truncate " +
+                                  (lastPickNumber !== null && r.pick_number === lastPickNumber ? "text-[14px]" : "text-[13px]")
+                                }
+                              >
+                                {r.celebrity_name}
+                                {r.auto_pick ? (
+                                  <span
+                                    className="ml-1 rounded bg-neutral-200 px-1 text-[9px] font-bold uppercase text-neutral-500"
+                                    title="Auto-picked when the clock ran out"
+                                  >
+                                    Auto
+                                  </span>
+                                ) : null}
+                                {r.owner_seat !== r.seat ? (
+                                  <span
+                                    className="ml-1 rounded bg-sky-100 px-1 text-[9px] font-bold uppercase text-sky-700"
+                                    title={`Drafted by ${r.player_name}`}
+                                  >
+                                    Trade
+                                  </span>
+                                ) : null}
+                              </div>
+                              <div
+                                className={
+                                  "w-9 shrink-0 text-right tabular-nums " +
+                                  (lastPickNumber !== null && r.pick_number === lastPickNumber
+                                    ? "text-neutral-900 text-[13px]"
+                                    : "text-neutral-600 text-[12px]")
+                                }
+                              >
+                                {r.age}
+                              </div>
+                            </div>
+                            {expandedId === r.celebrity_id ? (
+                              <div className="border-b border-neutral-200/60 py-2">
+                                <CelebrityProfileDetails name={r.celebrity_name} profile={rowProfile(r)} variant="light" />
+                                <div className="mt-1 text-xs text-neutral-400">
+                                  {`Pick #${r.pick_number}`}
+                                  {r.owner_seat !== r.seat ? ` by ${r.player_name}` : ""}
+                                  {r.celebrity_birth_date ? ` · born ${r.celebrity_birth_date}` : ""}
+                                </div>
+                              </div>
+                            ) : null}
+                          </div>
+                        ))}
+                      </div>
+                    </section>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CHAT_MAX_LENGTH, REACTION_EMOJI, type FeedItem } from "@/lib/chat";
+import { seatToName, type Player } from "@/lib/league";
+import type { DraftChat as Chat } from "@/lib/useDraftChat";
+
+type DraftChatProps = {
+  /** From `useDraftChat`; the page feeds it through its draft subscription. */
+  chat: Chat;
+  seat: number;
+  players: Player[];
+  /** The signed-in user holds this seat; everyone else reads along. */
+  canPost: boolean;
+};
+
+function feedTime(at: string) {
+  return new Date(at).toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+}
+
+function seatColor(players: Player[], seat: number) {
+  return players.find((p) => p.seat === seat)?.color ?? "#a3a3a3";
+}
+
+function feedKey(item: FeedItem) {
+  return item.kind === "message" ? `m${item.message.id}` : `p${item.pick.pick_number}`;
+}
+
+/** Draft-night chat on the pick page, with picks inline so seats can react to them. */
+export default function DraftChat({ chat, seat, players, canPost }: DraftChatProps) {
+  const [draft, setDraft] = useState("");
+  const [sending, setSending] = useState(false);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Stick to the newest line as the feed grows.
+  const lastKey = chat.feed.length ? feedKey(chat.feed[chat.feed.length - 1]) : "";
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [lastKey]);
+
+  const send = async () => {
+    const body = draft.trim();
+    if (!body || sending) return;
+    setSending(true);
+    if (await chat.post(seat, body)) setDraft("");
+    setSending(false);
+  };
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 p-3">
+      <div className="text-xs font-semibold uppercase tracking-wide text-neutral-400">Chat</div>
+
+      <div ref={scrollRef} className="mt-2 max-h-72 space-y-1 overflow-y-auto text-sm">
+        {chat.feed.length === 0 ? <div className="py-2 text-xs text-neutral-500">Nothing yet.</div> : null}
+        {chat.feed.map((item) =>
+          item.kind === "message" ? (
+            <div key={feedKey(item)} className="flex gap-2">
+              <span className="shrink-0 font-semibold" style={{ color: seatColor(players, item.message.seat) }}>
+                {seatToName(players, item.message.seat)}
+              </span>
+              <span className="min-w-0 flex-1 break-words text-neutral-200">{item.message.body}</span>
+              <span className="shrink-0 text-xs tabular-nums text-neutral-500">{feedTime(item.at)}</span>
+            </div>
+          ) : (
+            <div key={feedKey(item)} className="rounded-2xl border border-white/10 bg-neutral-950/40 px-3 py-2">
+              <div className="flex gap-2 text-xs">
+                <span className="tabular-nums text-neutral-500">{`#${item.pick.pick_number}`}</span>
+                <span className="min-w-0 flex-1 truncate text-neutral-300">
+                  <span className="font-semibold" style={{ color: seatColor(players, item.pick.seat) }}>
+                    {seatToName(players, item.pick.seat)}
+                  </span>
+                  {` took ${item.pick.celebrity_name}`}
+                </span>
+                <span className="shrink-0 tabular-nums text-neutral-500">{feedTime(item.at)}</span>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-1">
+                {REACTION_EMOJI.map((emoji) => {
+                  const seats = item.reactions.find((r) => r.emoji === emoji)?.seats ?? [];
+                  const mine = seats.includes(seat);
+                  if (!canPost && seats.length === 0) return null;
+                  return (
+                    <button
+                      key={emoji}
+                      type="button"
+                      disabled={!canPost}
+                      onClick={() => void chat.toggleReaction(seat, item.pick.pick_number, emoji)}
+                      title={seats.map((s) => seatToName(players, s)).join(", ")}
+                      className={
+                        "rounded-xl border px-1.5 py-0.5 text-xs tabular-nums " +
+                        (mine
+                          ? "border-emerald-400/30 bg-emerald-500/15 text-emerald-200"
+                          : seats.length
+                            ? "border-white/10 bg-white/10 text-neutral-200"
+                            : "border-transparent text-neutral-500 opacity-60")
+                      }
+                    >
+                      {emoji}
+                      {seats.length ? ` ${seats.length}` : ""}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+          )
+        )}
+      </div>
+
+      {canPost ? (
+        <form
+          className="mt-2 flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void send();
+          }}
+        >
+          <input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={CHAT_MAX_LENGTH}
+            placeholder="Talk trash"
+            className="h-9 min-w-0 flex-1 rounded-2xl border border-white/10 bg-neutral-900 px-3 text-sm text-neutral-100"
+          />
+          <button
+            type="submit"
+            disabled={sending || !draft.trim()}
+            className="h-9 rounded-2xl border border-white/10 bg-white/10 px-3 text-xs font-semibold text-neutral-100 disabled:opacity-50"
+          >
+            Send
+          </button>
+        </form>
+      ) : (
+        <div className="mt-2 text-xs text-neutral-500">Sign in and claim this seat to chat.</div>
+      )}
+
+      {chat.error ? <div className="mt-2 text-xs text-red-300">{chat.error}</div> : null}
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { parseDraftLog, type DraftLog } from "@/lib/draftLog";
+
+type DraftRestoreProps = {
+  secret: string;
+  actor: string;
+  year: number | null;
+  onRestored: (message: string) => void;
+};
+
+type RestoreSummary = {
+  season: number;
+  picks: number;
+  exported_at: string;
+  turn_seat: number | null;
+};
+
+const buttonClass =
+  "inline-flex h-9 items-center rounded-2xl border border-neutral-200 bg-white px-4 text-sm font-semibold text-neutral-900 shadow-sm transition active:scale-[0.99] disabled:opacity-50";
+
+/** Commissioner panel: download the draft log, or check and restore one into an empty draft. */
+export default function DraftRestore({ secret, actor, year, onRestored }: DraftRestoreProps) {
+  const [log, setLog] = useState<DraftLog | null>(null);
+  const [summary, setSummary] = useState<RestoreSummary | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  const send = async (payload: { log: DraftLog; commit?: boolean }) => {
+    const res = await fetch("/api/admin/restore", {
+      method: "POST",
+      headers: { "content-type": "application/json", "x-commissioner-secret": secret },
+      body: JSON.stringify({ ...payload, actor }),
+    });
+    const body = await res.json();
+    if (!res.ok || !body.ok) throw Object.assign(new Error(body.message ?? "Restore failed."), { errors: body.errors });
+    return body as { message?: string; summary: RestoreSummary };
+  };
+
+  const fail = (e: unknown, fallback: string) => {
+    const err = e as { message?: string; errors?: string[] };
+    setErrors(err?.errors?.length ? err.errors : [err?.message ?? fallback]);
+  };
+
+  // Checked here first so a wrong file is explained without a round trip.
+  const loadFile = async (file: File | undefined) => {
+    setLog(null);
+    setSummary(null);
+    setErrors([]);
+    if (!file) return;
+
+    setBusy(true);
+    try {
+      const parsed = parseDraftLog(JSON.parse(await file.text()));
+      if (!parsed.log) {
+        setErrors(parsed.errors);
+        return;
+      }
+      const body = await send({ log: parsed.log });
+      setLog(parsed.log);
+      setSummary(body.summary);
+    } catch (e) {
+      fail(e, "Couldn't read that file.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const restore = async () => {
+    if (!log) return;
+    setErrors([]);
+    setBusy(true);
+    try {
+      const body = await send({ log, commit: true });
+      setLog(null);
+      setSummary(null);
+      onRestored(body.message ?? "Restored.");
+    } catch (e) {
+      fail(e, "Restore failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportHref = (format: "json" | "csv") =>
+    `/api/draft-log?${new URLSearchParams({ ...(year === null ? {} : { season: String(year) }), format })}`;
+
+  return (
+    <section className="rounded-3xl border border-neutral-200 p-4">
+      <div className="text-sm font-semibold">Back up or restore the draft</div>
+      <div className="mt-1 text-sm text-neutral-600">
+        The JSON log has the roster, order, every pick with its time, and whose turn it is. Restoring needs an empty
+        draft: reset first.
+      </div>
+
+      <div className="mt-3 flex flex-wrap items-center gap-2">
+        <a className={buttonClass} href={exportHref("json")} download>
+          Download JSON
+        </a>
+        <a className={buttonClass} href={exportHref("csv")} download>
+          Download CSV
+        </a>
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="text-sm"
+          disabled={busy}
+          onChange={(e) => void loadFile(e.target.files?.[0])}
+        />
+      </div>
+
+      {errors.length > 0 ? (
+        <div className="mt-3 rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {errors.slice(0, 8).map((m) => (
+            <div key={m}>{m}</div>
+          ))}
+          {errors.length > 8 ? <div>{`…and ${errors.length - 8} more.`}</div> : null}
+        </div>
+      ) : null}
+
+      {summary ? (
+        <div className="mt-3 flex flex-wrap items-center gap-3 text-sm text-neutral-600">
+          <div>
+            {`${summary.season}: ${summary.picks} picks, exported ${new Date(summary.exported_at).toLocaleString()}`}
+            {summary.turn_seat !== null ? ` · seat ${summary.turn_seat} on the clock` : ""}
+          </div>
+          <button type="button" className={buttonClass} disabled={busy} onClick={() => void restore()}>
+            {busy ? "Restoring…" : "Restore"}
+          </button>
+        </div>
+      ) : null}
+    </section>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import type { AvailableCelebrity } from "@/lib/draftRepository";
+import { RISK_FLAGS, isRiskFlag, recommendPicks, type RiskFlag } from "@/lib/recommendations";
+
+const SHORT_LIST = 5;
+const LONG_LIST = 15;
+
+const selectClass = "h-8 rounded-xl border border-white/10 bg-neutral-900 px-2 text-xs text-neutral-200";
+
+function FlagSelect({ value, onChange }: { value: RiskFlag | null; onChange: (flag: RiskFlag | null) => void }) {
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(isRiskFlag(e.target.value) ? e.target.value : null)}
+      className={selectClass}
+      title="Risk flag"
+    >
+      <option value="">No flag</option>
+      {RISK_FLAGS.map((f) => (
+        <option key={f.flag} value={f.flag}>
+          {`${f.label} ×${f.multiplier}`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+/**
+ * Best available by expected points, with the working shown and a pick button
+ * that opens the usual confirm sheet. Flags nudge the life-table odds for
+ * anyone the table gets wrong.
+ */
+export default function PickRecommendations({
+  available,
+  years,
+  flags,
+  onFlag,
+  canPick,
+  pickingId,
+  onPick,
+}: {
+  available: AvailableCelebrity[];
+  /** Fraction of the season left, from `seasonYearsLeft`. */
+  years: number;
+  flags: Partial<Record<string, RiskFlag>>;
+  onFlag: (celebrityId: string, flag: RiskFlag | null) => void;
+  canPick: boolean;
+  pickingId: string | null;
+  onPick: (c: AvailableCelebrity) => void;
+}) {
+  const [expanded, setExpanded] = useState(false);
+  const [flagName, setFlagName] = useState("");
+
+  const recs = useMemo(
+    () => recommendPicks(available, { years, flags, limit: expanded ? LONG_LIST : SHORT_LIST }),
+    [available, years, flags, expanded]
+  );
+
+  // Flagged celebrities who didn't make the list, so a "looks healthy" flag can still be undone.
+  const offList = useMemo(() => {
+    const shown = new Set(recs.map((r) => r.celebrity.id));
+    return available.filter((c) => flags[c.id] && !shown.has(c.id));
+  }, [available, flags, recs]);
+
+  const flagByName = (flag: RiskFlag | null) => {
+    const name = flagName.trim().toLowerCase();
+    const match = available.find((c) => c.name.toLowerCase() === name);
+    if (!match || !flag) return;
+    onFlag(match.id, flag);
+    setFlagName("");
+  };
+
+  if (available.length === 0) return null;
+
+  return (
+    <div className="rounded-3xl border border-white/10 bg-white/5 p-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold uppercase tracking-wide text-neutral-400">Best available</div>
+        <button type="button" onClick={() => setExpanded((v) => !v)} className="text-xs font-semibold text-neutral-400 underline">
+          {expanded ? "Show fewer" : `Top ${LONG_LIST}`}
+        </button>
+      </div>
+
+      <div className="mt-2 space-y-1">
+        {recs.map((r, i) => {
+          const c = r.celebrity;
+          const disabled = !canPick || !!pickingId;
+          return (
+            <div key={c.id} className="rounded-2xl border border-white/10 bg-neutral-950/40 px-3 py-2">
+              <div className="flex items-center gap-2">
+                <div className="w-5 text-xs font-semibold text-neutral-500 tabular-nums">{i + 1}</div>
+                <div className="min-w-0 flex-1 truncate text-sm font-semibold">
+                  {c.name}
+                  <span className="ml-2 text-xs font-semibold text-emerald-300 tabular-nums">
+                    {r.expected.toFixed(2)} pts
+                  </span>
+                </div>
+                <FlagSelect value={r.flag} onChange={(flag) => onFlag(c.id, flag)} />
+                <button
+                  type="button"
+                  onClick={() => onPick(c)}
+                  disabled={disabled}
+                  className={
+                    "rounded-2xl px-3 py-1.5 text-xs font-semibold " +
+                    (disabled
+                      ? "bg-white/10 text-neutral-400"
+                      : "border border-emerald-400/20 bg-emerald-500/20 text-emerald-200")
+                  }
+                >
+                  {pickingId === c.id ? "Picking…" : "Pick"}
+                </button>
+              </div>
+              <div className="mt-1 pl-7 text-xs text-neutral-400 tabular-nums">{r.explanation}</div>
+            </div>
+          );
+        })}
+      </div>
+
+      {offList.length > 0 ? (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {offList.map((c) => (
+            <div key={c.id} className="flex items-center gap-1 text-xs text-neutral-400">
+              {c.name}
+              <FlagSelect value={flags[c.id] ?? null} onChange={(flag) => onFlag(c.id, flag)} />
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="mt-2 flex gap-2">
+        <input
+          list="risk-flag-names"
+          placeholder="Flag someone else"
+          value={flagName}
+          onChange={(e) => setFlagName(e.target.value)}
+          className="h-8 min-w-0 flex-1 rounded-xl border border-white/10 bg-neutral-900 px-2 text-xs text-neutral-100"
+        />
+        <datalist id="risk-flag-names">
+          {available.map((c) => (
+            <option key={c.id} value={c.name} />
+          ))}
+        </datalist>
+        <FlagSelect value={null} onChange={flagByName} />
+      </div>
+
+      <div className="mt-2 text-xs text-neutral-500">
+        Expected points = chance of dying by Dec 31 (US life table, adjusted by your flags) × points for a death at
+        that age. Bonuses aren&apos;t counted. Flags stay on this device.
+      </div>
+    </div>
+  );
+}
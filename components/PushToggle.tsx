@@ -0,0 +1,35 @@
+"use client";
+
+import { usePushSubscription } from "@/lib/usePushSubscription";
+
+/** "Notify me when it's my turn" switch on the pick page, shown to the seat's owner. */
+export default function PushToggle({ seat }: { seat: number }) {
+  const push = usePushSubscription(seat);
+
+  if (push.status === "checking" || push.status === "unconfigured") return null;
+
+  return (
+    <div className="mt-3 flex items-center justify-between gap-3 text-xs text-neutral-400">
+      <div className="min-w-0">
+        {push.status === "on"
+          ? "Turn alerts are on for this device."
+          : push.status === "denied"
+            ? "Notifications are blocked in this browser's settings."
+            : push.status === "unsupported"
+              ? "Add this app to your home screen to get turn alerts."
+              : "Get an alert when you're on deck and when you're up."}
+        {push.error ? <span className="ml-1 text-red-300">{push.error}</span> : null}
+      </div>
+      {push.status === "on" || push.status === "off" ? (
+        <button
+          type="button"
+          disabled={push.busy}
+          onClick={() => void (push.status === "on" ? push.disable() : push.enable())}
+          className="h-8 shrink-0 rounded-2xl border border-white/10 bg-white/5 px-3 font-semibold text-neutral-100 disabled:opacity-50"
+        >
+          {push.status === "on" ? "Turn off" : "Notify me"}
+        </button>
+      ) : null}
+    </div>
+  );
+}
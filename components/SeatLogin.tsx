@@ -0,0 +1,123 @@
+"use client";
+
+import { useState } from "react";
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+
+type SeatLoginProps = {
+  seat: number;
+  seatName: string;
+  user: User | null;
+  /** Someone (maybe this user) has claimed the seat. */
+  claimed: boolean;
+  /** This user holds the seat. */
+  owns: boolean;
+  onClaimed: () => void;
+};
+
+/** Sign-in / claim panel shown in the pick page header. */
+export default function SeatLogin({ seat, seatName, user, claimed, owns, onClaimed }: SeatLoginProps) {
+  const [email, setEmail] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [sent, setSent] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const sendLink = async () => {
+    setErr(null);
+    setBusy(true);
+    try {
+      const { error } = await supabase.auth.signInWithOtp({
+        email: email.trim(),
+        options: { emailRedirectTo: `${window.location.origin}/pick/${seat}` },
+      });
+      if (error) throw error;
+      setSent(true);
+    } catch (e) {
+      setErr((e as { message?: string })?.message ?? "Couldn't send link.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const claim = async () => {
+    setErr(null);
+    setBusy(true);
+    try {
+      const { data, error } = await supabase.rpc("death_draft_claim_seat", { p_seat: seat });
+      if (error) throw error;
+
+      const res = Array.isArray(data) ? data[0] : data;
+      if (!res?.ok) throw new Error(res?.message ?? "Claim failed.");
+      onClaimed();
+    } catch (e) {
+      setErr((e as { message?: string })?.message ?? "Claim failed.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  if (user && owns) {
+    return (
+      <div className="mt-3 flex items-center justify-between text-xs text-neutral-500">
+        <div className="truncate">Signed in as {user.email}</div>
+        <button type="button" className="underline" onClick={() => void supabase.auth.signOut()}>
+          Sign out
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 rounded-3xl border border-white/10 bg-white/5 px-4 py-3 text-sm">
+      {!user ? (
+        sent ? (
+          <div className="text-neutral-300">Check {email.trim()} for a sign-in link.</div>
+        ) : (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void sendLink();
+            }}
+          >
+            <input
+              type="email"
+              required
+              placeholder={`Sign in to pick as ${seatName}`}
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="h-10 min-w-0 flex-1 rounded-2xl border border-white/10 bg-neutral-900 px-3 text-neutral-100"
+            />
+            <button
+              type="submit"
+              disabled={busy || !email.trim()}
+              className="h-10 shrink-0 rounded-2xl border border-white/10 bg-white/10 px-3 font-semibold text-neutral-100 disabled:opacity-50"
+            >
+              Send link
+            </button>
+          </form>
+        )
+      ) : claimed ? (
+        <div className="flex items-center justify-between gap-3 text-neutral-300">
+          <div>{seatName} is claimed by another login.</div>
+          <button type="button" className="text-xs underline" onClick={() => void supabase.auth.signOut()}>
+            Sign out
+          </button>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-3">
+          <div className="min-w-0 truncate text-neutral-300">Signed in as {user.email}</div>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => void claim()}
+            className="h-10 shrink-0 rounded-2xl border border-emerald-400/20 bg-emerald-500/20 px-3 font-semibold text-emerald-200 disabled:opacity-50"
+          >
+            Claim {seatName}
+          </button>
+        </div>
+      )}
+      {err ? <div className="mt-2 text-xs text-red-300">{err}</div> : null}
+    </div>
+  );
+}
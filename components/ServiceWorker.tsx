@@ -0,0 +1,26 @@
+"use client";
+
+import { useEffect } from "react";
+import { precachePages } from "@/lib/offlineCache";
+
+/**
+ * Registers public/sw.js so the app shell opens without a connection. Skipped
+ * in development, where cached bundles would fight hot reload.
+ */
+export default function ServiceWorker() {
+  useEffect(() => {
+    if (process.env.NODE_ENV !== "production" || !("serviceWorker" in navigator)) return;
+
+    (async () => {
+      try {
+        await navigator.serviceWorker.register("/sw.js");
+        await navigator.serviceWorker.ready;
+        await precachePages([location.pathname]);
+      } catch {
+        // Without a worker the app still works; it just won't open offline.
+      }
+    })();
+  }, []);
+
+  return null;
+}
@@ -0,0 +1,46 @@
+import type { ReactNode } from "react";
+import { seatToName, type Player } from "@/lib/league";
+import { TRADE_STATUS_LABELS, itemsFrom, type Trade } from "@/lib/trades";
+
+type TradeListProps = {
+  trades: Trade[];
+  players: Player[];
+  /** Dark for the pick page, light for the trade log and admin. */
+  variant: "dark" | "light";
+  /** Buttons for a trade, e.g. accept/reject; omitted for read-only lists. */
+  actions?: (trade: Trade) => ReactNode;
+  empty?: string;
+};
+
+/** "A gives X, Y · B gives Z" cards shared by the pick page, trade log and admin. */
+export default function TradeList({ trades, players, variant, actions, empty = "No trades yet." }: TradeListProps) {
+  const card =
+    variant === "dark" ? "border-white/10 bg-white/5 text-neutral-100" : "border-neutral-200 bg-white text-neutral-900";
+  const muted = variant === "dark" ? "text-neutral-400" : "text-neutral-500";
+
+  if (trades.length === 0) return <div className={"text-sm " + muted}>{empty}</div>;
+
+  return (
+    <div className="space-y-2">
+      {trades.map((t) => (
+        <div key={t.id} className={"rounded-2xl border px-4 py-3 text-sm " + card}>
+          <div className={"flex items-center justify-between gap-3 text-xs " + muted}>
+            <div>{new Date(t.proposed_at).toLocaleString()}</div>
+            <div className="font-semibold uppercase tracking-wide">{TRADE_STATUS_LABELS[t.status]}</div>
+          </div>
+          {[t.from_seat, t.to_seat].map((s) => (
+            <div key={s} className="mt-1">
+              <span className="font-semibold">{seatToName(players, s)}</span>
+              {" gives "}
+              {itemsFrom(t, s)
+                .map((i) => i.celebrity_name)
+                .join(", ")}
+            </div>
+          ))}
+          {t.note ? <div className={"mt-1 italic " + muted}>{`“${t.note}”`}</div> : null}
+          {actions ? <div className="mt-2 flex flex-wrap gap-2">{actions(t)}</div> : null}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { supabase } from "@/lib/supabaseClient";
+import type { Player } from "@/lib/league";
+import type { TradeResponse } from "@/lib/trades";
+import { useTrades } from "@/lib/useTrades";
+import TradeList from "@/components/TradeList";
+
+type TradePanelProps = {
+  year: number;
+  seat: number;
+  players: Player[];
+  /** The signed-in user holds this seat. */
+  canAct: boolean;
+};
+
+type RosterRow = { celebrity_id: string; celebrity_name: string; owner_seat: number };
+
+const actionClass =
+  "h-9 rounded-2xl border border-white/10 bg-white/10 px-3 text-xs font-semibold text-neutral-100 disabled:opacity-50";
+
+function rpcResult(data: unknown) {
+  return (Array.isArray(data) ? data[0] : data) as { ok?: boolean; message?: string } | null;
+}
+
+/** Post-draft trade desk on the pick page: this seat's pending offers and a proposal builder. */
+export default function TradePanel({ year, seat, players, canAct }: TradePanelProps) {
+  const { trades, error: tradesErr } = useTrades(year);
+  const [roster, setRoster] = useState<RosterRow[]>([]);
+  const [partner, setPartner] = useState<number | null>(null);
+  const [give, setGive] = useState<string[]>([]);
+  const [get, setGet] = useState<string[]>([]);
+  const [note, setNote] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  // Owners only change when a trade resolves, so re-read rosters whenever trades do.
+  useEffect(() => {
+    let alive = true;
+
+    const load = async () => {
+      const { data, error } = await supabase
+        .from("death_draft_board")
+        .select("celebrity_id, celebrity_name, owner_seat")
+        .eq("season", year)
+        .order("celebrity_name", { ascending: true });
+
+      if (!alive) return;
+      if (error) {
+        setErr(error.message);
+        return;
+      }
+      setRoster((data ?? []) as RosterRow[]);
+    };
+
+    void load();
+
+    return () => {
+      alive = false;
+    };
+  }, [year, trades]);
+
+  const mine = useMemo(() => roster.filter((r) => r.owner_seat === seat), [roster, seat]);
+  const theirs = useMemo(() => roster.filter((r) => r.owner_seat === partner), [roster, partner]);
+  const pending = useMemo(
+    () => trades.filter((t) => t.status === "pending" && (t.from_seat === seat || t.to_seat === seat)),
+    [trades, seat]
+  );
+
+  const run = async (fn: () => PromiseLike<{ data: unknown; error: { message: string } | null }>) => {
+    setErr(null);
+    setBusy(true);
+    try {
+      const { data, error } = await fn();
+      if (error) throw error;
+
+      const res = rpcResult(data);
+      if (!res?.ok) throw new Error(res?.message ?? "Trade failed.");
+      return true;
+    } catch (e) {
+      setErr((e as { message?: string })?.message ?? "Trade failed.");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const respond = (tradeId: number, response: TradeResponse) =>
+    run(() => supabase.rpc("death_draft_respond_trade", { p_trade_id: tradeId, p_response: response }));
+
+  const propose = async () => {
+    if (partner === null) return;
+    const ok = await run(() =>
+      supabase.rpc("death_draft_propose_trade", {
+        p_from_seat: seat,
+        p_to_seat: partner,
+        p_give: give,
+        p_get: get,
+        p_note: note,
+      })
+    );
+    if (ok) {
+      setGive([]);
+      setGet([]);
+      setNote("");
+    }
+  };
+
+  const toggle = (list: string[], id: string) => (list.includes(id) ? list.filter((x) => x !== id) : [...list, id]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-xs font-semibold uppercase tracking-wide text-neutral-400">Trades</div>
+        <Link href={`/seasons/${year}/trades`} className="text-xs text-neutral-400 underline">
+          Trade log
+        </Link>
+      </div>
+
+      {err || tradesErr ? (
+        <div className="rounded-2xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-700">
+          {err ?? tradesErr}
+        </div>
+      ) : null}
+
+      <TradeList
+        trades={pending}
+        players={players}
+        variant="dark"
+        empty="No pending trades."
+        actions={
+          canAct
+            ? (t) =>
+                t.to_seat === seat ? (
+                  <>
+                    <button
+                      type="button"
+                      className={actionClass}
+                      disabled={busy}
+                      onClick={() => void respond(t.id, "accept")}
+                    >
+                      Accept
+                    </button>
+                    <button
+                      type="button"
+                      className={actionClass}
+                      disabled={busy}
+                      onClick={() => void respond(t.id, "reject")}
+                    >
+                      Reject
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    type="button"
+                    className={actionClass}
+                    disabled={busy}
+                    onClick={() => void respond(t.id, "cancel")}
+                  >
+                    Cancel
+                  </button>
+                )
+            : undefined
+        }
+      />
+
+      {canAct ? (
+        <div className="rounded-3xl border border-white/10 bg-white/5 px-4 py-3 text-sm">
+          <div className="font-semibold">Propose a trade</div>
+          <select
+            value={partner ?? ""}
+            onChange={(e) => {
+              setPartner(e.target.value ? Number(e.target.value) : null);
+              setGet([]);
+            }}
+            className="mt-2 h-9 w-full rounded-2xl border border-white/10 bg-neutral-900 px-3 text-neutral-100"
+          >
+            <option value="">Trade with…</option>
+            {players
+              .filter((p) => p.seat !== seat)
+              .map((p) => (
+                <option key={p.seat} value={p.seat}>
+                  {p.name}
+                </option>
+              ))}
+          </select>
+
+          {partner !== null ? (
+            <>
+              <div className="mt-3 grid grid-cols-2 gap-3">
+                {[
+                  { label: "You give", list: mine, picked: give, set: setGive },
+                  { label: "You get", list: theirs, picked: get, set: setGet },
+                ].map((side) => (
+                  <div key={side.label}>
+                    <div className="text-xs font-semibold uppercase tracking-wide text-neutral-400">{side.label}</div>
+                    <div className="mt-1 max-h-56 space-y-1 overflow-y-auto">
+                      {side.list.map((r) => (
+                        <label key={r.celebrity_id} className="flex items-center gap-2 text-neutral-200">
+                          <input
+                            type="checkbox"
+                            checked={side.picked.includes(r.celebrity_id)}
+                            onChange={() => side.set(toggle(side.picked, r.celebrity_id))}
+                          />
+                          <span className="truncate">{r.celebrity_name}</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <input
+                placeholder="Note (optional)"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="mt-3 h-9 w-full rounded-2xl border border-white/10 bg-neutral-900 px-3 text-neutral-100"
+              />
+              <button
+                type="button"
+                disabled={busy || give.length === 0 || get.length === 0}
+                onClick={() => void propose()}
+                className="mt-3 h-10 w-full rounded-2xl border border-emerald-400/20 bg-emerald-500/20 font-semibold text-emerald-200 disabled:opacity-50"
+              >
+                {busy ? "Sending…" : `Offer ${give.length} for ${get.length}`}
+              </button>
+            </>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+"use client";
+
+import { useEffect, useMemo, useRef } from "react";
+import { roundNumber, seatToName, type Player } from "@/lib/league";
+import type { UpcomingPick } from "@/lib/draftOrder";
+import type { BoardRow } from "@/lib/draftRepository";
+import { pickSlot, pickTicker } from "@/lib/board";
+import { celebrityAge } from "@/lib/age";
+import { formatClock } from "@/lib/usePickClock";
+import { playCue } from "@/lib/soundCues";
+
+/** How long each pick announcement stays up. */
+const ANNOUNCE_MS = 6000;
+/** Clock value (seconds) that triggers the warning cue. */
+const WARNING_AT = 10;
+
+type TvModeProps = {
+  title: string;
+  players: Player[];
+  rows: BoardRow[];
+  asOf: string;
+  turnSeat: number | null;
+  upcoming: UpcomingPick[];
+  clockRemaining: number | null;
+  statusLabel: string;
+  /** Pick being announced, oldest first; the board page queues them from realtime inserts. */
+  announcement: BoardRow | null;
+  onAnnounced: () => void;
+  sound: boolean;
+  onToggleSound: () => void;
+  onExit: () => void;
+};
+
+/** Full-screen presentation of the live board for a TV or screen-share. */
+export default function TvMode({
+  title,
+  players,
+  rows,
+  asOf,
+  turnSeat,
+  upcoming,
+  clockRemaining,
+  statusLabel,
+  announcement,
+  onAnnounced,
+  sound,
+  onToggleSound,
+  onExit,
+}: TvModeProps) {
+  const recent = useMemo(() => pickTicker(rows, asOf).slice(0, 6), [rows, asOf]);
+  const onDeckSeat = upcoming[1]?.seat ?? null;
+  const onClock = players.find((p) => p.seat === turnSeat) ?? null;
+
+  // Keep the latest callback without restarting the timer when the parent re-renders.
+  const onAnnouncedRef = useRef(onAnnounced);
+  useEffect(() => {
+    onAnnouncedRef.current = onAnnounced;
+  }, [onAnnounced]);
+
+  useEffect(() => {
+    if (!announcement) return;
+    if (sound) playCue("pick");
+    const timer = window.setTimeout(() => onAnnouncedRef.current(), ANNOUNCE_MS);
+    return () => window.clearTimeout(timer);
+    // Sound is read when the card appears; toggling it shouldn't replay the cue.
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [announcement]);
+
+  // The clock ticks in fractions of a second, so cue when it crosses the mark
+  // rather than waiting for an exact value. Seat and pick together name the
+  // turn: a snake draft gives the same seat two turns in a row.
+  const lastSecondRef = useRef<number | null>(null);
+  const turnKey = `${turnSeat ?? ""}:${upcoming[0]?.pick_number ?? ""}`;
+  useEffect(() => {
+    lastSecondRef.current = null;
+  }, [turnKey]);
+
+  useEffect(() => {
+    const second = clockRemaining === null ? null : Math.ceil(clockRemaining);
+    const prev = lastSecondRef.current;
+    lastSecondRef.current = second;
+    if (sound && prev !== null && second !== null && prev > WARNING_AT && second <= WARNING_AT) playCue("warning");
+  }, [sound, clockRemaining]);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onExit();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onExit]);
+
+  const drafter = announcement ? players.find((p) => p.seat === announcement.seat) : null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex flex-col bg-neutral-950 px-12 py-8 text-neutral-50">
+      <div className="flex items-center justify-between">
+        <div className="text-2xl font-semibold tracking-tight">{title}</div>
+        <div className="flex items-center gap-3 text-sm">
+          <div className="uppercase text-neutral-500">{statusLabel}</div>
+          <button
+            type="button"
+            onClick={onToggleSound}
+            className="h-9 rounded-2xl border border-white/10 bg-white/5 px-4 font-semibold text-neutral-200"
+          >
+            {sound ? "Sound on" : "Sound off"}
+          </button>
+          <button
+            type="button"
+            onClick={onExit}
+            className="h-9 rounded-2xl border border-white/10 bg-white/5 px-4 font-semibold text-neutral-200"
+          >
+            Exit
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-1 flex-col items-center justify-center text-center">
+        {onClock ? (
+          <>
+            <div className="text-2xl font-semibold uppercase tracking-[0.3em] text-amber-300">On the clock</div>
+            <div
+              className="mt-4 border-b-8 pb-2 text-8xl font-extrabold tracking-tight"
+              style={{ borderBottomColor: onClock.color }}
+            >
+              {onClock.name}
+            </div>
+            {clockRemaining !== null ? (
+              <div
+                className={
+                  "mt-6 text-6xl font-bold tabular-nums " +
+                  (clockRemaining <= WARNING_AT ? "text-red-400" : "text-neutral-300")
+                }
+              >
+                {formatClock(clockRemaining)}
+              </div>
+            ) : null}
+            {upcoming[0] ? (
+              <div className="mt-4 text-2xl text-neutral-400">
+                {`Round ${upcoming[0].round} · Pick ${upcoming[0].pick_number}`}
+              </div>
+            ) : null}
+            {onDeckSeat !== null ? (
+              <div className="mt-8 text-3xl text-neutral-300">
+                On deck: <span className="font-semibold text-neutral-50">{seatToName(players, onDeckSeat)}</span>
+              </div>
+            ) : null}
+          </>
+        ) : (
+          <div className="text-5xl font-bold text-neutral-300">
+            {rows.length > 0 ? "Draft complete" : "Waiting for the draft"}
+          </div>
+        )}
+      </div>
+
+      {recent.length > 0 ? (
+        <div className="grid grid-cols-3 gap-x-10 gap-y-2 border-t border-white/10 pt-4 text-lg">
+          {recent.map((r) => (
+            <div key={r.pick_number} className="flex min-w-0 items-baseline gap-3">
+              <div className="shrink-0 text-sm tabular-nums text-neutral-500">{`#${r.pick_number}`}</div>
+              <div className="shrink-0 text-neutral-400">{seatToName(players, r.seat)}</div>
+              <div className="min-w-0 truncate font-semibold">{r.celebrity_name}</div>
+              <div className="shrink-0 tabular-nums text-neutral-400">{r.age}</div>
+            </div>
+          ))}
+        </div>
+      ) : null}
+
+      {announcement ? (
+        <div
+          key={announcement.pick_number}
+          onClick={onAnnounced}
+          className="absolute inset-0 flex cursor-pointer flex-col items-center justify-center bg-neutral-950 text-center"
+          style={{ boxShadow: `inset 0 0 0 16px ${drafter?.color ?? "#404040"}` }}
+        >
+          <div className="text-3xl font-semibold uppercase tracking-[0.3em] text-neutral-400">
+            {`Round ${roundNumber(pickSlot(announcement), players.length)} · Pick ${announcement.pick_number}`}
+          </div>
+          <div className="mt-8 text-5xl font-bold" style={{ color: drafter?.color }}>
+            {seatToName(players, announcement.seat)}
+          </div>
+          <div className="mt-2 text-3xl text-neutral-400">{announcement.auto_pick ? "auto-picks" : "selects"}</div>
+          <div className="mt-8 max-w-[90vw] text-9xl font-extrabold tracking-tight">{announcement.celebrity_name}</div>
+          <div className="mt-6 text-5xl font-semibold tabular-nums text-neutral-300">
+            {`Age ${celebrityAge(announcement.celebrity_birth_date, announcement.celebrity_age, asOf)}`}
+          </div>
+          {announcement.celebrity_category ? (
+            <div className="mt-3 text-2xl text-neutral-500">{announcement.celebrity_category}</div>
+          ) : null}
+        </div>
+      ) : null}
+    </div>
+  );
+}
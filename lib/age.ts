@@ -0,0 +1,43 @@
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Parse a YYYY-MM-DD string, rejecting impossible dates like 2023-02-30. */
+export function parseIsoDate(value: string): { y: number; m: number; d: number } | null {
+  const match = ISO_DATE.exec(value.trim());
+  if (!match) return null;
+
+  const y = Number(match[1]);
+  const m = Number(match[2]);
+  const d = Number(match[3]);
+  const check = new Date(Date.UTC(y, m - 1, d));
+  if (check.getUTCFullYear() !== y || check.getUTCMonth() !== m - 1 || check.getUTCDate() !== d) return null;
+
+  return { y, m, d };
+}
+
+/** Whole years between `birthDate` and `asOf` (both YYYY-MM-DD). */
+export function ageOn(birthDate: string, asOf: string): number | null {
+  const b = parseIsoDate(birthDate);
+  const a = parseIsoDate(asOf);
+  if (!b || !a) return null;
+
+  let age = a.y - b.y;
+  if (a.m < b.m || (a.m === b.m && a.d < b.d)) age -= 1;
+  return age;
+}
+
+export function todayIso() {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/** Ages are shown as of the draft date, or today until one is set. */
+export function ageReferenceDate(season: { draft_date: string | null } | null) {
+  return season?.draft_date ?? todayIso();
+}
+
+/**
+ * Age from the birth date as of `asOf`. Rows imported before birth dates
+ * were tracked fall back to the age stored with them.
+ */
+export function celebrityAge(birthDate: string | null, storedAge: number, asOf: string) {
+  return (birthDate ? ageOn(birthDate, asOf) : null) ?? storedAge;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { draftAnalytics, mostLikelyNext, seasonYearsLeft } from "@/lib/analytics";
+import type { BoardRow } from "@/lib/draftRepository";
+import { deathProbability } from "@/lib/lifeTable";
+import { boardRow, players } from "@/lib/testFixtures";
+
+function row(pick: number, owner: number, age: number): BoardRow {
+  return boardRow(pick, owner, { celebrity_age: age });
+}
+
+const rows = [row(1, 1, 95), row(2, 2, 60), row(3, 1, 75), row(4, 2, 88), row(5, 1, 82)];
+
+describe("deathProbability", () => {
+  it("climbs with age and hits the table's rows exactly", () => {
+    expect(deathProbability(80, { sex: "male" })).toBeCloseTo(0.059);
+    expect(deathProbability(60)).toBeLessThan(deathProbability(61));
+    expect(deathProbability(61)).toBeLessThan(deathProbability(65));
+    expect(deathProbability(130)).toBe(1);
+  });
+
+  it("scales down for part of a year", () => {
+    const full = deathProbability(90);
+    const half = deathProbability(90, { years: 0.5 });
+    expect(half).toBeGreaterThan(full / 2);
+    expect(half).toBeLessThan(full);
+    expect(deathProbability(90, { years: 0 })).toBe(0);
+  });
+});
+
+describe("seasonYearsLeft", () => {
+  it("counts down through the season's calendar year", () => {
+    expect(seasonYearsLeft(2026, "2025-12-01")).toBe(1);
+    expect(seasonYearsLeft(2026, "2026-07-02")).toBeCloseTo(0.5, 2);
+    expect(seasonYearsLeft(2026, "2027-02-01")).toBe(0);
+  });
+});
+
+describe("draftAnalytics", () => {
+  it("profiles each seat and the league", () => {
+    const { seats, league } = draftAnalytics(rows, players, { asOf: "2026-01-10", years: 1 });
+
+    expect(seats[0]).toMatchObject({ name: "Ann", count: 3, median: 82, youngest: 75, oldest: 95 });
+    expect(seats[0].mean).toBeCloseTo(84);
+    expect(seats[0].bands).toEqual([0, 0, 1, 1, 1, 0]);
+    expect(seats[1].median).toBe(74);
+
+    const expected = rows.reduce((s, r) => s + deathProbability(r.celebrity_age), 0);
+    expect(league.expectedDeaths).toBeCloseTo(expected);
+    expect(seats[0].expectedDeaths + seats[1].expectedDeaths).toBeCloseTo(expected);
+    expect(league.atLeastOne).toBeGreaterThan(Math.max(...rows.map((r) => deathProbability(r.celebrity_age))));
+  });
+
+  it("leaves the dead out of the ages and odds", () => {
+    const { seats } = draftAnalytics(rows, players, { asOf: "2026-01-10", years: 1, deadIds: ["c1"] });
+    expect(seats[0]).toMatchObject({ count: 2, dead: 1, oldest: 82 });
+  });
+
+  it("handles an empty roster", () => {
+    const { seats } = draftAnalytics([], players, { asOf: "2026-01-10", years: 1 });
+    expect(seats[0]).toMatchObject({ count: 0, mean: null, median: null, expectedDeaths: 0, atLeastOne: 0 });
+  });
+});
+
+describe("mostLikelyNext", () => {
+  it("ranks the living by their odds", () => {
+    const out = mostLikelyNext(rows, players, { asOf: "2026-01-10", years: 1, deadIds: ["c1"], limit: 2 });
+    expect(out.map((l) => [l.celebrity_name, l.owner_name])).toEqual([
+      ["Celeb 4", "Bo"],
+      ["Celeb 5", "Ann"],
+    ]);
+  });
+});
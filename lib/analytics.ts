@@ -0,0 +1,127 @@
+import { celebrityAge } from "@/lib/age";
+import type { BoardRow } from "@/lib/draftRepository";
+import { seatToName, type Player } from "@/lib/league";
+import { deathProbability } from "@/lib/lifeTable";
+
+/** Age bands for the distribution bars, youngest first. */
+export const AGE_BANDS: { label: string; min: number; max: number }[] = [
+  { label: "Under 60", min: 0, max: 59 },
+  { label: "60s", min: 60, max: 69 },
+  { label: "70s", min: 70, max: 79 },
+  { label: "80s", min: 80, max: 89 },
+  { label: "90s", min: 90, max: 99 },
+  { label: "100+", min: 100, max: Infinity },
+];
+
+export type AgeProfile = {
+  /** Living celebrities the numbers are computed over. */
+  count: number;
+  /** Already dead this season; not in the ages or the expectation. */
+  dead: number;
+  mean: number | null;
+  median: number | null;
+  youngest: number | null;
+  oldest: number | null;
+  /** Counts per `AGE_BANDS` entry. */
+  bands: number[];
+  /** Sum of each living celebrity's chance of dying before the season ends. */
+  expectedDeaths: number;
+  /** Chance at least one of them dies before the season ends. */
+  atLeastOne: number;
+};
+
+export type SeatProfile = AgeProfile & { seat: number; name: string; color: string };
+
+export type LikelyDeath = {
+  celebrity_id: string;
+  celebrity_name: string;
+  age: number;
+  owner_seat: number;
+  owner_name: string;
+  probability: number;
+};
+
+type Living = { row: BoardRow; age: number; probability: number };
+
+/**
+ * Fraction of a year left in the season as of `asOf` (YYYY-MM-DD). Seasons
+ * run to the end of their calendar year; before it starts the whole year counts.
+ */
+export function seasonYearsLeft(year: number, asOf: string) {
+  const start = Date.UTC(year, 0, 1);
+  const end = Date.UTC(year + 1, 0, 1);
+  const now = Math.min(end, Math.max(start, Date.parse(`${asOf}T00:00:00Z`)));
+  return (end - now) / (end - start);
+}
+
+function living(rows: BoardRow[], asOf: string, years: number, dead: Set<string>): Living[] {
+  return rows
+    .filter((r) => !dead.has(r.celebrity_id))
+    .map((r) => {
+      const age = celebrityAge(r.celebrity_birth_date, r.celebrity_age, asOf);
+      return { row: r, age, probability: deathProbability(age, { years }) };
+    });
+}
+
+function profile(list: Living[], deadCount: number): AgeProfile {
+  const ages = list.map((l) => l.age).sort((a, b) => a - b);
+  const n = ages.length;
+  const mid = Math.floor(n / 2);
+
+  return {
+    count: n,
+    dead: deadCount,
+    mean: n ? ages.reduce((s, a) => s + a, 0) / n : null,
+    median: n ? (n % 2 ? ages[mid] : (ages[mid - 1] + ages[mid]) / 2) : null,
+    youngest: n ? ages[0] : null,
+    oldest: n ? ages[n - 1] : null,
+    bands: AGE_BANDS.map((b) => ages.filter((a) => a >= b.min && a <= b.max).length),
+    expectedDeaths: list.reduce((s, l) => s + l.probability, 0),
+    atLeastOne: 1 - list.reduce((p, l) => p * (1 - l.probability), 1),
+  };
+}
+
+/**
+ * Age profile and actuarial outlook for each seat's current roster (after
+ * trades) and for the league as a whole. `years` is how much of the season is
+ * left, from `seasonYearsLeft`.
+ */
+export function draftAnalytics(
+  rows: BoardRow[],
+  players: Player[],
+  opts: { asOf: string; years: number; deadIds?: Iterable<string> }
+): { seats: SeatProfile[]; league: AgeProfile } {
+  const dead = new Set(opts.deadIds ?? []);
+  const all = living(rows, opts.asOf, opts.years, dead);
+  const deadCount = (seat: number | null) =>
+    rows.filter((r) => dead.has(r.celebrity_id) && (seat === null || r.owner_seat === seat)).length;
+
+  return {
+    seats: players.map((p) => ({
+      seat: p.seat,
+      name: p.name,
+      color: p.color,
+      ...profile(all.filter((l) => l.row.owner_seat === p.seat), deadCount(p.seat)),
+    })),
+    league: profile(all, deadCount(null)),
+  };
+}
+
+/** Living drafted celebrities most likely to die before the season ends. */
+export function mostLikelyNext(
+  rows: BoardRow[],
+  players: Player[],
+  opts: { asOf: string; years: number; deadIds?: Iterable<string>; limit?: number }
+): LikelyDeath[] {
+  return living(rows, opts.asOf, opts.years, new Set(opts.deadIds ?? []))
+    .sort((a, b) => b.probability - a.probability || a.row.celebrity_name.localeCompare(b.row.celebrity_name))
+    .slice(0, opts.limit ?? 10)
+    .map((l) => ({
+      celebrity_id: l.row.celebrity_id,
+      celebrity_name: l.row.celebrity_name,
+      age: l.age,
+      owner_seat: l.row.owner_seat,
+      owner_name: seatToName(players, l.row.owner_seat),
+      probability: l.probability,
+    }));
+}
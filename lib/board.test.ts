@@ -0,0 +1,118 @@
+import { describe, expect, it } from "vitest";
+import { boardCsv, groupBySeat, pickTicker, roundGrid } from "@/lib/board";
+import type { BoardRow } from "@/lib/draftRepository";
+import { boardRow, players } from "@/lib/testFixtures";
+
+function row(pick: number, seat: number, name: string, age: number, extra: Partial<BoardRow> = {}): BoardRow {
+  return boardRow(pick, seat, { celebrity_id: name.toLowerCase(), celebrity_name: name, celebrity_age: age, ...extra });
+}
+
+describe("groupBySeat", () => {
+  it("sorts each seat oldest first, then by name", () => {
+    const bySeat = groupBySeat(
+      [row(1, 1, "Young", 60), row(3, 1, "Zed", 90), row(5, 1, "Abe", 90), row(2, 2, "Solo", 70)],
+      players,
+      "2026-01-10"
+    );
+
+    expect(bySeat.get(1)!.map((r) => r.celebrity_name)).toEqual(["Abe", "Zed", "Young"]);
+    expect(bySeat.get(2)!.map((r) => r.celebrity_name)).toEqual(["Solo"]);
+  });
+
+  it("gives every player a column, even before they pick", () => {
+    expect(groupBySeat([], players, "2026-01-10").get(2)).toEqual([]);
+  });
+
+  it("puts traded celebrities with their current owner", () => {
+    const bySeat = groupBySeat([row(1, 1, "Moved", 80, { owner_seat: 2 })], players, "2026-01-10");
+    expect(bySeat.get(1)).toEqual([]);
+    expect(bySeat.get(2)!.map((r) => r.celebrity_name)).toEqual(["Moved"]);
+  });
+
+  it("prefers birth dates over stored ages", () => {
+    const bySeat = groupBySeat(
+      [row(1, 1, "Stored", 80), row(2, 1, "Born", 1, { celebrity_birth_date: "1940-06-01" })],
+      players,
+      "2026-01-10"
+    );
+
+    expect(bySeat.get(1)!.map((r) => [r.celebrity_name, r.age])).toEqual([
+      ["Born", 85],
+      ["Stored", 80],
+    ]);
+  });
+});
+
+describe("roundGrid", () => {
+  it("puts each pick in its round under the seat that made it", () => {
+    const rounds = roundGrid(
+      [row(1, 1, "A", 90), row(2, 2, "B", 80), row(3, 2, "C", 70, { owner_seat: 1 })],
+      players,
+      "2026-01-10"
+    );
+
+    expect(rounds.map((r) => r.round)).toEqual([1, 2]);
+    expect(rounds[0].cells.get(2)?.celebrity_name).toBe("B");
+    expect(rounds[1].cells.get(2)?.celebrity_name).toBe("C");
+    expect(rounds[1].cells.has(1)).toBe(false);
+  });
+
+  it("follows order slots after a skipped turn", () => {
+    // Linear over three seats: seat 2 is skipped, so seat 3 takes pick 2 and seat 1 opens round 2 with pick 3.
+    const trio = [...players, { seat: 3, name: "Cy", color: "#0f0" }];
+    const rounds = roundGrid(
+      [row(1, 1, "A", 90), row(2, 3, "C", 80, { skipped_slots: 1 }), row(3, 1, "D", 70, { skipped_slots: 1 })],
+      trio,
+      "2026-01-10"
+    );
+
+    expect(rounds.map((r) => r.round)).toEqual([1, 2]);
+    expect(rounds[0].cells.get(1)?.celebrity_name).toBe("A");
+    expect(rounds[0].cells.has(2)).toBe(false);
+    expect(rounds[0].cells.get(3)?.celebrity_name).toBe("C");
+    expect(rounds[1].cells.get(1)?.celebrity_name).toBe("D");
+  });
+
+  it("never drops a pick whose cell is already taken", () => {
+    // Two round-one picks by seat 1, as when the roster changed mid-draft.
+    const rounds = roundGrid([row(1, 1, "A", 90), row(2, 1, "B", 80)], players, "2026-01-10");
+    expect(rounds.map((r) => r.cells.get(1)?.celebrity_name)).toEqual(["A", "B"]);
+  });
+
+  it("has no rounds without players", () => {
+    expect(roundGrid([row(1, 1, "A", 90)], [], "2026-01-10")).toEqual([]);
+  });
+});
+
+describe("pickTicker", () => {
+  it("lists picks newest first", () => {
+    const picks = pickTicker([row(2, 2, "B", 80), row(3, 1, "C", 70), row(1, 1, "A", 90)], "2026-01-10");
+    expect(picks.map((r) => r.pick_number)).toEqual([3, 2, 1]);
+  });
+});
+
+describe("boardCsv", () => {
+  it("writes one block of columns per player, padded to the longest roster", () => {
+    const rows = [row(1, 1, "Old", 90), row(3, 1, "Older", 95), row(2, 2, "Kid", 50)];
+    const csv = boardCsv(players, groupBySeat(rows, players, "2026-01-10"));
+
+    expect(csv.split("\n")).toEqual([
+      "Ann,Ann Age,Ann Category,Ann Nationality,Ann Notes,Ann Link,Bo,Bo Age,Bo Category,Bo Nationality,Bo Notes,Bo Link",
+      "Older,95,,,,,Kid,50,,,,",
+      "Old,90,,,,,,,,,,",
+    ]);
+  });
+
+  it("quotes cells with commas, quotes or newlines", () => {
+    const csv = boardCsv(
+      [players[0]],
+      groupBySeat([row(1, 1, "Smith, Jr.", 70, { celebrity_notes: 'Said "hi"\nonce' })], [players[0]], "2026-01-10")
+    );
+
+    expect(csv.split("\n").slice(1).join("\n")).toBe('"Smith, Jr.",70,,,"Said ""hi""\nonce",');
+  });
+
+  it("is just the header for an empty board", () => {
+    expect(boardCsv([players[0]], groupBySeat([], [players[0]], "2026-01-10")).split("\n")).toHaveLength(1);
+  });
+});
@@ -0,0 +1,135 @@
+import { roundNumber, type Player } from "@/lib/league";
+import { celebrityAge } from "@/lib/age";
+import type { CelebrityProfile } from "@/lib/celebrityProfile";
+import type { BoardRow } from "@/lib/draftRepository";
+
+/** A board row with its age worked out as of the board's reference date. */
+export type SeatRow = BoardRow & { age: number };
+
+/** Per-player rosters, the draft as a rounds × seats grid, or the picks in order. */
+export type BoardView = "seats" | "rounds" | "ticker";
+
+export const BOARD_VIEWS: { view: BoardView; label: string }[] = [
+  { view: "seats", label: "Rosters" },
+  { view: "rounds", label: "Rounds" },
+  { view: "ticker", label: "Ticker" },
+];
+
+export type BoardRound = {
+  round: number;
+  /** Keyed by the seat that made the pick, not its current owner. */
+  cells: Map<number, SeatRow>;
+};
+
+/** Order slot a pick came from; rounds go by slot, so a skipped turn pushes later picks along. */
+export function pickSlot(r: Pick<BoardRow, "pick_number" | "skipped_slots">) {
+  return r.pick_number + r.skipped_slots;
+}
+
+function withAge(r: BoardRow, asOf: string): SeatRow {
+  return { ...r, age: celebrityAge(r.celebrity_birth_date, r.celebrity_age, asOf) };
+}
+
+export function rowProfile(r: BoardRow): CelebrityProfile {
+  return {
+    category: r.celebrity_category,
+    nationality: r.celebrity_nationality,
+    notes: r.celebrity_notes,
+    reference_url: r.celebrity_url,
+    photo_url: r.celebrity_photo_url,
+  };
+}
+
+/**
+ * Board columns: every seat's current roster (traded celebrities sit with
+ * their new owner), oldest first as of `asOf`, ties broken by name.
+ */
+export function groupBySeat(rows: BoardRow[], players: Player[], asOf: string) {
+  const m = new Map<number, SeatRow[]>();
+  for (const p of players) m.set(p.seat, []);
+
+  for (const r of rows) {
+    if (!m.has(r.owner_seat)) m.set(r.owner_seat, []);
+    m.get(r.owner_seat)!.push(withAge(r, asOf));
+  }
+
+  for (const list of m.values()) {
+    list.sort((a, b) => {
+      if (b.age !== a.age) return b.age - a.age;
+      return a.celebrity_name.localeCompare(b.celebrity_name);
+    });
+  }
+
+  return m;
+}
+
+/**
+ * Who took whom in each round: one row per round up to the latest pick, one
+ * cell per drafting seat. Every round has one slot per seat, so the round
+ * follows from the pick's order slot whatever the order mode; a skipped
+ * seat's cell stays empty.
+ */
+export function roundGrid(rows: BoardRow[], players: Player[], asOf: string): BoardRound[] {
+  const rounds: BoardRound[] = [];
+  if (players.length === 0) return rounds;
+
+  const last = rows.reduce((max, r) => Math.max(max, pickSlot(r)), 0);
+  for (let round = 1; round <= roundNumber(last, players.length); round++) {
+    rounds.push({ round, cells: new Map() });
+  }
+
+  for (const r of rows.slice().sort((a, b) => a.pick_number - b.pick_number)) {
+    // Slots only collide if the roster changed mid-draft; push the pick down rather than lose it.
+    let i = roundNumber(pickSlot(r), players.length) - 1;
+    while (rounds[i]?.cells.has(r.seat)) i++;
+    if (!rounds[i]) rounds[i] = { round: i + 1, cells: new Map() };
+    rounds[i].cells.set(r.seat, withAge(r, asOf));
+  }
+
+  return rounds;
+}
+
+/** Every pick, most recent first. */
+export function pickTicker(rows: BoardRow[], asOf: string): SeatRow[] {
+  return rows.map((r) => withAge(r, asOf)).sort((a, b) => b.pick_number - a.pick_number);
+}
+
+/** CSV escaping: wrap in quotes if needed and double internal quotes. */
+export function csvCell(v: string) {
+  if (/[\n\r,"]/.test(v)) return `"${v.replace(/"/g, '""')}"`;
+  return v;
+}
+
+/** The board as a CSV, one block of columns per player, rows in board order. */
+export function boardCsv(players: Player[], bySeat: Map<number, SeatRow[]>) {
+  const maxLen = Math.max(0, ...players.map((p) => (bySeat.get(p.seat) ?? []).length));
+
+  const headers: string[] = [];
+  for (const p of players) {
+    headers.push(p.name);
+    headers.push(`${p.name} Age`);
+    headers.push(`${p.name} Category`);
+    headers.push(`${p.name} Nationality`);
+    headers.push(`${p.name} Notes`);
+    headers.push(`${p.name} Link`);
+  }
+
+  const lines: string[] = [];
+  lines.push(headers.map(csvCell).join(","));
+
+  for (let i = 0; i < maxLen; i++) {
+    const row: string[] = [];
+    for (const p of players) {
+      const item = bySeat.get(p.seat)?.[i];
+      row.push(item ? item.celebrity_name : "");
+      row.push(item ? String(item.age) : "");
+      row.push(item?.celebrity_category ?? "");
+      row.push(item?.celebrity_nationality ?? "");
+      row.push(item?.celebrity_notes ?? "");
+      row.push(item?.celebrity_url ?? "");
+    }
+    lines.push(row.map(csvCell).join(","));
+  }
+
+  return lines.join("\n");
+}
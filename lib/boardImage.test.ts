@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import { boardImageGrid, boardImageLayout, gridPage, IMAGE_SIZES, parseImageSize } from "@/lib/boardImage";
+import type { BoardRow } from "@/lib/draftRepository";
+import { boardRow, players } from "@/lib/testFixtures";
+
+function row(pick: number, seat: number, age: number, extra: Partial<BoardRow> = {}): BoardRow {
+  return boardRow(pick, seat, { celebrity_age: age, ...extra });
+}
+
+// A draft `n` picks long, alternating seats.
+function draft(n: number) {
+  return Array.from({ length: n }, (_, i) => row(i + 1, (i % 2) + 1, 70 + (i % 20)));
+}
+
+describe("parseImageSize", () => {
+  it("takes presets and WIDTHxHEIGHT, defaulting to HD", () => {
+    expect(parseImageSize(null)).toEqual(IMAGE_SIZES.hd);
+    expect(parseImageSize("og")).toEqual({ width: 1200, height: 630 });
+    expect(parseImageSize("1600x900")).toEqual({ width: 1600, height: 900 });
+  });
+
+  it("rejects junk and sizes out of range", () => {
+    expect(parseImageSize("huge")).toBeNull();
+    expect(parseImageSize("100x100")).toBeNull();
+    expect(parseImageSize("5000x1000")).toBeNull();
+  });
+});
+
+describe("boardImageGrid", () => {
+  it("lays rosters out one column per player, oldest first", () => {
+    const grid = boardImageGrid("seats", [row(1, 1, 80), row(2, 2, 90), row(3, 1, 95)], players, "2026-01-10", IMAGE_SIZES.hd);
+    expect(grid.headers?.map((h) => h.label)).toEqual(["Ann", "Bo"]);
+    expect(grid.rows.map((r) => r.map((c) => c?.name ?? null))).toEqual([
+      ["Celeb 3", "Celeb 2"],
+      ["Celeb 1", null],
+    ]);
+    expect(grid.rows[0][0]?.latest).toBe(true);
+  });
+
+  it("numbers rounds down the side", () => {
+    const grid = boardImageGrid("rounds", draft(5), players, "2026-01-10", IMAGE_SIZES.hd);
+    expect(grid.rowLabels).toEqual(["1", "2", "3"]);
+    expect(grid.rows[2]).toEqual([expect.objectContaining({ name: "Celeb 5" }), null]);
+  });
+
+  it("flows the ticker newest first across columns that fit the width", () => {
+    const grid = boardImageGrid("ticker", draft(8), players, "2026-01-10", IMAGE_SIZES.og);
+    expect(grid.headers).toBeNull();
+    expect(grid.columns).toBe(3);
+    expect(grid.rows.map((r) => r.length)).toEqual([3, 3, 2]);
+    expect(grid.rows[0][0]).toMatchObject({ name: "#8 Celeb 8", detail: "77 · Bo", color: "#00f", latest: true });
+  });
+});
+
+describe("boardImageLayout", () => {
+  it("keeps a short board at full size on one page", () => {
+    const grid = boardImageGrid("seats", draft(6), players, "2026-01-10", IMAGE_SIZES.hd);
+    const layout = boardImageLayout(grid, IMAGE_SIZES.hd);
+    expect(layout.rowHeight).toBe(40);
+    expect(layout.pages).toBe(1);
+  });
+
+  it("shrinks rows before adding pages", () => {
+    const grid = boardImageGrid("seats", draft(60), players, "2026-01-10", IMAGE_SIZES.hd);
+    const layout = boardImageLayout(grid, IMAGE_SIZES.hd);
+    expect(layout.rowHeight).toBeLessThan(40);
+    expect(layout.rowHeight).toBeGreaterThanOrEqual(20);
+    expect(layout.pages).toBe(1);
+  });
+
+  it("pages a board too long to stay legible", () => {
+    const grid = boardImageGrid("seats", draft(200), players, "2026-01-10", IMAGE_SIZES.hd);
+    const layout = boardImageLayout(grid, IMAGE_SIZES.hd);
+    expect(layout.rowHeight).toBe(20);
+    expect(layout.pages).toBe(Math.ceil(100 / layout.rowsPerPage));
+
+    const last = gridPage(grid, layout, layout.pages);
+    expect(last.rows.length).toBe(100 - layout.rowsPerPage * (layout.pages - 1));
+    expect(last.headers).toEqual(grid.headers);
+  });
+});
@@ -0,0 +1,167 @@
+import { groupBySeat, pickTicker, roundGrid, type BoardView, type SeatRow } from "@/lib/board";
+import type { BoardRow } from "@/lib/draftRepository";
+import { seatToName, type Player } from "@/lib/league";
+
+/** One pick as drawn on the image. */
+export type BoardImageCell = {
+  name: string;
+  /** Right-hand detail: the age, or "87 · Ann" on the ticker. */
+  detail: string;
+  /** Colour bar for the ticker, where columns aren't players. */
+  color: string | null;
+  /** The most recent pick is highlighted. */
+  latest: boolean;
+};
+
+/**
+ * Any board view as a plain grid, so one renderer can shrink and page all
+ * three. Rosters and rounds have a column per player; the ticker flows the
+ * picks across a fixed number of columns, newest first.
+ */
+export type BoardImageGrid = {
+  headers: { label: string; color: string }[] | null;
+  /** Down the left of the rounds view ("1", "2", …). */
+  rowLabels: string[] | null;
+  columns: number;
+  rows: (BoardImageCell | null)[][];
+};
+
+export type ImageSize = { width: number; height: number };
+
+/** Response header carrying the page count, so the download button can fetch every page. */
+export const BOARD_PAGES_HEADER = "x-board-pages";
+
+/** Named sizes for the size= parameter; anything else is WIDTHxHEIGHT. */
+export const IMAGE_SIZES: Record<string, ImageSize> = {
+  hd: { width: 1920, height: 1080 },
+  "4k": { width: 3840, height: 2160 },
+  og: { width: 1200, height: 630 },
+  square: { width: 1080, height: 1080 },
+  portrait: { width: 1080, height: 1920 },
+};
+
+const MIN_SIDE = 320;
+const MAX_SIDE = 3840;
+
+/** "og", "hd" or e.g. "1600x900"; null for anything unknown or out of range. */
+export function parseImageSize(value: string | null): ImageSize | null {
+  if (!value) return IMAGE_SIZES.hd;
+  if (IMAGE_SIZES[value]) return IMAGE_SIZES[value];
+
+  const m = /^(\d{3,4})x(\d{3,4})$/.exec(value);
+  if (!m) return null;
+  const width = Number(m[1]);
+  const height = Number(m[2]);
+  const ok = (n: number) => n >= MIN_SIDE && n <= MAX_SIDE;
+  return ok(width) && ok(height) ? { width, height } : null;
+}
+
+// Roughly how wide a ticker column needs to be to fit a name and its detail.
+const TICKER_COLUMN_PX = 320;
+
+function cell(r: SeatRow, latest: number | null): BoardImageCell {
+  return { name: r.celebrity_name, detail: String(r.age), color: null, latest: r.pick_number === latest };
+}
+
+export function boardImageGrid(
+  view: BoardView,
+  rows: BoardRow[],
+  players: Player[],
+  asOf: string,
+  size: ImageSize
+): BoardImageGrid {
+  const latest = rows.reduce<number | null>((max, r) => (max === null || r.pick_number > max ? r.pick_number : max), null);
+  const headers = players.map((p) => ({ label: p.name, color: p.color }));
+
+  if (view === "rounds") {
+    const rounds = roundGrid(rows, players, asOf);
+    return {
+      headers,
+      rowLabels: rounds.map((r) => String(r.round)),
+      columns: players.length,
+      rows: rounds.map((r) =>
+        players.map((p) => {
+          const c = r.cells.get(p.seat);
+          return c ? cell(c, latest) : null;
+        })
+      ),
+    };
+  }
+
+  if (view === "ticker") {
+    const cols = Math.max(1, Math.min(6, Math.floor(size.width / TICKER_COLUMN_PX)));
+    const picks = pickTicker(rows, asOf).map((r) => ({
+      name: `#${r.pick_number} ${r.celebrity_name}`,
+      detail: `${r.age} · ${seatToName(players, r.owner_seat)}`,
+      color: players.find((p) => p.seat === r.owner_seat)?.color ?? null,
+      latest: r.pick_number === latest,
+    }));
+    const grid: BoardImageCell[][] = [];
+    for (let i = 0; i < picks.length; i += cols) grid.push(picks.slice(i, i + cols));
+    return { headers: null, rowLabels: null, columns: cols, rows: grid };
+  }
+
+  const bySeat = groupBySeat(rows, players, asOf);
+  const depth = Math.max(0, ...players.map((p) => (bySeat.get(p.seat) ?? []).length));
+  return {
+    headers,
+    rowLabels: null,
+    columns: players.length,
+    rows: Array.from({ length: depth }, (_, i) =>
+      players.map((p) => {
+        const c = bySeat.get(p.seat)?.[i];
+        return c ? cell(c, latest) : null;
+      })
+    ),
+  };
+}
+
+export type BoardImageLayout = {
+  padding: number;
+  titleSize: number;
+  headerHeight: number;
+  rowHeight: number;
+  fontSize: number;
+  rowsPerPage: number;
+  pages: number;
+};
+
+/**
+ * Sizes everything from the image size, then shrinks rows until the grid fits.
+ * Below a legible minimum it stops shrinking and splits the rows over pages.
+ */
+export function boardImageLayout(grid: BoardImageGrid, size: ImageSize): BoardImageLayout {
+  const scale = Math.min(size.width / 1920, size.height / 1080);
+  const padding = Math.max(16, Math.round(40 * scale));
+  const titleSize = Math.max(18, Math.round(32 * scale));
+  const headerHeight = grid.headers ? Math.max(24, Math.round(44 * scale)) : 0;
+
+  const maxRow = Math.max(20, Math.round(40 * scale));
+  const minRow = Math.max(14, Math.round(20 * scale));
+  const body = size.height - 2 * padding - Math.round(titleSize * 1.8) - headerHeight;
+
+  const count = Math.max(1, grid.rows.length);
+  const rowHeight = Math.max(minRow, Math.min(maxRow, Math.floor(body / count)));
+  const rowsPerPage = Math.max(1, Math.floor(body / rowHeight));
+
+  return {
+    padding,
+    titleSize,
+    headerHeight,
+    rowHeight,
+    fontSize: Math.max(10, Math.round(rowHeight * 0.55)),
+    rowsPerPage,
+    pages: Math.max(1, Math.ceil(grid.rows.length / rowsPerPage)),
+  };
+}
+
+/** The rows (and their labels) on a 1-based page. */
+export function gridPage(grid: BoardImageGrid, layout: BoardImageLayout, page: number): BoardImageGrid {
+  const start = (page - 1) * layout.rowsPerPage;
+  const end = start + layout.rowsPerPage;
+  return {
+    ...grid,
+    rowLabels: grid.rowLabels?.slice(start, end) ?? null,
+    rows: grid.rows.slice(start, end),
+  };
+}
@@ -0,0 +1,89 @@
+import { normalizeName } from "@/lib/celebrityImport";
+
+export type CelebritySort = "age_desc" | "age_asc" | "name" | "recent";
+
+export const CELEBRITY_SORTS: { sort: CelebritySort; label: string }[] = [
+  { sort: "age_desc", label: "Oldest" },
+  { sort: "age_asc", label: "Youngest" },
+  { sort: "name", label: "Name" },
+  { sort: "recent", label: "Recently added" },
+];
+
+export type CelebrityFilters = {
+  q: string;
+  minAge: number | null;
+  maxAge: number | null;
+  category: string | null;
+  sort: CelebritySort;
+};
+
+export type FilterableCelebrity = {
+  name: string;
+  age: number;
+  category: string | null;
+  created_at: string;
+};
+
+export const DEFAULT_FILTERS: CelebrityFilters = { q: "", minAge: null, maxAge: null, category: null, sort: "age_desc" };
+
+function intParam(value: string | null) {
+  if (value === null || value.trim() === "") return null;
+  const n = Number(value);
+  return Number.isInteger(n) && n >= 0 ? n : null;
+}
+
+/** Reads filters from the page URL; unknown or bad values fall back to defaults. */
+export function filtersFromParams(params: URLSearchParams): CelebrityFilters {
+  const sort = params.get("sort");
+  return {
+    q: params.get("q") ?? "",
+    minAge: intParam(params.get("min")),
+    maxAge: intParam(params.get("max")),
+    category: params.get("cat") || null,
+    sort: CELEBRITY_SORTS.some((s) => s.sort === sort) ? (sort as CelebritySort) : DEFAULT_FILTERS.sort,
+  };
+}
+
+/** Writes filters onto `base`, leaving defaults out so plain links stay clean. */
+export function filtersToParams(filters: CelebrityFilters, base?: URLSearchParams) {
+  const params = new URLSearchParams(base);
+  const set = (key: string, value: string | number | null) => {
+    if (value === null || value === "") params.delete(key);
+    else params.set(key, String(value));
+  };
+
+  set("q", filters.q);
+  set("min", filters.minAge);
+  set("max", filters.maxAge);
+  set("cat", filters.category);
+  set("sort", filters.sort === DEFAULT_FILTERS.sort ? null : filters.sort);
+  return params;
+}
+
+export function isFiltered(filters: CelebrityFilters) {
+  return !!filters.q.trim() || filters.minAge !== null || filters.maxAge !== null || filters.category !== null;
+}
+
+export function applyFilters<T extends FilterableCelebrity>(list: T[], filters: CelebrityFilters): T[] {
+  const q = normalizeName(filters.q);
+
+  const out = list.filter(
+    (c) =>
+      (!q || normalizeName(c.name).includes(q)) &&
+      (filters.minAge === null || c.age >= filters.minAge) &&
+      (filters.maxAge === null || c.age <= filters.maxAge) &&
+      (filters.category === null || c.category === filters.category)
+  );
+
+  const byName = (a: T, b: T) => a.name.localeCompare(b.name);
+  switch (filters.sort) {
+    case "age_asc":
+      return out.sort((a, b) => a.age - b.age || byName(a, b));
+    case "name":
+      return out.sort(byName);
+    case "recent":
+      return out.sort((a, b) => b.created_at.localeCompare(a.created_at) || byName(a, b));
+    default:
+      return out.sort((a, b) => b.age - a.age || byName(a, b));
+  }
+}
@@ -0,0 +1,200 @@
+import { describe, expect, it } from "vitest";
+import {
+  NEAR_DUPLICATE_THRESHOLD,
+  nameSimilarity,
+  normalizeBirthDate,
+  normalizeName,
+  parseImport,
+  parseImportRows,
+  planImport,
+  summarizePlan,
+  type ImportRow,
+  type PoolCelebrity,
+} from "@/lib/celebrityImport";
+
+function importRow(row: number, name: string, birthDate: string, extra: Partial<ImportRow> = {}): ImportRow {
+  return {
+    row,
+    name,
+    birth_date: birthDate,
+    category: null,
+    nationality: null,
+    notes: null,
+    reference_url: null,
+    photo_url: null,
+    ...extra,
+  };
+}
+
+function poolEntry(id: string, name: string, birthDate: string | null, extra: Partial<PoolCelebrity> = {}): PoolCelebrity {
+  return {
+    id,
+    name,
+    birth_date: birthDate,
+    category: null,
+    nationality: null,
+    notes: null,
+    reference_url: null,
+    photo_url: null,
+    ...extra,
+  };
+}
+
+const asOf = "2026-01-10";
+
+describe("parseImportRows", () => {
+  it("normalizes posted rows like the file parser does", () => {
+    const rows = parseImportRows([
+      { row: 3, name: "  Ann Smith ", birth_date: "1/2/1940", category: "actor", notes: " " },
+      { name: "Bo", birth_date: null },
+    ]);
+    expect(rows[0]).toMatchObject({ row: 3, name: "Ann Smith", birth_date: "1/2/1940", category: "Actor", notes: null });
+    expect(rows[1]).toMatchObject({ row: 2, name: "Bo", birth_date: "" });
+  });
+
+  it("rejects payloads that aren't rows of text", () => {
+    expect(() => parseImportRows("Ann")).toThrow("rows must be an array.");
+    expect(() => parseImportRows([null])).toThrow("Row 1 isn't an object.");
+    expect(() => parseImportRows([{ name: 42, birth_date: "1940-01-02" }])).toThrow("Row 1: name must be text.");
+    expect(() => parseImportRows([{ row: 7, name: "Ann", birth_date: 19400102 }])).toThrow("Row 7: birth_date must be text.");
+  });
+
+  it("leaves bad date strings for the plan to report", () => {
+    const [planned] = planImport(parseImportRows([{ name: "Ann", birth_date: "2/30/1940" }]), [], { asOf });
+    expect(planned).toMatchObject({ action: "skip", issue: "invalid" });
+  });
+});
+
+describe("parseImport", () => {
+  it("reads CSV with quoted commas, doubled quotes, newlines and header aliases", () => {
+    const rows = parseImport(
+      'Full Name,DOB,Wikipedia,Notes\r\n"Smith, Jr., Al",6/1/1940,https://example.com/al,"Said ""hi""\nonce"\r\n\r\nBo,1950-02-03,,\n'
+    );
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toMatchObject({
+      row: 1,
+      name: "Smith, Jr., Al",
+      birth_date: "6/1/1940",
+      reference_url: "https://example.com/al",
+      notes: 'Said "hi"\nonce',
+    });
+    expect(rows[1]).toMatchObject({ row: 2, name: "Bo", birth_date: "1950-02-03", reference_url: null, notes: null });
+  });
+
+  it("needs a name column in CSV", () => {
+    expect(() => parseImport("dob\n1940-01-01")).toThrow('CSV needs a "name" column.');
+  });
+
+  it("reads a JSON array or a { celebrities } object", () => {
+    expect(parseImport('[{"name":"Al","born":"1940-01-02"}]')[0]).toMatchObject({ name: "Al", birth_date: "1940-01-02" });
+    expect(parseImport('{"celebrities":[{"celebrity":"Bo","dob":"1950-02-03"}]}')[0]).toMatchObject({ name: "Bo" });
+    expect(() => parseImport("[oops")).toThrow("That isn't valid JSON.");
+  });
+});
+
+describe("normalizeBirthDate", () => {
+  it("takes ISO and US dates, and only real ones", () => {
+    expect(normalizeBirthDate("1940-06-01")).toBe("1940-06-01");
+    expect(normalizeBirthDate(" 6/1/1940 ")).toBe("1940-06-01");
+    expect(normalizeBirthDate("1940-02-30")).toBeNull();
+    expect(normalizeBirthDate("June 1, 1940")).toBeNull();
+  });
+});
+
+describe("nameSimilarity", () => {
+  it("ignores word order and scores near spellings high", () => {
+    expect(nameSimilarity(normalizeName("Smith, John"), normalizeName("John Smith"))).toBe(1);
+    expect(nameSimilarity("jon smith", "john smith")).toBeGreaterThanOrEqual(NEAR_DUPLICATE_THRESHOLD);
+    expect(nameSimilarity("al smith", "bo jones")).toBeLessThan(NEAR_DUPLICATE_THRESHOLD);
+  });
+});
+
+describe("planImport", () => {
+  it("adds new celebrities with their age as of the draft date", () => {
+    const [planned] = planImport([importRow(1, "Al", "6/1/1940")], [], { asOf });
+    expect(planned).toMatchObject({ action: "add", issue: null, birth_date: "1940-06-01", age: 85 });
+  });
+
+  it("merges exact matches that bring new details, and skips ones that don't", () => {
+    const pool = [
+      poolEntry("p1", "José Díaz", null),
+      poolEntry("p2", "Bo Jones", "1950-02-03"),
+      poolEntry("p3", "Cy Young", "1945-03-04"),
+    ];
+    const plan = planImport(
+      [
+        importRow(1, "jose diaz", "1940-06-01"),
+        importRow(2, "Bo Jones", "1950-02-03", { category: "Actor", notes: "Retired" }),
+        importRow(3, "Cy Young", "1945-03-04"),
+      ],
+      pool,
+      { asOf }
+    );
+
+    expect(plan[0]).toMatchObject({ action: "merge", message: "Fills in birth date.", match: { id: "p1" } });
+    expect(plan[1]).toMatchObject({ action: "merge", message: "Fills in category, notes." });
+    expect(plan[2]).toMatchObject({ action: "skip", issue: "duplicate", match: { id: "p3" } });
+  });
+
+  it("skips an exact match whose birth date disagrees with the pool", () => {
+    const [planned] = planImport([importRow(1, "Al", "1940-06-01")], [poolEntry("p1", "Al", "1941-06-01")], { asOf });
+    expect(planned).toMatchObject({
+      action: "skip",
+      issue: "conflict",
+      message: "Already in the pool with birth date 1941-06-01.",
+    });
+  });
+
+  it("holds back near-duplicates unless their row is added anyway", () => {
+    const pool = [poolEntry("p1", "John Smith", "1940-06-01")];
+    const rows = [importRow(4, "Jon Smith", "1941-01-01")];
+
+    expect(planImport(rows, pool, { asOf })[0]).toMatchObject({
+      action: "skip",
+      issue: "near_duplicate",
+      message: "Looks like John Smith (born 1940-06-01).",
+      match: { id: "p1" },
+    });
+    expect(planImport(rows, pool, { asOf, addAnyway: [4] })[0]).toMatchObject({ action: "add", issue: "near_duplicate" });
+  });
+
+  it("skips a name repeated within the batch", () => {
+    const plan = planImport([importRow(1, "Al Smith", "1940-06-01"), importRow(2, "AL  SMITH", "1940-06-01")], [], { asOf });
+    expect(plan.map((p) => p.action)).toEqual(["add", "skip"]);
+    expect(plan[1]).toMatchObject({ issue: "repeated", message: "Same as row 1." });
+  });
+
+  it("reports rows it can't use", () => {
+    const plan = planImport(
+      [
+        importRow(1, "", "1940-06-01"),
+        importRow(2, "Al", ""),
+        importRow(3, "Bo", "2027-01-01"),
+        importRow(4, "Cy", "1900-01-01"),
+        importRow(5, "Di", "1940-06-01", { reference_url: "javascript:alert(1)" }),
+      ],
+      [],
+      { asOf }
+    );
+
+    expect(plan.every((p) => p.action === "skip" && p.issue === "invalid")).toBe(true);
+    expect(plan.map((p) => p.message)).toEqual([
+      "Missing name.",
+      "Missing birth date.",
+      "Born after 2026-01-10.",
+      "Age 126 is over 120.",
+      "Link must be an http(s) URL.",
+    ]);
+  });
+});
+
+describe("summarizePlan", () => {
+  it("counts rows by action", () => {
+    const plan = planImport(
+      [importRow(1, "Al", "1940-06-01"), importRow(2, "Al", "1940-06-01"), importRow(3, "Bo", "1950-02-03")],
+      [],
+      { asOf }
+    );
+    expect(summarizePlan(plan)).toEqual({ add: 2, merge: 0, skip: 1 });
+  });
+});
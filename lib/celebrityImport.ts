@@ -0,0 +1,338 @@
+import { ageOn, parseIsoDate } from "@/lib/age";
+import { PROFILE_FIELDS, normalizeCategory, safeUrl, type CelebrityProfile } from "@/lib/celebrityProfile";
+
+/** One row of an import file, before validation. */
+export type ImportRow = CelebrityProfile & {
+  /** 1-based position in the file, for the report. */
+  row: number;
+  name: string;
+  birth_date: string;
+};
+
+/** The slice of an existing pool entry the importer compares against. */
+export type PoolCelebrity = CelebrityProfile & {
+  id: string;
+  name: string;
+  birth_date: string | null;
+};
+
+export type ImportAction = "add" | "merge" | "skip";
+
+export type ImportIssue = "invalid" | "duplicate" | "conflict" | "near_duplicate" | "repeated";
+
+export type PlannedRow = ImportRow & {
+  action: ImportAction;
+  issue: ImportIssue | null;
+  message: string | null;
+  /** Pool (or earlier batch) entry this row collided with. */
+  match: { id: string | null; name: string } | null;
+  /** Age as of the reference date, when the birth date is valid. */
+  age: number | null;
+};
+
+export type ImportSummary = Record<ImportAction, number>;
+
+export const MAX_IMPORT_ROWS = 2000;
+export const MAX_AGE = 120;
+export const NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+const COLUMN_ALIASES: Record<string, keyof Omit<ImportRow, "row">> = {
+  name: "name",
+  celebrity: "name",
+  full_name: "name",
+  birth_date: "birth_date",
+  birthdate: "birth_date",
+  date_of_birth: "birth_date",
+  dob: "birth_date",
+  born: "birth_date",
+  category: "category",
+  nationality: "nationality",
+  country: "nationality",
+  notes: "notes",
+  note: "notes",
+  reference_url: "reference_url",
+  url: "reference_url",
+  link: "reference_url",
+  wikipedia: "reference_url",
+  photo_url: "photo_url",
+  photo: "photo_url",
+  image: "photo_url",
+};
+
+function columnKey(header: string) {
+  return COLUMN_ALIASES[header.trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "")];
+}
+
+function blankToNull(value: unknown) {
+  const s = value === null || value === undefined ? "" : String(value).trim();
+  return s ? s : null;
+}
+
+function toRow(row: number, record: Partial<Record<keyof Omit<ImportRow, "row">, unknown>>): ImportRow {
+  return {
+    row,
+    name: String(record.name ?? "").trim(),
+    birth_date: String(record.birth_date ?? "").trim(),
+    category: normalizeCategory(blankToNull(record.category)),
+    nationality: blankToNull(record.nationality),
+    notes: blankToNull(record.notes),
+    reference_url: blankToNull(record.reference_url),
+    photo_url: blankToNull(record.photo_url),
+  };
+}
+
+/** RFC 4180-style CSV: quoted fields, doubled quotes, embedded newlines. */
+function parseCsvRecords(text: string) {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  return records.filter((r) => r.some((f) => f.trim()));
+}
+
+function parseCsv(text: string): ImportRow[] {
+  const [header, ...body] = parseCsvRecords(text);
+  if (!header) return [];
+
+  const keys = header.map(columnKey);
+  if (!keys.includes("name")) throw new Error('CSV needs a "name" column.');
+
+  return body.map((fields, i) => {
+    const record: Partial<Record<keyof Omit<ImportRow, "row">, unknown>> = {};
+    keys.forEach((key, col) => {
+      if (key) record[key] = fields[col];
+    });
+    return toRow(i + 1, record);
+  });
+}
+
+function parseJson(text: string): ImportRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("That isn't valid JSON.");
+  }
+
+  const list = Array.isArray(data) ? data : (data as { celebrities?: unknown })?.celebrities;
+  if (!Array.isArray(list)) throw new Error("JSON must be an array of celebrities.");
+
+  return list.map((item, i) => {
+    const record: Partial<Record<keyof Omit<ImportRow, "row">, unknown>> = {};
+    if (item && typeof item === "object") {
+      for (const [k, v] of Object.entries(item)) {
+        const key = columnKey(k);
+        if (key) record[key] = v;
+      }
+    }
+    return toRow(i + 1, record);
+  });
+}
+
+/** Parses CSV (with a header row) or JSON, picking by the first character. */
+export function parseImport(text: string): ImportRow[] {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  const rows = trimmed.startsWith("[") || trimmed.startsWith("{") ? parseJson(trimmed) : parseCsv(trimmed);
+  if (rows.length > MAX_IMPORT_ROWS) throw new Error(`Import at most ${MAX_IMPORT_ROWS} rows at a time.`);
+  return rows;
+}
+
+const TEXT_FIELDS = ["name", "birth_date", ...PROFILE_FIELDS] as const;
+
+/**
+ * Checks rows posted to the import route (already run through `parseImport`
+ * in the browser, but not to be trusted) and normalizes them the same way.
+ * Throws, naming the first bad row, unless every row is an object of text.
+ */
+export function parseImportRows(data: unknown): ImportRow[] {
+  if (!Array.isArray(data)) throw new Error("rows must be an array.");
+  if (data.length > MAX_IMPORT_ROWS) throw new Error(`Import at most ${MAX_IMPORT_ROWS} rows at a time.`);
+
+  return data.map((item, i) => {
+    if (!item || typeof item !== "object" || Array.isArray(item)) throw new Error(`Row ${i + 1} isn't an object.`);
+
+    const record = item as Record<string, unknown>;
+    const row = Number.isInteger(record.row) && (record.row as number) > 0 ? (record.row as number) : i + 1;
+    for (const field of TEXT_FIELDS) {
+      const value = record[field];
+      if (value !== undefined && value !== null && typeof value !== "string") {
+        throw new Error(`Row ${row}: ${field} must be text.`);
+      }
+    }
+    return toRow(row, record);
+  });
+}
+
+/** Accepts YYYY-MM-DD or US-style M/D/YYYY and returns YYYY-MM-DD. */
+export function normalizeBirthDate(value: string) {
+  const v = value.trim();
+  if (parseIsoDate(v)) return v;
+
+  const us = /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/.exec(v);
+  if (!us) return null;
+
+  const iso = `${us[3]}-${us[1].padStart(2, "0")}-${us[2].padStart(2, "0")}`;
+  return parseIsoDate(iso) ? iso : null;
+}
+
+/** Lowercase, accent-free, punctuation-free, single-spaced. */
+export function normalizeName(name: string) {
+  return name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string) {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/**
+ * 0–1 similarity of two normalized names. Word order is ignored, so
+ * "Smith, John" and "John Smith" score 1.
+ */
+export function nameSimilarity(a: string, b: string) {
+  const sa = a.split(" ").sort().join(" ");
+  const sb = b.split(" ").sort().join(" ");
+  if (sa === sb) return 1;
+
+  const longest = Math.max(sa.length, sb.length);
+  return longest === 0 ? 1 : 1 - levenshtein(sa, sb) / longest;
+}
+
+function validate(row: ImportRow, asOf: string): { birthDate: string; age: number } | string {
+  if (!row.name) return "Missing name.";
+  if (!row.birth_date) return "Missing birth date.";
+
+  const birthDate = normalizeBirthDate(row.birth_date);
+  if (!birthDate) return `Birth date "${row.birth_date}" isn't a real YYYY-MM-DD or M/D/YYYY date.`;
+
+  if (row.reference_url && !safeUrl(row.reference_url)) return "Link must be an http(s) URL.";
+  if (row.photo_url && !safeUrl(row.photo_url)) return "Photo must be an http(s) URL.";
+
+  const age = ageOn(birthDate, asOf);
+  if (age === null || birthDate > asOf) return `Born after ${asOf}.`;
+  if (age > MAX_AGE) return `Age ${age} is over ${MAX_AGE}.`;
+
+  return { birthDate, age };
+}
+
+/**
+ * Decides what happens to each row against the existing pool, as of `asOf`
+ * (the draft date). Exact name matches merge missing details into the pool
+ * entry, or are skipped when they bring nothing new or the birth dates
+ * disagree. Near-duplicates are skipped unless their row is in `addAnyway`.
+ */
+export function planImport(
+  rows: ImportRow[],
+  pool: PoolCelebrity[],
+  options: { asOf: string; addAnyway?: number[] }
+): PlannedRow[] {
+  const addAnyway = new Set(options.addAnyway ?? []);
+  const known = pool.map((c) => ({ ...c, key: normalizeName(c.name) }));
+  const byKey = new Map(known.map((c) => [c.key, c]));
+  const seen = new Map<string, ImportRow>();
+
+  return rows.map((row): PlannedRow => {
+    const skip = (issue: ImportIssue, message: string, match: PlannedRow["match"] = null, age: number | null = null) =>
+      ({ ...row, action: "skip", issue, message, match, age }) satisfies PlannedRow;
+
+    const valid = validate(row, options.asOf);
+    if (typeof valid === "string") return skip("invalid", valid);
+
+    const { birthDate, age } = valid;
+    const clean = { ...row, birth_date: birthDate };
+    const key = normalizeName(row.name);
+
+    const earlier = seen.get(key);
+    if (earlier) return skip("repeated", `Same as row ${earlier.row}.`, { id: null, name: earlier.name }, age);
+    seen.set(key, clean);
+
+    const exact = byKey.get(key);
+    if (exact) {
+      const match = { id: exact.id, name: exact.name };
+      if (exact.birth_date && exact.birth_date !== birthDate) {
+        return skip("conflict", `Already in the pool with birth date ${exact.birth_date}.`, match, age);
+      }
+
+      const fills = [
+        !exact.birth_date ? "birth date" : null,
+        ...PROFILE_FIELDS.map((f) => (!exact[f] && clean[f] ? f.replace("_", " ") : null)),
+      ].filter((f): f is string => f !== null);
+      if (fills.length === 0) return skip("duplicate", "Already in the pool.", match, age);
+
+      return { ...clean, action: "merge", issue: "duplicate", message: `Fills in ${fills.join(", ")}.`, match, age };
+    }
+
+    let near: (typeof known)[number] | null = null;
+    let best = 0;
+    for (const c of known) {
+      const score = nameSimilarity(key, c.key);
+      if (score >= NEAR_DUPLICATE_THRESHOLD && score > best) {
+        near = c;
+        best = score;
+      }
+    }
+
+    if (near) {
+      const match = { id: near.id, name: near.name };
+      const message = `Looks like ${near.name}${near.birth_date ? ` (born ${near.birth_date})` : ""}.`;
+      if (!addAnyway.has(row.row)) return skip("near_duplicate", message, match, age);
+      return { ...clean, action: "add", issue: "near_duplicate", message, match, age };
+    }
+
+    return { ...clean, action: "add", issue: null, message: null, match: null, age };
+  });
+}
+
+export function summarizePlan(plan: PlannedRow[]): ImportSummary {
+  const summary: ImportSummary = { add: 0, merge: 0, skip: 0 };
+  for (const p of plan) summary[p.action] += 1;
+  return summary;
+}
@@ -0,0 +1,46 @@
+/** Optional details kept alongside a celebrity's name and birth date. */
+export type CelebrityProfile = {
+  category: string | null;
+  nationality: string | null;
+  notes: string | null;
+  reference_url: string | null;
+  photo_url: string | null;
+};
+
+export const PROFILE_FIELDS = ["category", "nationality", "notes", "reference_url", "photo_url"] as const;
+
+/** Known categories; anything else is kept as typed. */
+export const CELEBRITY_CATEGORIES = ["Actor", "Musician", "Athlete", "Politician", "Business", "TV", "Writer", "Royalty"];
+
+/** Folds "actor" and "ACTOR" into "Actor" so the pick list filter groups them. */
+export function normalizeCategory(value: string | null) {
+  if (!value) return null;
+  const v = value.trim();
+  return CELEBRITY_CATEGORIES.find((c) => c.toLowerCase() === v.toLowerCase()) ?? v;
+}
+
+/** Only http(s) links are rendered, so an imported "javascript:" URL can't run. */
+export function safeUrl(value: string | null | undefined) {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.toString() : null;
+  } catch {
+    return null;
+  }
+}
+
+/** "Actor · American", or null when neither is known. */
+export function profileSummary(p: Pick<CelebrityProfile, "category" | "nationality">) {
+  const parts = [p.category, p.nationality].filter((v): v is string => !!v);
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
+
+export function hasProfile(p: CelebrityProfile) {
+  return !!(p.category || p.nationality || p.notes || safeUrl(p.reference_url) || safeUrl(p.photo_url));
+}
+
+/** Hover text for compact lists like the board. */
+export function profileTooltip(name: string, p: CelebrityProfile) {
+  return [name, profileSummary(p), p.notes].filter((v): v is string => !!v).join("\n");
+}
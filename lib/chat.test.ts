@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { chatFeed, reactionsByPick, type ChatMessage, type Reaction } from "@/lib/chat";
+import type { BoardRow } from "@/lib/draftRepository";
+import { boardRow } from "@/lib/testFixtures";
+
+function pick(n: number, pickedAt: string): BoardRow {
+  return boardRow(n, 1, { picked_at: pickedAt });
+}
+
+function message(id: number, seat: number, at: string, body = "hi"): ChatMessage {
+  return { id, season: 2026, seat, body, created_at: at };
+}
+
+function reaction(pickNumber: number, seat: number, emoji: string): Reaction {
+  return { season: 2026, pick_number: pickNumber, seat, emoji, created_at: "2026-01-10T20:05:00Z" };
+}
+
+describe("reactionsByPick", () => {
+  it("groups seats per emoji in palette order", () => {
+    const byPick = reactionsByPick([reaction(1, 2, "😂"), reaction(1, 3, "💀"), reaction(1, 1, "😂"), reaction(2, 1, "🔥")]);
+    expect(byPick.get(1)).toEqual([
+      { emoji: "💀", seats: [3] },
+      { emoji: "😂", seats: [1, 2] },
+    ]);
+    expect(byPick.get(2)).toEqual([{ emoji: "🔥", seats: [1] }]);
+  });
+});
+
+describe("chatFeed", () => {
+  it("interleaves messages and picks by time, picks first on a tie", () => {
+    const feed = chatFeed(
+      [message(1, 2, "2026-01-10T20:01:00Z"), message(2, 1, "2026-01-10T20:00:00Z")],
+      [pick(1, "2026-01-10T20:00:00Z"), pick(2, "2026-01-10T20:02:00Z")],
+      [reaction(1, 2, "💀")]
+    );
+    expect(feed.map((f) => (f.kind === "pick" ? `p${f.pick.pick_number}` : `m${f.message.id}`))).toEqual([
+      "p1",
+      "m2",
+      "m1",
+      "p2",
+    ]);
+    expect(feed[0]).toMatchObject({ kind: "pick", reactions: [{ emoji: "💀", seats: [2] }] });
+  });
+
+  it("keeps only the latest items", () => {
+    const messages = Array.from({ length: 10 }, (_, i) => message(i, 1, `2026-01-10T20:0${i}:00Z`));
+    const feed = chatFeed(messages, [], [], 3);
+    expect(feed.map((f) => (f.kind === "message" ? f.message.id : null))).toEqual([7, 8, 9]);
+  });
+});
@@ -0,0 +1,102 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import type { BoardRow } from "@/lib/draftRepository";
+
+/** Must match the check on death_draft_reactions.emoji. */
+export const REACTION_EMOJI = ["💀", "⚰️", "😂", "🔥", "🤡", "👀"] as const;
+
+export const CHAT_MAX_LENGTH = 500;
+
+export type ChatMessage = {
+  id: number;
+  season: number;
+  seat: number;
+  body: string;
+  created_at: string;
+};
+
+export type Reaction = {
+  season: number;
+  pick_number: number;
+  seat: number;
+  emoji: string;
+  created_at: string;
+};
+
+export type ReactionCount = { emoji: string; seats: number[] };
+
+/** One line of the chat feed: a message, or a pick with its reactions. */
+export type FeedItem =
+  | { kind: "message"; at: string; message: ChatMessage }
+  | { kind: "pick"; at: string; pick: BoardRow; reactions: ReactionCount[] };
+
+/** The latest `limit` messages of a season, oldest first. */
+export async function fetchChat(year: number, limit = 200, client: SupabaseClient = supabase): Promise<ChatMessage[]> {
+  const { data, error } = await client
+    .from("death_draft_chat")
+    .select("id, season, seat, body, created_at")
+    .eq("season", year)
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return ((data ?? []) as ChatMessage[]).reverse();
+}
+
+export async function fetchReactions(year: number, client: SupabaseClient = supabase): Promise<Reaction[]> {
+  const { data, error } = await client
+    .from("death_draft_reactions")
+    .select("season, pick_number, seat, emoji, created_at")
+    .eq("season", year);
+  if (error) throw error;
+  return (data ?? []) as Reaction[];
+}
+
+/** Reactions grouped by pick, each emoji in `REACTION_EMOJI` order with the seats that used it. */
+export function reactionsByPick(reactions: Reaction[]): Map<number, ReactionCount[]> {
+  const byPick = new Map<number, Map<string, number[]>>();
+  for (const r of reactions) {
+    const emojis = byPick.get(r.pick_number) ?? new Map<string, number[]>();
+    emojis.set(r.emoji, [...(emojis.get(r.emoji) ?? []), r.seat]);
+    byPick.set(r.pick_number, emojis);
+  }
+
+  const order = (e: string) => {
+    const i = (REACTION_EMOJI as readonly string[]).indexOf(e);
+    return i === -1 ? REACTION_EMOJI.length : i;
+  };
+
+  return new Map(
+    Array.from(byPick, ([pick, emojis]) => [
+      pick,
+      Array.from(emojis, ([emoji, seats]) => ({ emoji, seats: seats.sort((a, b) => a - b) })).sort(
+        (a, b) => order(a.emoji) - order(b.emoji)
+      ),
+    ])
+  );
+}
+
+/**
+ * Messages and picks interleaved by time, oldest first, trimmed to the last
+ * `limit` items. Picks carry their reactions so the feed can show them inline.
+ */
+export function chatFeed(
+  messages: ChatMessage[],
+  picks: BoardRow[],
+  reactions: Reaction[],
+  limit = 100
+): FeedItem[] {
+  const byPick = reactionsByPick(reactions);
+  const items: FeedItem[] = [
+    ...messages.map((m) => ({ kind: "message" as const, at: m.created_at, message: m })),
+    ...picks.map((p) => ({
+      kind: "pick" as const,
+      at: p.picked_at,
+      pick: p,
+      reactions: byPick.get(p.pick_number) ?? [],
+    })),
+  ];
+
+  // Same timestamp: picks first, so a reaction-worthy pick isn't buried under replies to it.
+  items.sort((a, b) => Date.parse(a.at) - Date.parse(b.at) || (a.kind === b.kind ? 0 : a.kind === "pick" ? -1 : 1));
+  return items.slice(-limit);
+}
@@ -0,0 +1,13 @@
+import { timingSafeEqual } from "crypto";
+
+export const COMMISSIONER_HEADER = "x-commissioner-secret";
+
+export function isCommissioner(req: Request) {
+  const expected = process.env.COMMISSIONER_SECRET;
+  const given = req.headers.get(COMMISSIONER_HEADER);
+  if (!expected || !given) return false;
+
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
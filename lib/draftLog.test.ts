@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { buildDraftLog, draftLogCsv, missingSeats, parseDraftLog, type DraftLog } from "@/lib/draftLog";
+import type { BoardRow } from "@/lib/draftRepository";
+import type { Season } from "@/lib/season";
+import { boardRow, players } from "@/lib/testFixtures";
+
+const season: Season = {
+  year: 2026,
+  is_current: true,
+  draft_date: "2026-01-10",
+  order_mode: "snake",
+  order_seed: null,
+  order_seats: [2, 1],
+  pick_clock_seconds: 90,
+};
+
+function id(n: number) {
+  return `00000000-0000-4000-8000-${String(n).padStart(12, "0")}`;
+}
+
+function row(pick: number, seat: number, name: string, extra: Partial<BoardRow> = {}): BoardRow {
+  return boardRow(pick, seat, {
+    celebrity_id: id(pick),
+    celebrity_name: name,
+    celebrity_age: 80 + pick,
+    celebrity_category: "Actor",
+    picked_at: `2026-01-10T20:0${pick}:00Z`,
+    ...extra,
+  });
+}
+
+function sample(): DraftLog {
+  return buildDraftLog({
+    season,
+    players,
+    order: { mode: "snake", seats: [2, 1] },
+    state: { id: 1, season: 2026, turn_seat: 2, pick_number: 3, updated_at: "2026-01-10T20:04:00Z", skipped_slots: 0 },
+    // Out of order on purpose; the log is always in pick order.
+    board: [row(3, 2, "Cy, Jr."), row(1, 2, "Al"), row(2, 1, "Di", { owner_seat: 2, auto_pick: true })],
+    exportedAt: "2026-01-10T21:00:00Z",
+  });
+}
+
+// What an uploaded file looks like after JSON.parse.
+function roundTrip(log: DraftLog): unknown {
+  return JSON.parse(JSON.stringify(log));
+}
+
+describe("buildDraftLog", () => {
+  it("keeps every pick, timestamp and owner, in pick order", () => {
+    const log = sample();
+    expect(log.picks.map((p) => [p.pick_number, p.seat, p.owner_seat, p.auto_pick])).toEqual([
+      [1, 2, 2, false],
+      [2, 1, 2, true],
+      [3, 2, 2, false],
+    ]);
+    expect(log.picks[1].picked_at).toBe("2026-01-10T20:02:00Z");
+    expect(log.celebrities.map((c) => c.name)).toEqual(["Al", "Di", "Cy, Jr."]);
+    expect(log.state).toEqual({ turn_seat: 2, pick_number: 3, updated_at: "2026-01-10T20:04:00Z", skipped_slots: 0 });
+    expect(log.season).toMatchObject({ order_mode: "snake", order_seats: [2, 1], pick_clock_seconds: 90 });
+  });
+});
+
+describe("draftLogCsv", () => {
+  it("writes one line per pick with rounds and names", () => {
+    const lines = draftLogCsv(sample()).split("\n");
+    expect(lines).toHaveLength(4);
+    expect(lines[0]).toBe(
+      "pick_number,round,seat,player,owner_seat,owner,celebrity_id,celebrity,birth_date,age,category,picked_at,auto_pick"
+    );
+    expect(lines[2]).toBe(`2,1,1,Ann,2,Bo,${id(2)},Di,,82,Actor,2026-01-10T20:02:00Z,true`);
+    expect(lines[3]).toContain(`,2,2,Bo,2,Bo,${id(3)},"Cy, Jr.",`);
+  });
+
+  it("counts rounds by order slot once a turn was skipped", () => {
+    const log = sample();
+    log.picks[1].skipped_slots = 1;
+    expect(draftLogCsv(log).split("\n")[2]).toMatch(/^2,2,1,Ann,/);
+  });
+});
+
+describe("parseDraftLog", () => {
+  it("accepts its own export", () => {
+    const { log, errors } = parseDraftLog(roundTrip(sample()));
+    expect(errors).toEqual([]);
+    expect(log?.picks).toHaveLength(3);
+  });
+
+  it("accepts an export from before the first pick", () => {
+    const log = { ...sample(), picks: [], celebrities: [], state: null };
+    expect(parseDraftLog(roundTrip(log)).errors).toEqual([]);
+  });
+
+  it("rejects files that aren't draft logs", () => {
+    expect(parseDraftLog([]).errors).toEqual(["Not a draft log export."]);
+    expect(parseDraftLog({ ...sample(), version: 2 }).errors).toEqual(["Unsupported draft log version 2."]);
+  });
+
+  it("reports gaps, repeats, unknown seats and a mismatched state", () => {
+    const log = roundTrip(sample()) as DraftLog;
+    log.picks[1].pick_number = 5;
+    log.picks[2].celebrity_id = log.picks[0].celebrity_id;
+    log.picks[2].owner_seat = 9;
+    log.state!.pick_number = 4;
+
+    const { log: parsed, errors } = parseDraftLog(log);
+    expect(parsed).toBeNull();
+    expect(errors).toEqual([
+      "Pick 2 is numbered 5; picks must run 1..n in order.",
+      "Pick 3 is owned by a seat that isn't on the roster.",
+      "Pick 3 drafts a celebrity already taken earlier.",
+      "The state says 4 picks were made, but the file has 3.",
+    ]);
+  });
+
+  it("requires every drafted celebrity to be in the file", () => {
+    const log = roundTrip(sample()) as DraftLog;
+    log.celebrities.pop();
+    expect(parseDraftLog(log).errors).toEqual(["Pick 3's celebrity is missing from the file."]);
+  });
+});
+
+describe("missingSeats", () => {
+  it("lists seats the live roster lacks", () => {
+    expect(missingSeats(sample(), [players[0]])).toEqual(["Seat 2 (Bo)"]);
+    expect(missingSeats(sample(), players)).toEqual([]);
+  });
+});
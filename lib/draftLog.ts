@@ -0,0 +1,264 @@
+import { csvCell } from "@/lib/board";
+import type { CelebrityProfile } from "@/lib/celebrityProfile";
+import { DRAFT_ORDER_MODES, roundOfPick, type DraftOrder } from "@/lib/draftOrder";
+import type { BoardRow, DraftState } from "@/lib/draftRepository";
+import { seatToName, type Player } from "@/lib/league";
+import type { Season } from "@/lib/season";
+
+export const DRAFT_LOG_FORMAT = "death-draft-log";
+export const DRAFT_LOG_VERSION = 1;
+
+/** A drafted celebrity as it was in the pool, so a restore can re-create it. */
+export type DraftLogCelebrity = CelebrityProfile & {
+  id: string;
+  name: string;
+  age: number;
+  birth_date: string | null;
+};
+
+export type DraftLogPick = {
+  pick_number: number;
+  /** Seat that made the pick. */
+  seat: number;
+  /** Seat that holds it now (differs after a trade). */
+  owner_seat: number;
+  celebrity_id: string;
+  picked_at: string;
+  auto_pick: boolean;
+  /** Missing from logs exported before picks recorded their skip count. */
+  skipped_slots?: number;
+};
+
+/**
+ * Everything needed to put a season's draft back exactly as it was: the
+ * season's order settings, the roster, each pick and death_draft_state.
+ */
+export type DraftLog = {
+  format: typeof DRAFT_LOG_FORMAT;
+  version: typeof DRAFT_LOG_VERSION;
+  exported_at: string;
+  season: Pick<Season, "year" | "draft_date" | "order_mode" | "order_seed" | "order_seats" | "pick_clock_seconds">;
+  players: Player[];
+  /** The order as resolved against the roster at export time. */
+  order: DraftOrder;
+  /** `skipped_slots` is missing from logs exported before skips were counted. */
+  state: (Pick<DraftState, "turn_seat" | "pick_number" | "updated_at"> & { skipped_slots?: number }) | null;
+  picks: DraftLogPick[];
+  celebrities: DraftLogCelebrity[];
+};
+
+export function buildDraftLog(opts: {
+  season: Season;
+  players: Player[];
+  order: DraftOrder;
+  state: DraftState | null;
+  board: BoardRow[];
+  exportedAt?: string;
+}): DraftLog {
+  const { season, players, order, state, board } = opts;
+  const rows = board.slice().sort((a, b) => a.pick_number - b.pick_number);
+
+  return {
+    format: DRAFT_LOG_FORMAT,
+    version: DRAFT_LOG_VERSION,
+    exported_at: opts.exportedAt ?? new Date().toISOString(),
+    season: {
+      year: season.year,
+      draft_date: season.draft_date,
+      order_mode: season.order_mode,
+      order_seed: season.order_seed,
+      order_seats: season.order_seats,
+      pick_clock_seconds: season.pick_clock_seconds,
+    },
+    players,
+    order,
+    state: state
+      ? {
+          turn_seat: state.turn_seat,
+          pick_number: state.pick_number,
+          updated_at: state.updated_at,
+          skipped_slots: state.skipped_slots ?? 0,
+        }
+      : null,
+    picks: rows.map((r) => ({
+      pick_number: r.pick_number,
+      seat: r.seat,
+      owner_seat: r.owner_seat,
+      celebrity_id: r.celebrity_id,
+      picked_at: r.picked_at,
+      auto_pick: r.auto_pick,
+      skipped_slots: r.skipped_slots,
+    })),
+    celebrities: rows.map((r) => ({
+      id: r.celebrity_id,
+      name: r.celebrity_name,
+      age: r.celebrity_age,
+      birth_date: r.celebrity_birth_date,
+      category: r.celebrity_category,
+      nationality: r.celebrity_nationality,
+      notes: r.celebrity_notes,
+      reference_url: r.celebrity_url,
+      photo_url: r.celebrity_photo_url,
+    })),
+  };
+}
+
+/** One line per pick, for spreadsheets. The JSON is the file to keep for restores. */
+export function draftLogCsv(log: DraftLog) {
+  const celebs = new Map(log.celebrities.map((c) => [c.id, c]));
+  const headers = [
+    "pick_number",
+    "round",
+    "seat",
+    "player",
+    "owner_seat",
+    "owner",
+    "celebrity_id",
+    "celebrity",
+    "birth_date",
+    "age",
+    "category",
+    "picked_at",
+    "auto_pick",
+  ];
+
+  const lines = [headers.join(",")];
+  for (const p of log.picks) {
+    const c = celebs.get(p.celebrity_id);
+    lines.push(
+      [
+        String(p.pick_number),
+        String(roundOfPick(log.order, p.pick_number + (p.skipped_slots ?? 0))),
+        String(p.seat),
+        seatToName(log.players, p.seat),
+        String(p.owner_seat),
+        seatToName(log.players, p.owner_seat),
+        p.celebrity_id,
+        c?.name ?? "",
+        c?.birth_date ?? "",
+        c ? String(c.age) : "",
+        c?.category ?? "",
+        p.picked_at,
+        p.auto_pick ? "true" : "false",
+      ]
+        .map(csvCell)
+        .join(",")
+    );
+  }
+
+  return lines.join("\n");
+}
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isObject(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isInt(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v);
+}
+
+function isTimestamp(v: unknown): v is string {
+  return typeof v === "string" && !Number.isNaN(Date.parse(v));
+}
+
+function isOptionalString(v: unknown) {
+  return v === null || typeof v === "string";
+}
+
+/**
+ * Checks an uploaded file is a complete, self-consistent draft log: picks
+ * numbered 1..n with no celebrity twice, every seat on the roster, every
+ * drafted celebrity included, and a state that matches the picks.
+ */
+export function parseDraftLog(raw: unknown): { log: DraftLog | null; errors: string[] } {
+  const errors: string[] = [];
+  const fail = (message: string) => ({ log: null, errors: [...errors, message] });
+
+  if (!isObject(raw) || raw.format !== DRAFT_LOG_FORMAT) return fail("Not a draft log export.");
+  if (raw.version !== DRAFT_LOG_VERSION) return fail(`Unsupported draft log version ${String(raw.version)}.`);
+
+  const season = raw.season;
+  if (!isObject(season) || !isInt(season.year)) return fail("Missing season year.");
+  if (!DRAFT_ORDER_MODES.some((m) => m.mode === season.order_mode)) errors.push("Unknown draft order mode.");
+  if (season.order_seats !== null && !(Array.isArray(season.order_seats) && season.order_seats.every(isInt))) {
+    errors.push("order_seats must be a list of seats or null.");
+  }
+  if (season.order_seed !== null && !isInt(season.order_seed)) errors.push("order_seed must be a number or null.");
+  if (season.pick_clock_seconds !== null && !(isInt(season.pick_clock_seconds) && season.pick_clock_seconds > 0)) {
+    errors.push("pick_clock_seconds must be a positive number or null.");
+  }
+  if (!isOptionalString(season.draft_date)) errors.push("draft_date must be a date or null.");
+
+  if (!Array.isArray(raw.players) || raw.players.length === 0) return fail("The roster is empty.");
+  const seats = new Set<number>();
+  for (const p of raw.players as unknown[]) {
+    if (!isObject(p) || !isInt(p.seat) || typeof p.name !== "string") return fail("Every player needs a seat and name.");
+    if (seats.has(p.seat)) errors.push(`Seat ${p.seat} is listed twice.`);
+    seats.add(p.seat);
+  }
+
+  const order = raw.order;
+  if (!isObject(order) || !Array.isArray(order.seats) || !order.seats.every((s) => isInt(s) && seats.has(s))) {
+    errors.push("The draft order must list roster seats.");
+  }
+
+  if (!Array.isArray(raw.celebrities)) return fail("Missing celebrities.");
+  const celebIds = new Set<string>();
+  for (const c of raw.celebrities as unknown[]) {
+    if (!isObject(c) || typeof c.id !== "string" || !UUID.test(c.id) || typeof c.name !== "string" || !isInt(c.age)) {
+      return fail("Every celebrity needs an id, name and age.");
+    }
+    celebIds.add(c.id);
+  }
+
+  if (!Array.isArray(raw.picks)) return fail("Missing picks.");
+  const picks = raw.picks as unknown[];
+  const drafted = new Set<string>();
+  picks.forEach((p, i) => {
+    const label = `Pick ${i + 1}`;
+    if (!isObject(p)) {
+      errors.push(`${label} is not an object.`);
+      return;
+    }
+    if (p.pick_number !== i + 1) errors.push(`${label} is numbered ${String(p.pick_number)}; picks must run 1..n in order.`);
+    if (!isInt(p.seat) || !seats.has(p.seat)) errors.push(`${label} was made by a seat that isn't on the roster.`);
+    if (!isInt(p.owner_seat) || !seats.has(p.owner_seat)) errors.push(`${label} is owned by a seat that isn't on the roster.`);
+    if (typeof p.celebrity_id !== "string" || !celebIds.has(p.celebrity_id)) {
+      errors.push(`${label}'s celebrity is missing from the file.`);
+    } else if (drafted.has(p.celebrity_id)) {
+      errors.push(`${label} drafts a celebrity already taken earlier.`);
+    } else {
+      drafted.add(p.celebrity_id);
+    }
+    if (!isTimestamp(p.picked_at)) errors.push(`${label} has no valid picked_at time.`);
+    if (typeof p.auto_pick !== "boolean") errors.push(`${label} has no auto_pick flag.`);
+    if (p.skipped_slots !== undefined && !(isInt(p.skipped_slots) && p.skipped_slots >= 0)) {
+      errors.push(`${label} has an invalid skipped_slots count.`);
+    }
+  });
+
+  const state = raw.state;
+  if (state === null) {
+    if (picks.length > 0) errors.push("The file has picks but no draft state.");
+  } else if (!isObject(state)) {
+    errors.push("Invalid draft state.");
+  } else {
+    if (!isInt(state.turn_seat) || !seats.has(state.turn_seat)) errors.push("The seat on the clock isn't on the roster.");
+    if (state.pick_number !== picks.length) {
+      errors.push(`The state says ${String(state.pick_number)} picks were made, but the file has ${picks.length}.`);
+    }
+    if (!isTimestamp(state.updated_at)) errors.push("The draft state has no valid updated_at time.");
+    if (state.skipped_slots !== undefined && !(isInt(state.skipped_slots) && state.skipped_slots >= 0)) {
+      errors.push("The draft state has an invalid skipped_slots count.");
+    }
+  }
+
+  return errors.length > 0 ? { log: null, errors } : { log: raw as DraftLog, errors };
+}
+
+/** "Seat 3 (Bo)" style list of seats in the file that the live roster doesn't have. */
+export function missingSeats(log: DraftLog, roster: Player[]) {
+  return log.players.filter((p) => !roster.some((r) => r.seat === p.seat)).map((p) => `Seat ${p.seat} (${p.name})`);
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { draftOrder, lotteryOrder, roundOfPick, seatForPick, upcomingPicks } from "@/lib/draftOrder";
+
+const players = [1, 2, 3].map((seat) => ({ seat, name: `P${seat}`, color: "#000" }));
+
+describe("seatForPick", () => {
+  it("repeats the order every round in linear drafts", () => {
+    const order = { mode: "linear" as const, seats: [1, 2, 3] };
+    expect([1, 2, 3, 4, 5, 6].map((n) => seatForPick(order, n))).toEqual([1, 2, 3, 1, 2, 3]);
+  });
+
+  it("reverses even rounds in snake drafts", () => {
+    const order = { mode: "snake" as const, seats: [1, 2, 3] };
+    expect([1, 2, 3, 4, 5, 6, 7].map((n) => seatForPick(order, n))).toEqual([1, 2, 3, 3, 2, 1, 1]);
+  });
+
+  it("shifts later picks along the order by the skipped slots", () => {
+    const order = { mode: "snake" as const, seats: [1, 2, 3] };
+    // Seat 2's slot at pick 2 was skipped: seat 3 makes pick 2 and the snake carries on from there.
+    expect([2, 3, 4, 5].map((n) => seatForPick(order, n, 1))).toEqual([3, 3, 2, 1]);
+  });
+
+  it("has no seat without players or before the first pick", () => {
+    expect(seatForPick({ mode: "linear", seats: [] }, 1)).toBeNull();
+    expect(seatForPick({ mode: "linear", seats: [1] }, 0)).toBeNull();
+  });
+});
+
+describe("draftOrder", () => {
+  it("drops departed seats and appends new players", () => {
+    const order = draftOrder(players, { order_mode: "snake", order_seats: [3, 9, 1] });
+    expect(order).toEqual({ mode: "snake", seats: [3, 1, 2] });
+  });
+
+  it("defaults to linear roster order", () => {
+    expect(draftOrder(players, null)).toEqual({ mode: "linear", seats: [1, 2, 3] });
+  });
+});
+
+describe("lotteryOrder", () => {
+  it("is a deterministic permutation of the seats", () => {
+    const a = lotteryOrder([1, 2, 3, 4, 5], 42);
+    expect(lotteryOrder([1, 2, 3, 4, 5], 42)).toEqual(a);
+    expect(a.slice().sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe("upcomingPicks", () => {
+  it("lists picks with their rounds", () => {
+    const order = { mode: "snake" as const, seats: [1, 2] };
+    expect(upcomingPicks(order, 2, 3)).toEqual([
+      { pick_number: 2, round: 1, seat: 2 },
+      { pick_number: 3, round: 2, seat: 2 },
+      { pick_number: 4, round: 2, seat: 1 },
+    ]);
+    expect(roundOfPick(order, 5)).toBe(3);
+  });
+
+  it("counts rounds by slot after a skip", () => {
+    const order = { mode: "linear" as const, seats: [1, 2] };
+    expect(upcomingPicks(order, 2, 2, 1)).toEqual([
+      { pick_number: 2, round: 2, seat: 1 },
+      { pick_number: 3, round: 2, seat: 2 },
+    ]);
+  });
+});
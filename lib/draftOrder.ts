@@ -0,0 +1,99 @@
+import type { Player } from "@/lib/league";
+
+export type DraftOrderMode = "linear" | "snake" | "lottery";
+
+export const DRAFT_ORDER_MODES: { mode: DraftOrderMode; label: string }[] = [
+  { mode: "linear", label: "Linear" },
+  { mode: "snake", label: "Snake" },
+  { mode: "lottery", label: "Lottery" },
+];
+
+/**
+ * `seats` is the round-one order. Linear and lottery repeat it every round;
+ * snake reverses it on even rounds. Lottery differs from linear only in how
+ * `seats` was chosen (a seeded shuffle, see `lotteryOrder`).
+ */
+export type DraftOrder = {
+  mode: DraftOrderMode;
+  seats: number[];
+};
+
+export type UpcomingPick = {
+  pick_number: number;
+  round: number;
+  seat: number;
+};
+
+// Small deterministic PRNG so a recorded seed always reproduces the same lottery.
+function mulberry32(seed: number) {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** Fisher–Yates shuffle of `seats` driven by `seed`. */
+export function lotteryOrder(seats: number[], seed: number) {
+  const rand = mulberry32(seed);
+  const out = seats.slice();
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(rand() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+}
+
+/**
+ * Resolve a season's order settings against the roster. Seats recorded on the
+ * season that are no longer in the league are dropped; new players go last.
+ */
+export function draftOrder(
+  players: Player[],
+  season: { order_mode: DraftOrderMode; order_seats: number[] | null } | null
+): DraftOrder {
+  const rosterSeats = players.map((p) => p.seat);
+  const recorded = (season?.order_seats ?? []).filter((s) => rosterSeats.includes(s));
+  const seats = [...recorded, ...rosterSeats.filter((s) => !recorded.includes(s))];
+  return { mode: season?.order_mode ?? "linear", seats };
+}
+
+export function roundOfPick(order: DraftOrder, pickNumber: number) {
+  const n = order.seats.length;
+  if (n === 0 || pickNumber < 1) return 1;
+  return Math.floor((pickNumber - 1) / n) + 1;
+}
+
+/**
+ * Seat that makes overall pick `pickNumber` (1-based). `skipped` is the draft
+ * state's `skipped_slots`: each commissioner skip uses up a slot, so pick N
+ * comes from slot N + skipped. Mirrors `death_draft_seat_for_pick` in SQL.
+ */
+export function seatForPick(order: DraftOrder, pickNumber: number, skipped = 0): number | null {
+  const n = order.seats.length;
+  if (n === 0 || pickNumber < 1) return null;
+
+  const slot = pickNumber + skipped;
+  const round = Math.floor((slot - 1) / n);
+  let idx = (slot - 1) % n;
+  if (order.mode === "snake" && round % 2 === 1) idx = n - 1 - idx;
+  return order.seats[idx];
+}
+
+/** Rounds follow order slots, so a round with a skip in it has one pick fewer. */
+export function upcomingPicks(order: DraftOrder, fromPick: number, count: number, skipped = 0): UpcomingPick[] {
+  const out: UpcomingPick[] = [];
+  for (let pick = fromPick; pick < fromPick + count; pick++) {
+    const seat = seatForPick(order, pick, skipped);
+    if (seat === null) break;
+    out.push({ pick_number: pick, round: roundOfPick(order, pick + skipped), seat });
+  }
+  return out;
+}
+
+export function orderLabel(mode: DraftOrderMode) {
+  return DRAFT_ORDER_MODES.find((m) => m.mode === mode)?.label ?? mode;
+}
@@ -0,0 +1,16 @@
+import { supabase } from "@/lib/supabaseClient";
+import type { DraftRepository } from "@/lib/draftRepository";
+import { supabaseDraftRepository } from "@/lib/supabaseDraftRepository";
+
+let repo: DraftRepository | null = null;
+
+/** The repository pages use; Supabase unless something swapped it out. */
+export function getDraftRepo(): DraftRepository {
+  repo ??= supabaseDraftRepository(supabase);
+  return repo;
+}
+
+/** Swap the backend, e.g. for `memoryDraftRepository` in a demo or test harness. */
+export function setDraftRepo(next: DraftRepository) {
+  repo = next;
+}
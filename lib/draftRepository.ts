@@ -0,0 +1,99 @@
+import type { CelebrityProfile } from "@/lib/celebrityProfile";
+import type { ChatMessage, Reaction } from "@/lib/chat";
+
+/** Shared shapes for draft data, whichever backend serves them. */
+
+export type DraftState = {
+  id: number;
+  season: number;
+  turn_seat: number;
+  /** Picks made so far; the next pick is `pick_number + 1`. */
+  pick_number: number;
+  /** When the current turn started; drives the pick clock. */
+  updated_at: string;
+  /** Order slots the commissioner has skipped; pick N is made from slot N + skipped_slots. */
+  skipped_slots: number;
+};
+
+/** One row of death_draft_board: a pick joined with its celebrity and drafter. */
+export type BoardRow = {
+  pick_number: number;
+  /** Seat that drafted the celebrity. */
+  seat: number;
+  player_name: string;
+  /** Seat that holds the celebrity now; differs from `seat` after a trade. */
+  owner_seat: number;
+  celebrity_id: string;
+  celebrity_name: string;
+  /** Age stored at import; only used when there's no birth date. */
+  celebrity_age: number;
+  celebrity_birth_date: string | null;
+  celebrity_category: string | null;
+  celebrity_nationality: string | null;
+  celebrity_notes: string | null;
+  celebrity_url: string | null;
+  celebrity_photo_url: string | null;
+  picked_at: string;
+  /** Made by the server when the pick clock ran out. */
+  auto_pick: boolean;
+  /** Turns skipped before this pick; it came from order slot pick_number + skipped_slots. */
+  skipped_slots: number;
+};
+
+/** One row of death_draft_available: an undrafted celebrity. */
+export type AvailableCelebrity = CelebrityProfile & {
+  id: string;
+  name: string;
+  /** Age stored at import; pages replace it with `celebrityAge` as of the draft date. */
+  age: number;
+  birth_date: string | null;
+  created_at: string;
+};
+
+/** make_pick's answer. `code` is machine-readable, e.g. "taken" or "duplicate". */
+export type PickResult = {
+  ok: boolean;
+  message: string;
+  code: string | null;
+};
+
+/** The columns realtime sends for a death_draft_picks change. */
+export type PickEvent = {
+  season: number;
+  pick_number: number;
+  seat: number;
+  owner_seat: number;
+  celebrity_id: string;
+};
+
+export type RealtimeStatus = "connecting" | "subscribed" | "timed_out" | "closed" | "channel_error";
+
+export type DraftListeners = {
+  onState?: (state: DraftState) => void;
+  onPickInserted?: (pick: PickEvent) => void;
+  onPickUpdated?: (pick: PickEvent) => void;
+  onPickDeleted?: (pick: PickEvent) => void;
+  onStatus?: (status: RealtimeStatus) => void;
+  /** Chat rides the same channel; these tables are only joined when a listener is passed. */
+  onChatMessage?: (message: ChatMessage) => void;
+  onReactionAdded?: (reaction: Reaction) => void;
+  /** Only the key columns (season, pick_number, seat, emoji) are set. */
+  onReactionRemoved?: (reaction: Reaction) => void;
+};
+
+/**
+ * Every draft read, write and subscription the pages make. Reads throw the
+ * backend's error; `makePick` only throws when the request itself failed, and
+ * reports rule violations (not your turn, taken, …) in its result.
+ */
+export interface DraftRepository {
+  fetchState(season: number): Promise<DraftState | null>;
+  fetchBoard(season: number): Promise<BoardRow[]>;
+  fetchBoardRow(season: number, pickNumber: number): Promise<BoardRow | null>;
+  fetchAvailable(season: number): Promise<AvailableCelebrity[]>;
+  countCelebrities(season: number): Promise<number>;
+  countPicks(season: number): Promise<number>;
+  makePick(seat: number, celebrityId: string, clientKey?: string): Promise<PickResult>;
+  /** Live changes for one season until the returned function is called. */
+  subscribe(season: number, listeners: DraftListeners): () => void;
+}
@@ -0,0 +1,40 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+
+export type Player = {
+  seat: number;
+  name: string;
+  color: string;
+};
+
+// Used when a player has no colour set in death_draft_players.
+const FALLBACK_COLORS = ["#ef4444", "#f59e0b", "#10b981", "#3b82f6", "#8b5cf6", "#ec4899", "#14b8a6", "#f97316"];
+
+export async function fetchPlayers(client: SupabaseClient = supabase): Promise<Player[]> {
+  const { data, error } = await client
+    .from("death_draft_players")
+    .select("seat, name, color")
+    .order("seat", { ascending: true });
+
+  if (error) throw error;
+
+  return ((data ?? []) as { seat: number; name: string; color: string | null }[]).map((p, i) => ({
+    seat: p.seat,
+    name: p.name,
+    color: p.color ?? FALLBACK_COLORS[i % FALLBACK_COLORS.length],
+  }));
+}
+
+export function seatToName(players: Player[], seat: number) {
+  return players.find((p) => p.seat === seat)?.name ?? `Seat ${seat}`;
+}
+
+export function hasSeat(players: Player[], seat: number) {
+  return players.some((p) => p.seat === seat);
+}
+
+/** Round the draft is in after `numPicks` picks (1-based, never below 1). */
+export function roundNumber(numPicks: number, numSeats: number) {
+  if (numSeats <= 0) return 1;
+  return Math.max(1, Math.ceil(numPicks / numSeats));
+}
@@ -0,0 +1,58 @@
+export type Sex = "male" | "female";
+
+/**
+ * Probability of dying within a year, q(x), at five-year ages, after the US
+ * Social Security Administration's period life table and rounded to two
+ * significant figures. It's for fun, not underwriting. Single ages in between
+ * are interpolated on a log scale, which follows how mortality climbs with age.
+ */
+const ABRIDGED: { age: number; male: number; female: number }[] = [
+  { age: 0, male: 0.006, female: 0.005 },
+  { age: 1, male: 0.00042, female: 0.00034 },
+  { age: 5, male: 0.00013, female: 0.0001 },
+  { age: 10, male: 0.00011, female: 0.00009 },
+  { age: 15, male: 0.00051, female: 0.00023 },
+  { age: 20, male: 0.0014, female: 0.00051 },
+  { age: 25, male: 0.0018, female: 0.00069 },
+  { age: 30, male: 0.0021, female: 0.0009 },
+  { age: 35, male: 0.0026, female: 0.0013 },
+  { age: 40, male: 0.0032, female: 0.0018 },
+  { age: 45, male: 0.0041, female: 0.0025 },
+  { age: 50, male: 0.0057, female: 0.0035 },
+  { age: 55, male: 0.0083, female: 0.0050 },
+  { age: 60, male: 0.012, female: 0.0071 },
+  { age: 65, male: 0.016, female: 0.010 },
+  { age: 70, male: 0.024, female: 0.016 },
+  { age: 75, male: 0.037, female: 0.026 },
+  { age: 80, male: 0.059, female: 0.042 },
+  { age: 85, male: 0.096, female: 0.072 },
+  { age: 90, male: 0.16, female: 0.13 },
+  { age: 95, male: 0.25, female: 0.21 },
+  { age: 100, male: 0.35, female: 0.31 },
+  { age: 105, male: 0.45, female: 0.42 },
+  { age: 110, male: 0.55, female: 0.53 },
+  { age: 119, male: 1, female: 1 },
+];
+
+function interpolate(age: number, sex: Sex) {
+  if (age <= 0) return ABRIDGED[0][sex];
+  const last = ABRIDGED[ABRIDGED.length - 1];
+  if (age >= last.age) return last[sex];
+
+  const i = ABRIDGED.findIndex((r) => r.age > age);
+  const lo = ABRIDGED[i - 1];
+  const hi = ABRIDGED[i];
+  const t = (age - lo.age) / (hi.age - lo.age);
+  return Math.exp(Math.log(lo[sex]) + t * (Math.log(hi[sex]) - Math.log(lo[sex])));
+}
+
+/**
+ * Chance that someone `age` years old dies within `years` (0 to 1, default a
+ * full year), assuming a constant hazard through the year. Celebrities don't
+ * record sex, so without `sex` this averages the two tables.
+ */
+export function deathProbability(age: number, { sex, years = 1 }: { sex?: Sex; years?: number } = {}) {
+  const q = sex ? interpolate(age, sex) : (interpolate(age, "male") + interpolate(age, "female")) / 2;
+  const span = Math.min(1, Math.max(0, years));
+  return 1 - Math.pow(1 - q, span);
+}
@@ -0,0 +1,151 @@
+import { describe, expect, it } from "vitest";
+import { memoryDraftRepository } from "@/lib/memoryDraftRepository";
+import type { DraftState, PickEvent, RealtimeStatus } from "@/lib/draftRepository";
+
+const players = [1, 2, 3].map((seat) => ({ seat, name: `P${seat}`, color: "#000" }));
+const celebrities = ["a", "b", "c", "d", "e", "f", "g"].map((id, i) => ({ id, name: id.toUpperCase(), age: 90 - i }));
+
+function setup(options: { ownedSeats?: number[]; mode?: "linear" | "snake" } = {}) {
+  return memoryDraftRepository({
+    season: 2026,
+    players,
+    order: { mode: options.mode ?? "snake", seats: [1, 2, 3] },
+    celebrities,
+    ownedSeats: options.ownedSeats,
+    now: () => "2026-01-01T00:00:00.000Z",
+  });
+}
+
+describe("memoryDraftRepository turn order", () => {
+  it("advances the turn through a snake draft", async () => {
+    const repo = setup();
+    const turns: number[] = [];
+
+    for (const [seat, id] of [
+      [1, "a"],
+      [2, "b"],
+      [3, "c"],
+      [3, "d"],
+      [2, "e"],
+      [1, "f"],
+    ] as const) {
+      turns.push((await repo.fetchState(2026))!.turn_seat);
+      expect((await repo.makePick(seat, id)).ok).toBe(true);
+    }
+
+    expect(turns).toEqual([1, 2, 3, 3, 2, 1]);
+    const state = await repo.fetchState(2026);
+    expect(state).toMatchObject({ pick_number: 6, turn_seat: 1 });
+  });
+
+  it("uses up a skipped seat's slot so nobody picks twice", async () => {
+    const repo = setup({ mode: "linear" });
+    await repo.makePick(1, "a");
+
+    repo.skipTurn();
+    expect(await repo.fetchState(2026)).toMatchObject({ pick_number: 1, turn_seat: 3, skipped_slots: 1 });
+    expect(await repo.makePick(2, "b")).toMatchObject({ ok: false, code: "not_your_turn" });
+
+    // Seat 3 takes pick 2 from its own slot, then the order carries on with seat 1.
+    expect((await repo.makePick(3, "b")).ok).toBe(true);
+    expect(await repo.fetchState(2026)).toMatchObject({ pick_number: 2, turn_seat: 1 });
+    expect((await repo.makePick(1, "c")).ok).toBe(true);
+    expect(await repo.fetchState(2026)).toMatchObject({ pick_number: 3, turn_seat: 2 });
+
+    // Each pick keeps the skip count it was made under, so the board can place it in its round.
+    expect((await repo.fetchBoard(2026)).map((r) => r.skipped_slots)).toEqual([0, 1, 1]);
+  });
+
+  it("moves picked celebrities from available to the board", async () => {
+    const repo = setup();
+    await repo.makePick(1, "c");
+
+    expect((await repo.fetchAvailable(2026)).map((c) => c.id)).not.toContain("c");
+    expect(await repo.fetchBoard(2026)).toMatchObject([
+      { pick_number: 1, seat: 1, owner_seat: 1, player_name: "P1", celebrity_name: "C", celebrity_age: 88 },
+    ]);
+    expect(await repo.countPicks(2026)).toBe(1);
+    expect(await repo.fetchBoardRow(2026, 2)).toBeNull();
+  });
+});
+
+describe("memoryDraftRepository pick conflicts", () => {
+  it("rejects picks out of turn", async () => {
+    const repo = setup();
+    expect(await repo.makePick(2, "a")).toMatchObject({ ok: false, code: "not_your_turn" });
+    expect(await repo.countPicks(2026)).toBe(0);
+  });
+
+  it("rejects a celebrity someone already took", async () => {
+    const repo = setup();
+    await repo.makePick(1, "a");
+    expect(await repo.makePick(2, "a")).toMatchObject({ ok: false, code: "taken" });
+  });
+
+  it("rejects seats the login doesn't own", async () => {
+    const repo = setup({ ownedSeats: [2] });
+    expect(await repo.makePick(1, "a")).toMatchObject({ ok: false, code: "not_owner" });
+  });
+
+  it("rejects unknown celebrities", async () => {
+    const repo = setup();
+    expect(await repo.makePick(1, "zzz")).toMatchObject({ ok: false, code: "unknown" });
+  });
+
+  it("treats a retried client key as the same pick", async () => {
+    const repo = setup();
+    expect(await repo.makePick(1, "a", "key-1")).toMatchObject({ ok: true, code: "ok" });
+    expect(await repo.makePick(1, "a", "key-1")).toMatchObject({ ok: true, code: "duplicate" });
+    expect(await repo.countPicks(2026)).toBe(1);
+    expect((await repo.fetchState(2026))!.turn_seat).toBe(2);
+  });
+
+  it("refuses to reuse a client key for a different pick", async () => {
+    const repo = setup();
+    await repo.makePick(1, "a", "key-1");
+    expect(await repo.makePick(2, "b", "key-1")).toMatchObject({ ok: false, code: "conflict" });
+  });
+});
+
+describe("memoryDraftRepository realtime", () => {
+  it("broadcasts the pick and then the new state", async () => {
+    const repo = setup();
+    const events: string[] = [];
+    const statuses: RealtimeStatus[] = [];
+
+    const unsubscribe = repo.subscribe(2026, {
+      onPickInserted: (p: PickEvent) => events.push(`pick ${p.pick_number} ${p.celebrity_id}`),
+      onState: (s: DraftState) => events.push(`turn ${s.turn_seat}`),
+      onStatus: (s) => statuses.push(s),
+    });
+
+    await repo.makePick(1, "a");
+    repo.setStatus("channel_error");
+    unsubscribe();
+    await repo.makePick(2, "b");
+
+    expect(events).toEqual(["pick 1 a", "turn 2"]);
+    expect(statuses).toEqual(["subscribed", "channel_error"]);
+  });
+
+  it("can drop events while still applying changes", async () => {
+    const repo = setup();
+    const picks: number[] = [];
+    repo.subscribe(2026, { onPickInserted: (p) => picks.push(p.pick_number) });
+
+    repo.muteEvents(true);
+    await repo.makePick(1, "a");
+    repo.muteEvents(false);
+    await repo.makePick(2, "b");
+
+    // The gap (1 missing) is what the board's reconciliation looks for.
+    expect(picks).toEqual([2]);
+    expect(await repo.countPicks(2026)).toBe(2);
+  });
+
+  it("ignores other seasons", async () => {
+    const repo = setup();
+    expect(await repo.fetchState(2025)).toBeNull();
+    expect(await repo.fetchBoard(2025)).toEqual([]);
+  });
+});
@@ -0,0 +1,217 @@
+import type { Player } from "@/lib/league";
+import { seatForPick, type DraftOrder } from "@/lib/draftOrder";
+import type { CelebrityProfile } from "@/lib/celebrityProfile";
+import type {
+  AvailableCelebrity,
+  BoardRow,
+  DraftListeners,
+  DraftRepository,
+  DraftState,
+  PickEvent,
+  PickResult,
+  RealtimeStatus,
+} from "@/lib/draftRepository";
+
+export type MemoryCelebrity = Partial<CelebrityProfile> & {
+  id: string;
+  name: string;
+  age: number;
+  birth_date?: string | null;
+};
+
+type MemoryPick = PickEvent & { picked_at: string; auto_pick: boolean; skipped_slots: number; client_key: string | null };
+
+export type MemoryDraftOptions = {
+  season: number;
+  players: Player[];
+  /** Defaults to linear in roster order. */
+  order?: DraftOrder;
+  celebrities: MemoryCelebrity[];
+  /** Seats the simulated login may pick for; defaults to all of them. */
+  ownedSeats?: number[];
+  /** Clock for `picked_at` / `updated_at`, so tests can pin timestamps. */
+  now?: () => string;
+};
+
+export type MemoryDraftRepository = DraftRepository & {
+  /** Push a connection status to every subscriber, e.g. to simulate a dropped socket. */
+  setStatus(status: RealtimeStatus): void;
+  /** While set, changes are applied but not broadcast, as if events were lost. */
+  muteEvents(muted: boolean): void;
+  /** The commissioner's skip, as `death_draft_skip_turn` does it: the current slot is used up. */
+  skipTurn(): void;
+};
+
+const fail = (message: string, code: string): PickResult => ({ ok: false, message, code });
+
+/**
+ * In-memory stand-in for the Supabase backend. It applies the same rules as
+ * `death_draft_make_pick` (ownership, idempotency key, taken, turn) and
+ * advances the turn with `seatForPick`, broadcasting realtime-style events.
+ */
+export function memoryDraftRepository(options: MemoryDraftOptions): MemoryDraftRepository {
+  const { season, players, celebrities } = options;
+  const order = options.order ?? { mode: "linear", seats: players.map((p) => p.seat) };
+  const owned = options.ownedSeats ?? players.map((p) => p.seat);
+  const now = options.now ?? (() => new Date().toISOString());
+
+  const picks: MemoryPick[] = [];
+  const subscribers = new Set<DraftListeners>();
+  let muted = false;
+  let state: DraftState = {
+    id: 1,
+    season,
+    turn_seat: seatForPick(order, 1) ?? 0,
+    pick_number: 0,
+    updated_at: now(),
+    skipped_slots: 0,
+  };
+
+  const emit = (fn: (l: DraftListeners) => void) => {
+    if (muted) return;
+    for (const l of subscribers) fn(l);
+  };
+
+  const toBoardRow = (p: MemoryPick): BoardRow => {
+    const c = celebrities.find((x) => x.id === p.celebrity_id)!;
+    return {
+      pick_number: p.pick_number,
+      seat: p.seat,
+      player_name: players.find((x) => x.seat === p.seat)?.name ?? `Seat ${p.seat}`,
+      owner_seat: p.owner_seat,
+      celebrity_id: c.id,
+      celebrity_name: c.name,
+      celebrity_age: c.age,
+      celebrity_birth_date: c.birth_date ?? null,
+      celebrity_category: c.category ?? null,
+      celebrity_nationality: c.nationality ?? null,
+      celebrity_notes: c.notes ?? null,
+      celebrity_url: c.reference_url ?? null,
+      celebrity_photo_url: c.photo_url ?? null,
+      picked_at: p.picked_at,
+      auto_pick: p.auto_pick,
+      skipped_slots: p.skipped_slots,
+    };
+  };
+
+  const eventOf = (p: MemoryPick): PickEvent => ({
+    season: p.season,
+    pick_number: p.pick_number,
+    seat: p.seat,
+    owner_seat: p.owner_seat,
+    celebrity_id: p.celebrity_id,
+  });
+
+  return {
+    async fetchState(s) {
+      return s === season ? { ...state } : null;
+    },
+
+    async fetchBoard(s) {
+      return s === season ? picks.map(toBoardRow) : [];
+    },
+
+    async fetchBoardRow(s, pickNumber) {
+      const p = s === season ? picks.find((x) => x.pick_number === pickNumber) : undefined;
+      return p ? toBoardRow(p) : null;
+    },
+
+    async fetchAvailable(s) {
+      if (s !== season) return [];
+      const taken = new Set(picks.map((p) => p.celebrity_id));
+      return celebrities
+        .filter((c) => !taken.has(c.id))
+        .map(
+          (c): AvailableCelebrity => ({
+            id: c.id,
+            name: c.name,
+            age: c.age,
+            birth_date: c.birth_date ?? null,
+            created_at: state.updated_at,
+            category: c.category ?? null,
+            nationality: c.nationality ?? null,
+            notes: c.notes ?? null,
+            reference_url: c.reference_url ?? null,
+            photo_url: c.photo_url ?? null,
+          })
+        );
+    },
+
+    async countCelebrities(s) {
+      return s === season ? celebrities.length : 0;
+    },
+
+    async countPicks(s) {
+      return s === season ? picks.length : 0;
+    },
+
+    async makePick(seat, celebrityId, clientKey) {
+      if (!owned.includes(seat)) return fail("You are not signed in as this seat.", "not_owner");
+
+      if (clientKey) {
+        const existing = picks.find((p) => p.client_key === clientKey);
+        if (existing) {
+          return existing.seat === seat && existing.celebrity_id === celebrityId
+            ? { ok: true, message: "Already recorded.", code: "duplicate" }
+            : fail("That request was already used for another pick.", "conflict");
+        }
+      }
+
+      if (picks.some((p) => p.celebrity_id === celebrityId)) return fail("Already taken.", "taken");
+      if (state.turn_seat !== seat) return fail("Not your turn.", "not_your_turn");
+      if (!celebrities.some((c) => c.id === celebrityId)) return fail("Unknown celebrity.", "unknown");
+
+      const pick: MemoryPick = {
+        season,
+        pick_number: state.pick_number + 1,
+        seat,
+        owner_seat: seat,
+        celebrity_id: celebrityId,
+        picked_at: now(),
+        auto_pick: false,
+        skipped_slots: state.skipped_slots,
+        client_key: clientKey ?? null,
+      };
+      picks.push(pick);
+      state = {
+        ...state,
+        turn_seat: seatForPick(order, pick.pick_number + 1, state.skipped_slots) ?? 0,
+        pick_number: pick.pick_number,
+        updated_at: now(),
+      };
+
+      // Same order Postgres commits them in: the pick row, then the state row.
+      emit((l) => l.onPickInserted?.(eventOf(pick)));
+      emit((l) => l.onState?.({ ...state }));
+      return { ok: true, message: "ok", code: "ok" };
+    },
+
+    subscribe(s, listeners) {
+      if (s !== season) return () => {};
+      subscribers.add(listeners);
+      listeners.onStatus?.("subscribed");
+      return () => {
+        subscribers.delete(listeners);
+      };
+    },
+
+    setStatus(status) {
+      for (const l of subscribers) l.onStatus?.(status);
+    },
+
+    muteEvents(next) {
+      muted = next;
+    },
+
+    skipTurn() {
+      const skipped = state.skipped_slots + 1;
+      state = {
+        ...state,
+        turn_seat: seatForPick(order, state.pick_number + 1, skipped) ?? 0,
+        skipped_slots: skipped,
+        updated_at: now(),
+      };
+      emit((l) => l.onState?.({ ...state }));
+    },
+  };
+}
@@ -0,0 +1,70 @@
+"use client";
+
+/** Last good copy of something fetched, and when it was fetched. */
+export type Snapshot<T> = {
+  data: T;
+  savedAt: string;
+};
+
+const PREFIX = "death-draft-snapshot-";
+
+/**
+ * Keeps the last successful response in localStorage so pages can still show
+ * something when they open without a connection. The service worker caches
+ * the pages themselves; this covers the Supabase data they load.
+ */
+export function writeSnapshot<T>(key: string, data: T) {
+  try {
+    localStorage.setItem(PREFIX + key, JSON.stringify({ data, savedAt: new Date().toISOString() }));
+  } catch {
+    // Full or unavailable storage only costs the offline copy.
+  }
+}
+
+export function readSnapshot<T>(key: string): Snapshot<T> | null {
+  try {
+    const raw = localStorage.getItem(PREFIX + key);
+    return raw ? (JSON.parse(raw) as Snapshot<T>) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Fetches and snapshots on success; falls back to the snapshot on failure, or rethrows without one. */
+export async function withSnapshot<T>(key: string, load: () => Promise<T>): Promise<{ data: T; staleAt: string | null }> {
+  try {
+    const data = await load();
+    writeSnapshot(key, data);
+    return { data, staleAt: null };
+  } catch (e) {
+    const snap = readSnapshot<T>(key);
+    if (!snap) throw e;
+    return { data: snap.data, staleAt: snap.savedAt };
+  }
+}
+
+/** "stale as of 8:42 PM" (or with the date when it's from another day). */
+export function staleLabel(savedAt: string) {
+  const d = new Date(savedAt);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  const time = d.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  return `stale as of ${sameDay ? time : `${d.toLocaleDateString()} ${time}`}`;
+}
+
+/**
+ * Asks the service worker (public/sw.js) to cache these pages. The worker
+ * fetches each one and caches the scripts and styles its HTML references;
+ * the assets this page has already loaded go along too.
+ */
+export async function precachePages(urls: string[]) {
+  if (!("serviceWorker" in navigator)) return;
+  const reg = await navigator.serviceWorker.getRegistration("/sw.js");
+  const worker = reg?.active;
+  if (!worker) return;
+
+  const assets = performance
+    .getEntriesByType("resource")
+    .map((e) => e.name)
+    .filter((u) => u.startsWith(`${location.origin}/_next/static/`));
+  worker.postMessage({ type: "cache-urls", urls: [...urls, ...assets] });
+}
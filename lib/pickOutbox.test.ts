@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { dismissPick, enqueuePick, getOutbox } from "@/lib/pickOutbox";
+
+describe("enqueuePick", () => {
+  it("keeps one pick per seat outstanding", () => {
+    const first = enqueuePick(2026, 1, "c1", "Ann");
+    expect(first).not.toBeNull();
+    expect(enqueuePick(2026, 1, "c2", "Bo")).toBeNull();
+    expect(getOutbox(2026, 1).map((e) => e.celebrity_id)).toEqual(["c1"]);
+
+    // Other seats queue independently.
+    expect(enqueuePick(2026, 2, "c2", "Bo")).not.toBeNull();
+
+    dismissPick(first!);
+    expect(enqueuePick(2026, 1, "c3", "Cy")).not.toBeNull();
+    expect(getOutbox(2026, 1).map((e) => e.celebrity_id)).toEqual(["c3"]);
+  });
+});
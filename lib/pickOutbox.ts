@@ -0,0 +1,136 @@
+import { getDraftRepo } from "@/lib/draftRepo";
+
+export type OutboxStatus = "pending" | "confirmed" | "rejected";
+
+/** A pick the phone has committed to sending, kept in localStorage until it resolves. */
+export type OutboxEntry = {
+  /** Idempotency key; every retry of this pick sends the same one. */
+  key: string;
+  season: number;
+  seat: number;
+  celebrity_id: string;
+  celebrity_name: string;
+  created_at: string;
+  status: OutboxStatus;
+  attempts: number;
+  message: string | null;
+  /** make_pick's result code, e.g. "taken" when someone else got there first. */
+  code: string | null;
+};
+
+const EMPTY: OutboxEntry[] = [];
+const cache = new Map<string, OutboxEntry[]>();
+const listeners = new Set<() => void>();
+const inFlight = new Set<string>();
+
+function storageKey(season: number, seat: number) {
+  return `death-draft-outbox-${season}-${seat}`;
+}
+
+export function subscribeOutbox(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Stable snapshot for useSyncExternalStore; only changes when entries do. */
+export function getOutbox(season: number, seat: number): OutboxEntry[] {
+  const k = storageKey(season, seat);
+  let entries = cache.get(k);
+  if (!entries) {
+    try {
+      entries = JSON.parse(localStorage.getItem(k) ?? "[]") as OutboxEntry[];
+    } catch {
+      entries = EMPTY;
+    }
+    cache.set(k, entries);
+  }
+  return entries;
+}
+
+export function getServerOutbox() {
+  return EMPTY;
+}
+
+function setOutbox(season: number, seat: number, update: (prev: OutboxEntry[]) => OutboxEntry[]) {
+  const k = storageKey(season, seat);
+  const next = update(getOutbox(season, seat));
+  cache.set(k, next);
+  try {
+    localStorage.setItem(k, JSON.stringify(next));
+  } catch {
+    // Private mode or full storage: the outbox still works for this page load.
+  }
+  for (const l of listeners) l();
+}
+
+function patch(entry: OutboxEntry, changes: Partial<OutboxEntry>) {
+  setOutbox(entry.season, entry.seat, (prev) => prev.map((e) => (e.key === entry.key ? { ...e, ...changes } : e)));
+}
+
+/**
+ * Queues a pick, replacing any finished entries; it's sent on the next flush.
+ * Returns null while an earlier pick for the seat is still pending: it may
+ * already have landed without us hearing back, so a second one could pick twice.
+ */
+export function enqueuePick(
+  season: number,
+  seat: number,
+  celebrityId: string,
+  celebrityName: string
+): OutboxEntry | null {
+  if (getOutbox(season, seat).some((e) => e.status === "pending")) return null;
+
+  const entry: OutboxEntry = {
+    key: crypto.randomUUID(),
+    season,
+    seat,
+    celebrity_id: celebrityId,
+    celebrity_name: celebrityName,
+    created_at: new Date().toISOString(),
+    status: "pending",
+    attempts: 0,
+    message: null,
+    code: null,
+  };
+  setOutbox(season, seat, () => [entry]);
+  return entry;
+}
+
+export function dismissPick(entry: OutboxEntry) {
+  setOutbox(entry.season, entry.seat, (prev) => prev.filter((e) => e.key !== entry.key));
+}
+
+async function send(entry: OutboxEntry) {
+  if (typeof navigator !== "undefined" && navigator.onLine === false) return;
+
+  inFlight.add(entry.key);
+  try {
+    const res = await getDraftRepo().makePick(entry.seat, entry.celebrity_id, entry.key);
+    patch(entry, {
+      status: res.ok ? "confirmed" : "rejected",
+      attempts: entry.attempts + 1,
+      message: res.ok ? null : res.message,
+      code: res.code,
+    });
+  } catch (e) {
+    // Postgres errors carry a code; a fetch that never reached the server doesn't,
+    // so that stays pending and goes again with the same key.
+    const err = e as { message?: string; code?: string };
+    patch(entry, {
+      status: err?.code ? "rejected" : "pending",
+      attempts: entry.attempts + 1,
+      message: err?.message ?? null,
+      code: err?.code ?? null,
+    });
+  } finally {
+    inFlight.delete(entry.key);
+  }
+}
+
+/** Sends every pending pick for the seat that isn't already on its way. */
+export async function flushOutbox(season: number, seat: number) {
+  const pending = getOutbox(season, seat).filter((e) => e.status === "pending" && !inFlight.has(e.key));
+  await Promise.all(pending.map(send));
+}
@@ -0,0 +1,88 @@
+import { createECDH, randomBytes } from "node:crypto";
+import { createServer, type IncomingHttpHeaders, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import webpush from "web-push";
+import { sendPush, turnMessages, type PushTarget } from "@/lib/pushSender";
+
+type Received = { path: string; headers: IncomingHttpHeaders; body: Buffer };
+
+// Stand-in push service: records requests and answers with the status encoded
+// in the path, e.g. /push/410 for a subscription the browser has dropped.
+let server: Server;
+let base = "";
+const received: Received[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (c: Buffer) => chunks.push(c));
+    req.on("end", () => {
+      received.push({ path: req.url ?? "", headers: req.headers, body: Buffer.concat(chunks) });
+      res.statusCode = Number((req.url ?? "").split("/").pop()) || 201;
+      res.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+const vapid = { subject: "mailto:test@example.com", ...webpush.generateVAPIDKeys() };
+
+function target(path: string): PushTarget {
+  const ecdh = createECDH("prime256v1");
+  ecdh.generateKeys();
+  return {
+    endpoint: `${base}${path}`,
+    p256dh: ecdh.getPublicKey("base64url"),
+    auth: randomBytes(16).toString("base64url"),
+  };
+}
+
+const message = { title: "You're up!", body: "Pick #3 is yours.", url: "/pick/2", tag: "t" };
+
+describe("sendPush", () => {
+  it("delivers an encrypted, VAPID-signed request", async () => {
+    expect(await sendPush(target("/push/201"), message, vapid)).toBe("sent");
+
+    const req = received.at(-1)!;
+    expect(req.path).toBe("/push/201");
+    expect(req.headers["content-encoding"]).toBe("aes128gcm");
+    expect(req.headers.ttl).toBe("300");
+    expect(req.headers.urgency).toBe("high");
+    expect(req.headers.authorization).toMatch(new RegExp(`^vapid t=.+, k=${vapid.publicKey}$`));
+    // Encrypted: the plaintext title must not appear on the wire.
+    expect(req.body.length).toBeGreaterThan(0);
+    expect(req.body.toString("utf8")).not.toContain("You're up");
+  });
+
+  it("reports dropped subscriptions as gone", async () => {
+    expect(await sendPush(target("/push/410"), message, vapid)).toBe("gone");
+    expect(await sendPush(target("/push/404"), message, vapid)).toBe("gone");
+  });
+
+  it("reports other errors as failed", async () => {
+    expect(await sendPush(target("/push/500"), message, vapid)).toBe("failed");
+    expect(await sendPush({ ...target("/x"), endpoint: "http://127.0.0.1:1/push" }, message, vapid)).toBe("failed");
+  });
+});
+
+describe("turnMessages", () => {
+  it("alerts the seat that's up and the one on deck", () => {
+    const out = turnMessages({ pickNumber: 7, turnSeat: 2, turnName: "Bo", onDeckSeat: 3 });
+    expect(out.map((m) => [m.seat, m.message.title, m.message.url])).toEqual([
+      [2, "You're up!", "/pick/2"],
+      [3, "You're on deck", "/pick/3"],
+    ]);
+    expect(out[1].message.body).toContain("Bo is picking now");
+  });
+
+  it("skips on deck when the same seat picks again", () => {
+    expect(turnMessages({ pickNumber: 4, turnSeat: 3, turnName: "Cy", onDeckSeat: 3 })).toHaveLength(1);
+    expect(turnMessages({ pickNumber: 4, turnSeat: 3, turnName: "Cy", onDeckSeat: null })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,97 @@
+import webpush from "web-push";
+
+/** A stored browser subscription (death_draft_push_subscriptions). */
+export type PushTarget = {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+};
+
+/** What public/sw.js shows; `url` is opened when the notification is tapped. */
+export type PushMessage = {
+  title: string;
+  body: string;
+  url: string;
+  /** Notifications with the same tag replace each other on the device. */
+  tag: string;
+};
+
+export type VapidKeys = {
+  subject: string;
+  publicKey: string;
+  privateKey: string;
+};
+
+/** "gone" means the browser dropped the subscription and the row should be deleted. */
+export type PushOutcome = "sent" | "gone" | "failed";
+
+/**
+ * VAPID keys from the environment, or null when push isn't configured.
+ * Make a pair with `npx web-push generate-vapid-keys`.
+ */
+export function vapidFromEnv(): VapidKeys | null {
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  if (!publicKey || !privateKey) return null;
+  return { subject: process.env.VAPID_SUBJECT ?? "mailto:commissioner@example.com", publicKey, privateKey };
+}
+
+/**
+ * Encrypts and delivers one message. web-push builds the request; sending it
+ * with fetch keeps this usable against a plain-http stand-in endpoint in tests.
+ */
+export async function sendPush(target: PushTarget, message: PushMessage, vapid: VapidKeys): Promise<PushOutcome> {
+  const req = webpush.generateRequestDetails(
+    { endpoint: target.endpoint, keys: { p256dh: target.p256dh, auth: target.auth } },
+    JSON.stringify(message),
+    { vapidDetails: vapid, TTL: 300, urgency: "high" }
+  );
+
+  try {
+    const res = await fetch(req.endpoint, {
+      method: req.method,
+      headers: req.headers as Record<string, string>,
+      body: req.body ? new Uint8Array(req.body) : undefined,
+    });
+    if (res.status === 404 || res.status === 410) return "gone";
+    return res.ok ? "sent" : "failed";
+  } catch {
+    return "failed";
+  }
+}
+
+/** The two notifications a turn change produces. */
+export function turnMessages(opts: {
+  pickNumber: number;
+  turnSeat: number;
+  turnName: string;
+  onDeckSeat: number | null;
+}): { seat: number; message: PushMessage }[] {
+  const { pickNumber, turnSeat, turnName, onDeckSeat } = opts;
+  const out = [
+    {
+      seat: turnSeat,
+      message: {
+        title: "You're up!",
+        body: `Pick #${pickNumber} is yours. Make your pick.`,
+        url: `/pick/${turnSeat}`,
+        tag: `death-draft-turn-${turnSeat}`,
+      },
+    },
+  ];
+
+  // In a snake draft the same seat can pick twice in a row; "you're up" covers that.
+  if (onDeckSeat !== null && onDeckSeat !== turnSeat) {
+    out.push({
+      seat: onDeckSeat,
+      message: {
+        title: "You're on deck",
+        body: `${turnName} is picking now. You're next.`,
+        url: `/pick/${onDeckSeat}`,
+        tag: `death-draft-turn-${onDeckSeat}`,
+      },
+    });
+  }
+
+  return out;
+}
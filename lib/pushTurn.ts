@@ -0,0 +1,70 @@
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { fetchCurrentSeason } from "@/lib/season";
+import { fetchPlayers, seatToName } from "@/lib/league";
+import { draftOrder, seatForPick } from "@/lib/draftOrder";
+import { sendPush, turnMessages, vapidFromEnv, type PushTarget } from "@/lib/pushSender";
+
+type SubscriptionRow = PushTarget & { seat: number };
+
+/**
+ * Tells the seat on the clock (and the one on deck) that the turn changed.
+ * Safe to call repeatedly: the first call for a turn claims it in
+ * death_draft_push_sent and later ones do nothing.
+ */
+export async function notifyTurn(): Promise<{ ok: boolean; message: string; sent: number }> {
+  const vapid = vapidFromEnv();
+  if (!vapid) return { ok: false, message: "Push notifications aren't configured.", sent: 0 };
+
+  const season = await fetchCurrentSeason(supabaseAdmin);
+
+  const { data: state, error: stateErr } = await supabaseAdmin
+    .from("death_draft_state")
+    .select("turn_seat, pick_number, updated_at, skipped_slots")
+    .eq("season", season.year)
+    .maybeSingle();
+  if (stateErr) throw stateErr;
+  if (!state?.turn_seat) return { ok: true, message: "No draft is running.", sent: 0 };
+
+  const { data: complete, error: completeErr } = await supabaseAdmin.rpc("death_draft_is_complete", {
+    p_season: season.year,
+  });
+  if (completeErr) throw completeErr;
+  if (complete) return { ok: true, message: "The draft is complete.", sent: 0 };
+
+  const { error: claimErr } = await supabaseAdmin.from("death_draft_push_sent").insert({
+    season: season.year,
+    pick_number: state.pick_number,
+    turn_started_at: state.updated_at,
+  });
+  if (claimErr?.code === "23505") return { ok: true, message: "Already sent.", sent: 0 };
+  if (claimErr) throw claimErr;
+
+  const players = await fetchPlayers(supabaseAdmin);
+  const messages = turnMessages({
+    pickNumber: state.pick_number + 1,
+    turnSeat: state.turn_seat,
+    turnName: seatToName(players, state.turn_seat),
+    onDeckSeat: seatForPick(draftOrder(players, season), state.pick_number + 2, state.skipped_slots ?? 0),
+  });
+
+  const { data: subs, error: subsErr } = await supabaseAdmin
+    .from("death_draft_push_subscriptions")
+    .select("endpoint, seat, p256dh, auth")
+    .in("seat", messages.map((m) => m.seat));
+  if (subsErr) throw subsErr;
+
+  const results = await Promise.all(
+    ((subs ?? []) as SubscriptionRow[]).map(async (s) => {
+      const message = messages.find((m) => m.seat === s.seat)!.message;
+      return { endpoint: s.endpoint, outcome: await sendPush(s, message, vapid) };
+    })
+  );
+
+  const gone = results.filter((r) => r.outcome === "gone").map((r) => r.endpoint);
+  if (gone.length > 0) {
+    await supabaseAdmin.from("death_draft_push_subscriptions").delete().in("endpoint", gone);
+  }
+
+  const sent = results.filter((r) => r.outcome === "sent").length;
+  return { ok: true, message: `Sent ${sent} of ${results.length}.`, sent };
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { deathProbability } from "@/lib/lifeTable";
+import { recommendPicks } from "@/lib/recommendations";
+import { celebrity } from "@/lib/testFixtures";
+
+describe("recommendPicks", () => {
+  it("weighs the odds of dying by the points a death would score", () => {
+    const [top] = recommendPicks([celebrity("a", 90)], { years: 1 });
+    expect(top.base).toBe(10);
+    expect(top.youth).toBe(10);
+    expect(top.probability).toBeCloseTo(deathProbability(90));
+    expect(top.expected).toBeCloseTo(deathProbability(90) * 20);
+    expect(top.explanation).toMatch(/^Age 90: .+ chance × 20 pts \(10 base \+ 10 youth\) = \d+\.\d\d$/);
+  });
+
+  it("ranks by expected points, not just age", () => {
+    // At 95 the youth points outweigh the extra odds at 100.
+    const ranked = recommendPicks([celebrity("young", 40), celebrity("old", 100), celebrity("mid", 95)], { years: 1 });
+    expect(ranked.map((r) => r.celebrity.id)).toEqual(["mid", "old", "young"]);
+  });
+
+  it("scales the hazard for flagged celebrities", () => {
+    const plain = recommendPicks([celebrity("a", 70)], { years: 1 })[0];
+    const ill = recommendPicks([celebrity("a", 70)], { years: 1, flags: { a: "ill" } })[0];
+    const healthy = recommendPicks([celebrity("a", 70)], { years: 1, flags: { a: "healthy" } })[0];
+
+    expect(ill.probability).toBeCloseTo(1 - Math.pow(1 - plain.probability, 4));
+    expect(healthy.probability).toBeLessThan(plain.probability);
+    expect(ill.flag).toBe("ill");
+    expect(ill.explanation).toContain("(health scare)");
+  });
+
+  it("shrinks the odds with the season and honours the limit", () => {
+    const list = Array.from({ length: 20 }, (_, i) => celebrity(`c${i}`, 60 + i));
+    const half = recommendPicks(list, { years: 0.5, limit: 3 });
+    expect(half).toHaveLength(3);
+    expect(half[0].probability).toBeCloseTo(deathProbability(half[0].celebrity.age, { years: 0.5 }));
+  });
+});
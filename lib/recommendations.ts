@@ -0,0 +1,89 @@
+import type { AvailableCelebrity } from "@/lib/draftRepository";
+import { deathProbability } from "@/lib/lifeTable";
+import { DEFAULT_SCORING_RULES, scoreDeath, type ScoringRules } from "@/lib/scoring";
+
+export type RiskFlag = "ill" | "frail" | "healthy";
+
+/**
+ * Manual adjustments for what the life table can't know. The multiplier scales
+ * the yearly hazard, so a flagged probability still stays under 1.
+ */
+export const RISK_FLAGS: { flag: RiskFlag; label: string; multiplier: number }[] = [
+  { flag: "ill", label: "Health scare", multiplier: 4 },
+  { flag: "frail", label: "Frail", multiplier: 2 },
+  { flag: "healthy", label: "Looks healthy", multiplier: 0.5 },
+];
+
+export type Recommendation = {
+  celebrity: AvailableCelebrity;
+  /** Chance of dying before the season ends, after any risk flag. */
+  probability: number;
+  /** Points a death at their current age would score, before bonuses. */
+  points: number;
+  base: number;
+  youth: number;
+  flag: RiskFlag | null;
+  /** probability × points. */
+  expected: number;
+  /** One line showing how `expected` was worked out. */
+  explanation: string;
+};
+
+export function isRiskFlag(value: unknown): value is RiskFlag {
+  return RISK_FLAGS.some((f) => f.flag === value);
+}
+
+function percent(p: number) {
+  return p < 0.001 ? "<0.1%" : `${(p * 100).toFixed(p < 0.1 ? 1 : 0)}%`;
+}
+
+/**
+ * Ranks undrafted celebrities by expected points under the league's scoring:
+ * the chance they die before the season ends (from the bundled life table,
+ * scaled by any risk flag) times what that death would score. First- and
+ * youngest-death bonuses depend on the rest of the league, so they're left out.
+ * Ages are taken as given, so pass the list the page already aged.
+ */
+export function recommendPicks(
+  available: AvailableCelebrity[],
+  opts: {
+    years: number;
+    rules?: ScoringRules;
+    flags?: Partial<Record<string, RiskFlag>>;
+    limit?: number;
+  }
+): Recommendation[] {
+  const rules = opts.rules ?? DEFAULT_SCORING_RULES;
+
+  return available
+    .map((c) => {
+      const flag = opts.flags?.[c.id] ?? null;
+      const multiplier = RISK_FLAGS.find((f) => f.flag === flag)?.multiplier ?? 1;
+      // Scale the hazard rather than the probability: 1 - (1 - p)^m stays in [0, 1].
+      const probability = 1 - Math.pow(1 - deathProbability(c.age, { years: opts.years }), multiplier);
+      const { base, youth } = scoreDeath(c.age, rules);
+      const points = base + youth;
+      const expected = probability * points;
+
+      const odds = flag
+        ? `${percent(probability)} chance (${RISK_FLAGS.find((f) => f.flag === flag)!.label.toLowerCase()})`
+        : `${percent(probability)} chance`;
+      const worth = youth > 0 ? `${points} pts (${base} base + ${youth} youth)` : `${points} pts`;
+
+      return {
+        celebrity: c,
+        probability,
+        points,
+        base,
+        youth,
+        flag,
+        expected,
+        explanation: `Age ${c.age}: ${odds} × ${worth} = ${expected.toFixed(2)}`,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.expected - a.expected || b.celebrity.age - a.celebrity.age || a.celebrity.name.localeCompare(b.celebrity.name)
+    )
+    .slice(0, opts.limit ?? 10);
+}
@@ -0,0 +1,54 @@
+import { createElement } from "react";
+import { ImageResponse } from "next/og";
+import BoardImage from "@/components/BoardImage";
+import { ageReferenceDate } from "@/lib/age";
+import { pickSlot, type BoardView } from "@/lib/board";
+import { BOARD_PAGES_HEADER, boardImageGrid, boardImageLayout, gridPage, type ImageSize } from "@/lib/boardImage";
+import { fetchPlayers, roundNumber } from "@/lib/league";
+import { fetchCurrentSeason, fetchSeason, seasonTitle } from "@/lib/season";
+import { supabaseAdmin } from "@/lib/supabaseAdmin";
+import { supabaseDraftRepository } from "@/lib/supabaseDraftRepository";
+
+/**
+ * Loads a season's board and draws it as a PNG. `year` null means the current
+ * season; a page past the end is clamped to the last one. Server only.
+ */
+export async function renderBoardImage(opts: {
+  year: number | null;
+  view: BoardView;
+  size: ImageSize;
+  page: number;
+  cacheControl?: string;
+}) {
+  const season = opts.year === null ? await fetchCurrentSeason(supabaseAdmin) : await fetchSeason(opts.year, supabaseAdmin);
+  if (!season) return null;
+
+  const [players, rows] = await Promise.all([
+    fetchPlayers(supabaseAdmin),
+    supabaseDraftRepository(supabaseAdmin).fetchBoard(season.year),
+  ]);
+
+  const grid = boardImageGrid(opts.view, rows, players, ageReferenceDate(season), opts.size);
+  const layout = boardImageLayout(grid, opts.size);
+  const page = Math.min(Math.max(1, opts.page), layout.pages);
+  const picks = rows.length === 1 ? "1 pick" : `${rows.length} picks`;
+  const lastSlot = rows.reduce((max, r) => Math.max(max, pickSlot(r)), 0);
+
+  return new ImageResponse(
+    createElement(BoardImage, {
+      title: seasonTitle(season.year, { withYear: true }),
+      subtitle: `Round ${roundNumber(lastSlot, players.length)} · ${picks}`,
+      grid: gridPage(grid, layout, page),
+      layout,
+      size: opts.size,
+      page,
+    }),
+    {
+      ...opts.size,
+      headers: {
+        [BOARD_PAGES_HEADER]: String(layout.pages),
+        "cache-control": opts.cacheControl ?? "no-store",
+      },
+    }
+  );
+}
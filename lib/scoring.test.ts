@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { computeStandings, DEFAULT_SCORING_RULES, scoreDeath, type Death } from "@/lib/scoring";
+import { boardRow, players } from "@/lib/testFixtures";
+
+function death(celebrityId: string, diedOn: string): Death {
+  return { celebrity_id: celebrityId, died_on: diedOn, source: null };
+}
+
+describe("scoreDeath", () => {
+  it("gives base points plus a point per year under 100", () => {
+    expect(scoreDeath(80)).toEqual({ base: 10, youth: 20 });
+    expect(scoreDeath(104)).toEqual({ base: 10, youth: 0 });
+  });
+});
+
+describe("computeStandings", () => {
+  it("ages deaths from the birth date, falling back to the stored age", () => {
+    const standings = computeStandings(
+      [
+        boardRow(1, 1, { celebrity_id: "a", celebrity_birth_date: "1940-06-01", celebrity_age: 50 }),
+        boardRow(2, 2, { celebrity_id: "b", celebrity_age: 90 }),
+      ],
+      [death("a", "2026-03-01"), death("b", "2026-04-01")],
+      players
+    );
+
+    expect(standings.map((s) => [s.name, s.total])).toEqual([
+      ["Ann", 35],
+      ["Bo", 20],
+    ]);
+    expect(standings[0].picks[0]).toMatchObject({ age_at_death: 85, base: 10, youth: 15, first_death: 5, youngest_death: 5 });
+    expect(standings[1].picks[0]).toMatchObject({ age_at_death: 90, youth: 10, first_death: 0, youngest_death: 0 });
+  });
+
+  it("shares tied first-death and youngest-death bonuses, ignoring undrafted deaths", () => {
+    const standings = computeStandings(
+      [
+        boardRow(1, 1, { celebrity_id: "c", celebrity_age: 95 }),
+        boardRow(2, 2, { celebrity_id: "b", celebrity_age: 80 }),
+        boardRow(3, 1, { celebrity_id: "a", celebrity_age: 80 }),
+      ],
+      [death("x", "2026-01-01"), death("a", "2026-02-01"), death("b", "2026-02-01"), death("c", "2026-03-01")],
+      players
+    );
+
+    const ann = standings.find((s) => s.seat === 1)!;
+    const bo = standings.find((s) => s.seat === 2)!;
+    // Both February deaths were first and youngest: 10 base + 20 youth + 5 + 5.
+    expect(bo.picks).toMatchObject([{ celebrity_id: "b", first_death: 5, youngest_death: 5, total: 40 }]);
+    // A seat's deaths are listed in the order they happened.
+    expect(ann.picks.map((p) => [p.celebrity_id, p.total])).toEqual([
+      ["a", 40],
+      ["c", 15],
+    ]);
+    expect([ann.total, ann.deaths, bo.total, bo.deaths]).toEqual([55, 2, 40, 1]);
+  });
+
+  it("ranks by total, and tied seats share a rank in seat order", () => {
+    const trio = [...players, { seat: 3, name: "Cy", color: "#0f0" }];
+    const standings = computeStandings(
+      [
+        boardRow(1, 3, { celebrity_id: "a", celebrity_age: 90 }),
+        boardRow(2, 2, { celebrity_id: "b", celebrity_age: 90 }),
+        boardRow(3, 1, { celebrity_id: "c", celebrity_age: 70 }),
+      ],
+      [death("a", "2026-05-01"), death("b", "2026-05-01")],
+      trio
+    );
+
+    expect(standings.map((s) => [s.seat, s.rank, s.total])).toEqual([
+      [2, 1, 30],
+      [3, 1, 30],
+      [1, 3, 0],
+    ]);
+  });
+
+  it("takes custom rules", () => {
+    const rules = { ...DEFAULT_SCORING_RULES, basePoints: 1, pointsPerYearUnder: 2, firstDeathBonus: 0 };
+    const [top] = computeStandings(
+      [boardRow(1, 1, { celebrity_id: "a", celebrity_age: 95 })],
+      [death("a", "2026-02-01")],
+      players,
+      rules
+    );
+    expect(top.picks[0]).toMatchObject({ base: 1, youth: 10, first_death: 0, youngest_death: 5, total: 16 });
+  });
+});
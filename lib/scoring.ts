@@ -0,0 +1,138 @@
+import { celebrityAge } from "@/lib/age";
+
+export type ScoringRules = {
+  /** Flat points for any drafted celebrity who dies. */
+  basePoints: number;
+  /** Deaths younger than this earn `pointsPerYearUnder` for every year short of it. */
+  baselineAge: number;
+  pointsPerYearUnder: number;
+  /** Awarded to the first drafted death of the season (ties share it). */
+  firstDeathBonus: number;
+  /** Awarded to the youngest drafted death of the season (ties share it). */
+  youngestDeathBonus: number;
+};
+
+export const DEFAULT_SCORING_RULES: ScoringRules = {
+  basePoints: 10,
+  baselineAge: 100,
+  pointsPerYearUnder: 1,
+  firstDeathBonus: 5,
+  youngestDeathBonus: 5,
+};
+
+export type Death = {
+  celebrity_id: string;
+  died_on: string;
+  source: string | null;
+};
+
+export type ScorablePick = {
+  pick_number: number;
+  seat: number;
+  celebrity_id: string;
+  celebrity_name: string;
+  /** Stored age; only used when there's no birth date. */
+  celebrity_age: number;
+  celebrity_birth_date: string | null;
+};
+
+export type PickScore = {
+  pick_number: number;
+  celebrity_id: string;
+  celebrity_name: string;
+  age_at_death: number;
+  died_on: string;
+  source: string | null;
+  base: number;
+  youth: number;
+  first_death: number;
+  youngest_death: number;
+  total: number;
+};
+
+export type Standing = {
+  seat: number;
+  name: string;
+  rank: number;
+  total: number;
+  deaths: number;
+  picks: PickScore[];
+};
+
+export function scoreDeath(ageAtDeath: number, rules: ScoringRules = DEFAULT_SCORING_RULES) {
+  const base = rules.basePoints;
+  const youth = Math.max(0, rules.baselineAge - ageAtDeath) * rules.pointsPerYearUnder;
+  return { base, youth };
+}
+
+export function computeStandings(
+  picks: ScorablePick[],
+  deaths: Death[],
+  players: { seat: number; name: string }[],
+  rules: ScoringRules = DEFAULT_SCORING_RULES
+): Standing[] {
+  const deathById = new Map(deaths.map((d) => [d.celebrity_id, d]));
+  const dead = picks
+    .filter((p) => deathById.has(p.celebrity_id))
+    .map((p) => {
+      const d = deathById.get(p.celebrity_id)!;
+      return { ...p, death: d, ageAtDeath: celebrityAge(p.celebrity_birth_date, p.celebrity_age, d.died_on) };
+    });
+
+  // Bonuses only consider drafted deaths; undrafted ones are just history.
+  let firstDate: string | null = null;
+  let youngestAge: number | null = null;
+  for (const p of dead) {
+    if (firstDate === null || p.death.died_on < firstDate) firstDate = p.death.died_on;
+    if (youngestAge === null || p.ageAtDeath < youngestAge) youngestAge = p.ageAtDeath;
+  }
+
+  const standings: Standing[] = players.map((pl) => ({
+    seat: pl.seat,
+    name: pl.name,
+    rank: 0,
+    total: 0,
+    deaths: 0,
+    picks: [],
+  }));
+  const bySeat = new Map(standings.map((s) => [s.seat, s]));
+
+  for (const p of dead) {
+    const s = bySeat.get(p.seat);
+    if (!s) continue;
+
+    const d = p.death;
+    const { base, youth } = scoreDeath(p.ageAtDeath, rules);
+    const first_death = d.died_on === firstDate ? rules.firstDeathBonus : 0;
+    const youngest_death = p.ageAtDeath === youngestAge ? rules.youngestDeathBonus : 0;
+    const total = base + youth + first_death + youngest_death;
+
+    s.picks.push({
+      pick_number: p.pick_number,
+      celebrity_id: p.celebrity_id,
+      celebrity_name: p.celebrity_name,
+      age_at_death: p.ageAtDeath,
+      died_on: d.died_on,
+      source: d.source,
+      base,
+      youth,
+      first_death,
+      youngest_death,
+      total,
+    });
+    s.total += total;
+    s.deaths += 1;
+  }
+
+  for (const s of standings) {
+    s.picks.sort((a, b) => a.died_on.localeCompare(b.died_on) || a.pick_number - b.pick_number);
+  }
+
+  // Highest total first; ties keep draft seat order and share a rank.
+  standings.sort((a, b) => b.total - a.total || a.seat - b.seat);
+  standings.forEach((s, i) => {
+    s.rank = i > 0 && standings[i - 1].total === s.total ? standings[i - 1].rank : i + 1;
+  });
+
+  return standings;
+}
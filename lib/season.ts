@@ -0,0 +1,78 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+import type { DraftOrderMode } from "@/lib/draftOrder";
+
+export type Season = {
+  year: number;
+  is_current: boolean;
+  draft_date: string | null;
+  order_mode: DraftOrderMode;
+  /** Seed used to draw a lottery order; null for linear/snake. */
+  order_seed: number | null;
+  /** Round-one seat order; null means seat order from death_draft_players. */
+  order_seats: number[] | null;
+  /** Seconds allowed per pick before an auto-pick; null disables the clock. */
+  pick_clock_seconds: number | null;
+};
+
+const SEASON_COLUMNS = "year, is_current, draft_date, order_mode, order_seed, order_seats, pick_clock_seconds";
+
+// The 2026 draft was the 10th annual, so editions count up from 2017.
+export const FIRST_SEASON_YEAR = 2017;
+
+export function editionNumber(year: number) {
+  return year - FIRST_SEASON_YEAR + 1;
+}
+
+export function ordinal(n: number) {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1:
+      return `${n}st`;
+    case 2:
+      return `${n}nd`;
+    case 3:
+      return `${n}rd`;
+    default:
+      return `${n}th`;
+  }
+}
+
+/** "10th Annual Celebrity Death Draft", optionally suffixed with " - 2026". */
+export function seasonTitle(year: number, { withYear = false } = {}) {
+  const title = `${ordinal(editionNumber(year))} Annual Celebrity Death Draft`;
+  return withYear ? `${title} - ${year}` : title;
+}
+
+export async function fetchCurrentSeason(client: SupabaseClient = supabase): Promise<Season> {
+  const { data, error } = await client
+    .from("death_draft_seasons")
+    .select(SEASON_COLUMNS)
+    .eq("is_current", true)
+    .single();
+
+  if (error) throw error;
+  return data as Season;
+}
+
+export async function fetchSeason(year: number, client: SupabaseClient = supabase): Promise<Season | null> {
+  const { data, error } = await client
+    .from("death_draft_seasons")
+    .select(SEASON_COLUMNS)
+    .eq("year", year)
+    .maybeSingle();
+
+  if (error) throw error;
+  return (data as Season | null) ?? null;
+}
+
+export async function fetchSeasons(client: SupabaseClient = supabase): Promise<Season[]> {
+  const { data, error } = await client
+    .from("death_draft_seasons")
+    .select(SEASON_COLUMNS)
+    .order("year", { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as Season[];
+}
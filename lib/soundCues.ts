@@ -0,0 +1,39 @@
+"use client";
+
+export type SoundCue = "pick" | "warning";
+
+// Notes (Hz) and length (s) of each cue: a rising chime for a pick, a low double blip for the clock.
+const CUES: Record<SoundCue, { notes: number[]; length: number }> = {
+  pick: { notes: [523.25, 659.25, 783.99], length: 0.18 },
+  warning: { notes: [220, 220], length: 0.12 },
+};
+
+let ctx: AudioContext | null = null;
+
+/**
+ * Plays a short synthesized cue. Browsers only allow audio after a user
+ * gesture, so the first call should come from a click (e.g. enabling sound).
+ */
+export function playCue(cue: SoundCue) {
+  if (typeof window === "undefined" || !("AudioContext" in window)) return;
+
+  try {
+    ctx ??= new AudioContext();
+    void ctx.resume();
+
+    const { notes, length } = CUES[cue];
+    notes.forEach((freq, i) => {
+      const start = ctx!.currentTime + i * (length + 0.04);
+      const osc = ctx!.createOscillator();
+      const gain = ctx!.createGain();
+      osc.frequency.value = freq;
+      gain.gain.setValueAtTime(0.2, start);
+      gain.gain.exponentialRampToValueAtTime(0.001, start + length);
+      osc.connect(gain).connect(ctx!.destination);
+      osc.start(start);
+      osc.stop(start + length);
+    });
+  } catch {
+    // No audio device or autoplay blocked; cues are optional.
+  }
+}
@@ -0,0 +1,9 @@
+import { createClient } from "@supabase/supabase-js";
+
+// Service-role client for route handlers only. Never import from a client component.
+const url = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const serviceRole = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+
+export const supabaseAdmin = createClient(url, serviceRole, {
+  auth: { persistSession: false },
+});
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { ChatMessage, Reaction } from "@/lib/chat";
+import type {
+  AvailableCelebrity,
+  BoardRow,
+  DraftRepository,
+  DraftState,
+  PickEvent,
+  PickResult,
+  RealtimeStatus,
+} from "@/lib/draftRepository";
+
+/** Every `BoardRow` column of death_draft_board. One literal, so supabase-js can parse it. */
+const BOARD_ROW_COLUMNS =
+  "pick_number, seat, player_name, owner_seat, celebrity_id, celebrity_name, celebrity_age, celebrity_birth_date, celebrity_category, celebrity_nationality, celebrity_notes, celebrity_url, celebrity_photo_url, picked_at, auto_pick, skipped_slots";
+
+const AVAILABLE_COLUMNS =
+  "id, name, age, birth_date, category, nationality, notes, reference_url, photo_url, created_at";
+
+// Channel topics must be unique per subscription, or a second subscriber would
+// be handed the first one's channel.
+let channelSeq = 0;
+
+/** The real backend: tables, views and RPCs from supabase/migrations. */
+export function supabaseDraftRepository(client: SupabaseClient): DraftRepository {
+  return {
+    async fetchState(season) {
+      const { data, error } = await client
+        .from("death_draft_state")
+        .select("id, season, turn_seat, pick_number, updated_at, skipped_slots")
+        .eq("season", season)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as DraftState | null) ?? null;
+    },
+
+    async fetchBoard(season) {
+      const { data, error } = await client.from("death_draft_board").select(BOARD_ROW_COLUMNS).eq("season", season);
+
+      if (error) throw error;
+      return (data ?? []) as BoardRow[];
+    },
+
+    async fetchBoardRow(season, pickNumber) {
+      const { data, error } = await client
+        .from("death_draft_board")
+        .select(BOARD_ROW_COLUMNS)
+        .eq("season", season)
+        .eq("pick_number", pickNumber)
+        .maybeSingle();
+
+      if (error) throw error;
+      return (data as BoardRow | null) ?? null;
+    },
+
+    async fetchAvailable(season) {
+      const { data, error } = await client.from("death_draft_available").select(AVAILABLE_COLUMNS).eq("season", season);
+
+      if (error) throw error;
+      return (data ?? []) as AvailableCelebrity[];
+    },
+
+    async countCelebrities(season) {
+      const { count, error } = await client
+        .from("death_draft_celebrities")
+        .select("*", { count: "exact", head: true })
+        .eq("season", season);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async countPicks(season) {
+      const { count, error } = await client
+        .from("death_draft_picks")
+        .select("*", { count: "exact", head: true })
+        .eq("season", season);
+
+      if (error) throw error;
+      return count ?? 0;
+    },
+
+    async makePick(seat, celebrityId, clientKey) {
+      const { data, error } = await client.rpc("death_draft_make_pick", {
+        p_seat: seat,
+        p_celebrity_id: celebrityId,
+        p_client_key: clientKey ?? null,
+      });
+
+      if (error) throw error;
+
+      const res = (Array.isArray(data) ? data[0] : data) as Partial<PickResult> | null;
+      return { ok: !!res?.ok, message: res?.message ?? "Pick failed.", code: res?.code ?? null };
+    },
+
+    subscribe(season, listeners) {
+      let open = true;
+      listeners.onStatus?.("connecting");
+
+      let channel = client
+        .channel(`death-draft-${season}-${++channelSeq}`)
+        .on(
+          "postgres_changes",
+          { event: "*", schema: "public", table: "death_draft_state", filter: `season=eq.${season}` },
+          (payload) => {
+            const next = payload.new as Partial<DraftState>;
+            // A reset deletes the row; that arrives with an empty `new`.
+            if (next?.season === season) listeners.onState?.(next as DraftState);
+          }
+        )
+        .on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "death_draft_picks", filter: `season=eq.${season}` },
+          (payload) => listeners.onPickInserted?.(payload.new as PickEvent)
+        )
+        .on(
+          "postgres_changes",
+          { event: "UPDATE", schema: "public", table: "death_draft_picks", filter: `season=eq.${season}` },
+          (payload) => listeners.onPickUpdated?.(payload.new as PickEvent)
+        )
+        .on("postgres_changes", { event: "DELETE", schema: "public", table: "death_draft_picks" }, (payload) => {
+          const old = payload.old as PickEvent;
+          // DELETE events can't be filtered server-side, so drop other seasons here.
+          if (old.season !== undefined && old.season !== season) return;
+          listeners.onPickDeleted?.(old);
+        });
+
+      if (listeners.onChatMessage) {
+        const onMessage = listeners.onChatMessage;
+        channel = channel.on(
+          "postgres_changes",
+          { event: "INSERT", schema: "public", table: "death_draft_chat", filter: `season=eq.${season}` },
+          (payload) => onMessage(payload.new as ChatMessage)
+        );
+      }
+
+      if (listeners.onReactionAdded || listeners.onReactionRemoved) {
+        channel = channel
+          .on(
+            "postgres_changes",
+            { event: "INSERT", schema: "public", table: "death_draft_reactions", filter: `season=eq.${season}` },
+            (payload) => listeners.onReactionAdded?.(payload.new as Reaction)
+          )
+          .on("postgres_changes", { event: "DELETE", schema: "public", table: "death_draft_reactions" }, (payload) => {
+            const old = payload.old as Reaction;
+            if (old.season !== season) return;
+            listeners.onReactionRemoved?.(old);
+          });
+      }
+
+      channel.subscribe((status) => {
+        // Removing the channel reports "closed"; the caller asked for that, so keep quiet.
+        if (open) listeners.onStatus?.(String(status).toLowerCase() as RealtimeStatus);
+      });
+
+      return () => {
+        open = false;
+        void client.removeChannel(channel);
+      };
+    },
+  };
+}
@@ -0,0 +1,49 @@
+import type { AvailableCelebrity, BoardRow } from "@/lib/draftRepository";
+import type { Player } from "@/lib/league";
+
+// Shared by the lib tests; not imported by the app.
+
+export const players: Player[] = [
+  { seat: 1, name: "Ann", color: "#f00" },
+  { seat: 2, name: "Bo", color: "#00f" },
+];
+
+/** Pick `pick` by `seat` of "Celeb <pick>", aged 80; `extra` overrides any column. */
+export function boardRow(pick: number, seat: number, extra: Partial<BoardRow> = {}): BoardRow {
+  return {
+    pick_number: pick,
+    seat,
+    player_name: players.find((p) => p.seat === seat)?.name ?? "",
+    owner_seat: seat,
+    celebrity_id: `c${pick}`,
+    celebrity_name: `Celeb ${pick}`,
+    celebrity_age: 80,
+    celebrity_birth_date: null,
+    celebrity_category: null,
+    celebrity_nationality: null,
+    celebrity_notes: null,
+    celebrity_url: null,
+    celebrity_photo_url: null,
+    picked_at: "2026-01-10T20:00:00Z",
+    auto_pick: false,
+    skipped_slots: 0,
+    ...extra,
+  };
+}
+
+/** An undrafted "Celeb <id>"; `extra` overrides any column. */
+export function celebrity(id: string, age: number, extra: Partial<AvailableCelebrity> = {}): AvailableCelebrity {
+  return {
+    id,
+    name: `Celeb ${id}`,
+    age,
+    birth_date: null,
+    created_at: "2026-01-01T00:00:00Z",
+    category: null,
+    nationality: null,
+    notes: null,
+    reference_url: null,
+    photo_url: null,
+    ...extra,
+  };
+}
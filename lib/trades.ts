@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { supabase } from "@/lib/supabaseClient";
+
+export type TradeStatus = "pending" | "accepted" | "rejected" | "cancelled" | "vetoed";
+
+export type TradeItem = {
+  celebrity_id: string;
+  celebrity_name: string;
+  /** Seat giving this celebrity up; it goes to the other side of the trade. */
+  from_seat: number;
+};
+
+export type Trade = {
+  id: number;
+  season: number;
+  from_seat: number;
+  to_seat: number;
+  status: TradeStatus;
+  note: string | null;
+  proposed_at: string;
+  resolved_at: string | null;
+  items: TradeItem[];
+};
+
+export type TradeResponse = "accept" | "reject" | "cancel";
+
+export const TRADE_STATUS_LABELS: Record<TradeStatus, string> = {
+  pending: "Pending",
+  accepted: "Accepted",
+  rejected: "Rejected",
+  cancelled: "Cancelled",
+  vetoed: "Vetoed",
+};
+
+type TradeRow = Omit<Trade, "items"> & {
+  death_draft_trade_items: { celebrity_id: string; from_seat: number; death_draft_celebrities: { name: string } | null }[];
+};
+
+/** Every trade in a season, newest first, with its items. */
+export async function fetchTrades(year: number, client: SupabaseClient = supabase): Promise<Trade[]> {
+  const { data, error } = await client
+    .from("death_draft_trades")
+    .select(
+      "id, season, from_seat, to_seat, status, note, proposed_at, resolved_at, death_draft_trade_items (celebrity_id, from_seat, death_draft_celebrities (name))"
+    )
+    .eq("season", year)
+    .order("proposed_at", { ascending: false });
+  if (error) throw error;
+
+  return ((data ?? []) as unknown as TradeRow[]).map(({ death_draft_trade_items, ...t }) => ({
+    ...t,
+    items: death_draft_trade_items.map((i) => ({
+      celebrity_id: i.celebrity_id,
+      from_seat: i.from_seat,
+      celebrity_name: i.death_draft_celebrities?.name ?? "Unknown",
+    })),
+  }));
+}
+
+/** Items going from `seat` to the other side. */
+export function itemsFrom(trade: Trade, seat: number) {
+  return trade.items.filter((i) => i.from_seat === seat);
+}
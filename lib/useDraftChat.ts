@@ -0,0 +1,144 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { getDraftRepo } from "@/lib/draftRepo";
+import type { BoardRow, DraftListeners } from "@/lib/draftRepository";
+import { chatFeed, fetchChat, fetchReactions, type ChatMessage, type Reaction } from "@/lib/chat";
+
+const sameReaction = (a: Reaction, b: Reaction) =>
+  a.pick_number === b.pick_number && a.seat === b.seat && a.emoji === b.emoji;
+
+function loadChat(year: number, withPicks: boolean) {
+  return Promise.all([
+    fetchChat(year),
+    fetchReactions(year),
+    withPicks ? getDraftRepo().fetchBoard(year) : Promise.resolve(null),
+  ]);
+}
+
+/**
+ * A season's chat, picks and reactions as one live feed. The hook doesn't open
+ * a channel of its own: the page passes `listeners` into the draft
+ * subscription it already holds, and changes are patched in place.
+ *
+ * Pages that already keep the board (the board page) pass `picks`; otherwise
+ * the hook loads it once and follows it through the pick listeners.
+ */
+export function useDraftChat(year: number | null, opts: { picks?: BoardRow[]; limit?: number } = {}) {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [ownPicks, setOwnPicks] = useState<BoardRow[]>([]);
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const tracksPicks = opts.picks === undefined;
+
+  const apply = useCallback((m: ChatMessage[], r: Reaction[], p: BoardRow[] | null) => {
+    setMessages(m);
+    setReactions(r);
+    if (p) setOwnPicks(p);
+  }, []);
+
+  useEffect(() => {
+    if (year === null) return;
+    let alive = true;
+
+    loadChat(year, tracksPicks)
+      .then(([m, r, p]) => {
+        if (alive) apply(m, r, p);
+      })
+      .catch((e: { message?: string }) => {
+        if (alive) setError(e?.message ?? "Failed to load chat.");
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [year, tracksPicks, apply]);
+
+  /** Re-reads everything, e.g. after a reconnect that may have missed events. */
+  const reload = useCallback(async () => {
+    if (year === null) return;
+    try {
+      const [m, r, p] = await loadChat(year, tracksPicks);
+      apply(m, r, p);
+    } catch (e) {
+      setError((e as { message?: string })?.message ?? "Failed to load chat.");
+    }
+  }, [year, tracksPicks, apply]);
+
+  const listeners = useMemo((): DraftListeners => {
+    const chat: DraftListeners = {
+      onChatMessage: (m) => setMessages((prev) => (prev.some((p) => p.id === m.id) ? prev : [...prev, m])),
+      onReactionAdded: (r) => setReactions((prev) => (prev.some((p) => sameReaction(p, r)) ? prev : [...prev, r])),
+      onReactionRemoved: (r) => setReactions((prev) => prev.filter((p) => !sameReaction(p, r))),
+    };
+    if (year === null || !tracksPicks) return chat;
+
+    const patchPick = (pickNumber: number) =>
+      void getDraftRepo()
+        .fetchBoardRow(year, pickNumber)
+        .then((row) => {
+          if (row) setOwnPicks((prev) => [...prev.filter((r) => r.pick_number !== pickNumber), row]);
+        })
+        .catch(() => {});
+
+    return {
+      ...chat,
+      onPickInserted: (p) => patchPick(p.pick_number),
+      onPickUpdated: (p) => patchPick(p.pick_number),
+      onPickDeleted: (p) => {
+        setOwnPicks((prev) => prev.filter((r) => r.pick_number !== p.pick_number));
+        // The foreign key drops the pick's reactions with it.
+        setReactions((prev) => prev.filter((r) => r.pick_number !== p.pick_number));
+      },
+    };
+  }, [year, tracksPicks]);
+
+  const picks = opts.picks ?? ownPicks;
+  const limit = opts.limit ?? 100;
+  const feed = useMemo(() => chatFeed(messages, picks, reactions, limit), [messages, picks, reactions, limit]);
+
+  /** Posts as `seat`; resolves false (with `error` set) if the server said no. */
+  const post = useCallback(async (seat: number, body: string) => {
+    setError(null);
+    const { data, error } = await supabase.rpc("death_draft_post_chat", { p_seat: seat, p_body: body });
+    const res = Array.isArray(data) ? data[0] : data;
+    if (error || !res?.ok) {
+      setError(error?.message ?? res?.message ?? "Failed to send.");
+      return false;
+    }
+    return true;
+  }, []);
+
+  /** Adds `seat`'s `emoji` to a pick, or takes it back if it's already there. */
+  const toggleReaction = useCallback(
+    async (seat: number, pickNumber: number, emoji: string) => {
+      if (year === null) return;
+      setError(null);
+
+      // Flip it locally first; the realtime event for the change is then a no-op.
+      const mine: Reaction = { season: year, pick_number: pickNumber, seat, emoji, created_at: new Date().toISOString() };
+      const flip = () =>
+        setReactions((prev) =>
+          prev.some((r) => sameReaction(r, mine)) ? prev.filter((r) => !sameReaction(r, mine)) : [...prev, mine]
+        );
+      flip();
+
+      const { data, error } = await supabase.rpc("death_draft_toggle_reaction", {
+        p_seat: seat,
+        p_pick_number: pickNumber,
+        p_emoji: emoji,
+      });
+      const res = Array.isArray(data) ? data[0] : data;
+      if (error || !res?.ok) {
+        setError(error?.message ?? res?.message ?? "Failed to react.");
+        flip();
+      }
+    },
+    [year]
+  );
+
+  return { feed, error, post, toggleReaction, listeners, reload };
+}
+
+export type DraftChat = ReturnType<typeof useDraftChat>;
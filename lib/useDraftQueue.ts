@@ -0,0 +1,91 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * A seat's ranked queue of celebrity ids, synced through death_draft_queue so
+ * it follows the player across devices. Entries that get drafted are removed
+ * server-side; callers should still filter against what's available.
+ */
+export function useDraftQueue(year: number | null, seat: number | null) {
+  const [queueIds, setQueueIds] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (year === null || seat === null) return;
+
+    let alive = true;
+
+    const load = async () => {
+      const { data, error } = await supabase
+        .from("death_draft_queue")
+        .select("celebrity_id, position")
+        .eq("season", year)
+        .eq("seat", seat)
+        .order("position", { ascending: true });
+
+      if (!alive) return;
+      if (error) {
+        setError(error.message);
+        return;
+      }
+      setQueueIds(((data ?? []) as { celebrity_id: string }[]).map((q) => q.celebrity_id));
+    };
+
+    void load();
+
+    // Deletes can't be filtered server-side, so listen to the whole table and
+    // re-read just this seat's queue.
+    const channel = supabase
+      .channel(`death-draft-queue-seat-${seat}`)
+      .on("postgres_changes", { event: "*", schema: "public", table: "death_draft_queue" }, () => {
+        void load();
+      })
+      .subscribe();
+
+    return () => {
+      alive = false;
+      void supabase.removeChannel(channel);
+    };
+  }, [year, seat]);
+
+  const save = useCallback(
+    async (next: string[]) => {
+      if (seat === null) return;
+
+      const prev = queueIds;
+      setQueueIds(next);
+      setError(null);
+
+      const { data, error } = await supabase.rpc("death_draft_set_queue", {
+        p_seat: seat,
+        p_celebrity_ids: next,
+      });
+
+      const res = Array.isArray(data) ? data[0] : data;
+      if (error || !res?.ok) {
+        setQueueIds(prev);
+        setError(error?.message ?? res?.message ?? "Failed to save queue.");
+      }
+    },
+    [seat, queueIds]
+  );
+
+  const add = (id: string) => (queueIds.includes(id) ? Promise.resolve() : save([...queueIds, id]));
+
+  const remove = (id: string) => save(queueIds.filter((q) => q !== id));
+
+  const move = (id: string, delta: number) => {
+    const from = queueIds.indexOf(id);
+    const to = from + delta;
+    if (from < 0 || to < 0 || to >= queueIds.length) return Promise.resolve();
+
+    const next = queueIds.slice();
+    next.splice(from, 1);
+    next.splice(to, 0, id);
+    return save(next);
+  };
+
+  return { queueIds, error, add, remove, move };
+}
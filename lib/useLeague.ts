@@ -0,0 +1,32 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { fetchPlayers, type Player } from "@/lib/league";
+import { withSnapshot } from "@/lib/offlineCache";
+
+export function useLeague() {
+  const [players, setPlayers] = useState<Player[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    withSnapshot("players", () => fetchPlayers())
+      .then(({ data }) => {
+        if (alive) setPlayers(data);
+      })
+      .catch((e: { message?: string }) => {
+        if (alive) setError(e?.message ?? "Failed to load league.");
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, []);
+
+  return { players, loading, error };
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+export function formatClock(seconds: number) {
+  const s = Math.max(0, Math.ceil(seconds));
+  return `${Math.floor(s / 60)}:${String(s % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Seconds left on the pick clock that started at `startedAt`, or null when
+ * there's no clock. `onExpire` fires once per turn when it reaches zero.
+ */
+export function usePickClock(startedAt: string | null, limitSeconds: number | null, onExpire?: () => void) {
+  const [now, setNow] = useState(() => Date.now());
+  const firedFor = useRef<string | null>(null);
+  const onExpireRef = useRef(onExpire);
+
+  useEffect(() => {
+    onExpireRef.current = onExpire;
+  }, [onExpire]);
+
+  useEffect(() => {
+    if (!startedAt || !limitSeconds) return;
+    const id = window.setInterval(() => setNow(Date.now()), 250);
+    return () => window.clearInterval(id);
+  }, [startedAt, limitSeconds]);
+
+  const remaining =
+    startedAt && limitSeconds ? limitSeconds - (now - new Date(startedAt).getTime()) / 1000 : null;
+
+  useEffect(() => {
+    if (remaining === null || remaining > 0 || !startedAt) return;
+    if (firedFor.current === startedAt) return;
+    firedFor.current = startedAt;
+    onExpireRef.current?.();
+  }, [remaining, startedAt]);
+
+  return remaining === null ? null : Math.max(0, remaining);
+}
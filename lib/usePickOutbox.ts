@@ -0,0 +1,68 @@
+"use client";
+
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import {
+  dismissPick,
+  enqueuePick,
+  flushOutbox,
+  getOutbox,
+  getServerOutbox,
+  subscribeOutbox,
+  type OutboxEntry,
+} from "@/lib/pickOutbox";
+
+const RETRY_MS = 5000;
+
+/**
+ * A seat's outgoing picks. Submitting stores the pick before sending it, so a
+ * dropped connection (or a reload) leaves it queued; it's resent with the same
+ * key on reconnect, on returning to the tab, and every few seconds meanwhile.
+ */
+export function usePickOutbox(season: number | null, seat: number) {
+  const entries = useSyncExternalStore(
+    subscribeOutbox,
+    () => (season === null ? getServerOutbox() : getOutbox(season, seat)),
+    getServerOutbox
+  );
+
+  const pending = entries.find((e) => e.status === "pending") ?? null;
+  const latest = entries[entries.length - 1] ?? null;
+  const hasPending = pending !== null;
+
+  useEffect(() => {
+    if (season === null) return;
+
+    const flush = () => void flushOutbox(season, seat);
+    const onVisible = () => {
+      if (document.visibilityState === "visible") flush();
+    };
+
+    flush();
+    window.addEventListener("online", flush);
+    document.addEventListener("visibilitychange", onVisible);
+    const timer = hasPending ? window.setInterval(flush, RETRY_MS) : null;
+
+    return () => {
+      window.removeEventListener("online", flush);
+      document.removeEventListener("visibilitychange", onVisible);
+      if (timer !== null) window.clearInterval(timer);
+    };
+  }, [season, seat, hasPending]);
+
+  /**
+   * Queues and sends a pick; resolves with the entry as it stands after the
+   * first attempt, or null if another pick is still outstanding.
+   */
+  const submit = useCallback(
+    async (celebrityId: string, celebrityName: string): Promise<OutboxEntry | null> => {
+      if (season === null) return null;
+      const entry = enqueuePick(season, seat, celebrityId, celebrityName);
+      if (!entry) return null;
+      await flushOutbox(season, seat);
+      return getOutbox(season, seat).find((e) => e.key === entry.key) ?? null;
+    },
+    [season, seat]
+  );
+
+  return { pending, latest, submit, dismiss: dismissPick };
+}
@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+export type PushStatus = "checking" | "unsupported" | "unconfigured" | "denied" | "off" | "on";
+
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? "";
+
+function pushSupported() {
+  return "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+// PushManager wants the VAPID key as raw bytes, not base64url.
+function keyBytes(base64url: string) {
+  const base64 = (base64url + "=".repeat((4 - (base64url.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+}
+
+function rpcError(data: unknown) {
+  const res = (Array.isArray(data) ? data[0] : data) as { ok?: boolean; message?: string } | null;
+  return res?.ok ? null : (res?.message ?? "Couldn't save notification settings.");
+}
+
+/**
+ * This device's "your turn" notifications for a seat. Subscribing registers
+ * public/sw.js and stores the push endpoint against the seat; the server
+ * sends from /api/push when the turn changes. Turning it on for another seat
+ * moves the device's alerts there.
+ */
+export function usePushSubscription(seat: number | null) {
+  const [status, setStatus] = useState<PushStatus>("checking");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+
+    const check = async () => {
+      const reg = pushSupported() ? await navigator.serviceWorker.getRegistration("/sw.js") : undefined;
+      const sub = reg ? await reg.pushManager.getSubscription() : null;
+
+      // The browser has one subscription for the whole site; it only counts if it's stored for this seat.
+      let mine = false;
+      if (sub && seat !== null) {
+        const { data, error } = await supabase.rpc("death_draft_push_subscription_seat", { p_endpoint: sub.endpoint });
+        mine = !error && data === seat;
+      }
+      if (!alive) return;
+
+      if (!pushSupported()) setStatus("unsupported");
+      else if (!VAPID_PUBLIC_KEY) setStatus("unconfigured");
+      else if (Notification.permission === "denied") setStatus("denied");
+      else setStatus(mine ? "on" : "off");
+    };
+
+    void check();
+
+    return () => {
+      alive = false;
+    };
+  }, [seat]);
+
+  const enable = async () => {
+    if (seat === null) return;
+    setError(null);
+    setBusy(true);
+    try {
+      if ((await Notification.requestPermission()) !== "granted") {
+        setStatus("denied");
+        return;
+      }
+
+      const reg = await navigator.serviceWorker.register("/sw.js");
+      await navigator.serviceWorker.ready;
+      const sub =
+        (await reg.pushManager.getSubscription()) ??
+        (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: keyBytes(VAPID_PUBLIC_KEY) }));
+
+      const keys = sub.toJSON().keys ?? {};
+      const { data, error } = await supabase.rpc("death_draft_save_push_subscription", {
+        p_seat: seat,
+        p_endpoint: sub.endpoint,
+        p_p256dh: keys.p256dh ?? "",
+        p_auth: keys.auth ?? "",
+      });
+      if (error) throw error;
+      const msg = rpcError(data);
+      if (msg) throw new Error(msg);
+
+      setStatus("on");
+    } catch (e) {
+      setError((e as { message?: string })?.message ?? "Couldn't turn on notifications.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const disable = async () => {
+    setError(null);
+    setBusy(true);
+    try {
+      const reg = await navigator.serviceWorker.getRegistration("/sw.js");
+      const sub = reg ? await reg.pushManager.getSubscription() : null;
+      if (sub) {
+        const { error } = await supabase.rpc("death_draft_delete_push_subscription", { p_endpoint: sub.endpoint });
+        if (error) throw error;
+        await sub.unsubscribe();
+      }
+      setStatus("off");
+    } catch (e) {
+      setError((e as { message?: string })?.message ?? "Couldn't turn off notifications.");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return { status, busy, error, enable, disable };
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import { isRiskFlag, type RiskFlag } from "@/lib/recommendations";
+
+type Flags = Partial<Record<string, RiskFlag>>;
+
+const EMPTY: Flags = {};
+const cache = new Map<string, Flags>();
+const listeners = new Set<() => void>();
+
+function storageKey(year: number, seat: number) {
+  return `death-draft-risk-flags-${year}-${seat}`;
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Stable snapshot for useSyncExternalStore; only changes when a flag does. */
+function readFlags(k: string): Flags {
+  let flags = cache.get(k);
+  if (!flags) {
+    try {
+      const raw = JSON.parse(localStorage.getItem(k) ?? "{}") as Record<string, unknown>;
+      flags = Object.fromEntries(Object.entries(raw).filter(([, f]) => isRiskFlag(f))) as Flags;
+    } catch {
+      flags = EMPTY;
+    }
+    cache.set(k, flags);
+  }
+  return flags;
+}
+
+/**
+ * A seat's manual risk flags by celebrity id. They're a private hunch rather
+ * than league data, so they stay in this browser's localStorage.
+ */
+export function useRiskFlags(year: number | null, seat: number) {
+  const k = year === null ? null : storageKey(year, seat);
+  const flags = useSyncExternalStore(subscribe, () => (k === null ? EMPTY : readFlags(k)), () => EMPTY);
+
+  const setFlag = useCallback(
+    (celebrityId: string, flag: RiskFlag | null) => {
+      if (k === null) return;
+      const next = { ...readFlags(k) };
+      if (flag) next[celebrityId] = flag;
+      else delete next[celebrityId];
+
+      cache.set(k, next);
+      try {
+        localStorage.setItem(k, JSON.stringify(next));
+      } catch {
+        // Private mode or full storage: flags still apply until reload.
+      }
+      for (const l of listeners) l();
+    },
+    [k]
+  );
+
+  return { flags, setFlag };
+}
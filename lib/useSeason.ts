@@ -0,0 +1,36 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { fetchCurrentSeason, type Season } from "@/lib/season";
+import { withSnapshot } from "@/lib/offlineCache";
+
+export function useSeason() {
+  const [season, setSeason] = useState<Season | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let alive = true;
+
+    // Offline, the last season seen keeps the board and pick pages working from their own snapshots.
+    withSnapshot("season", () => fetchCurrentSeason())
+      .then(({ data }) => {
+        if (alive) setSeason(data);
+      })
+      .catch((e: { message?: string }) => {
+        if (alive) setError(e?.message ?? "Failed to load season.");
+      })
+      .finally(() => {
+        if (alive) setLoading(false);
+      });
+
+    return () => {
+      alive = false;
+    };
+  }, [version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { season, loading, error, reload };
+}
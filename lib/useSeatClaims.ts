@@ -0,0 +1,41 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+
+/**
+ * Which seats have been claimed by a login, and which of those belong to
+ * `userId`. Claims change rarely, so this only reloads on demand.
+ */
+export function useSeatClaims(userId: string | null) {
+  const [claimedSeats, setClaimedSeats] = useState<number[]>([]);
+  const [mySeats, setMySeats] = useState<number[]>([]);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    let alive = true;
+
+    const load = async () => {
+      const [claimedRes, mineRes] = await Promise.all([
+        supabase.from("death_draft_claimed_seats").select("seat"),
+        userId
+          ? supabase.from("death_draft_seat_claims").select("seat").eq("user_id", userId)
+          : Promise.resolve({ data: [] as { seat: number }[], error: null }),
+      ]);
+
+      if (!alive) return;
+      if (!claimedRes.error) setClaimedSeats(((claimedRes.data ?? []) as { seat: number }[]).map((c) => c.seat));
+      if (!mineRes.error) setMySeats(((mineRes.data ?? []) as { seat: number }[]).map((c) => c.seat));
+    };
+
+    void load();
+
+    return () => {
+      alive = false;
+    };
+  }, [userId, version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { claimedSeats, mySeats, reload };
+}
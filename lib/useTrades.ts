@@ -0,0 +1,52 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/lib/supabaseClient";
+import { fetchTrades, type Trade } from "@/lib/trades";
+
+/** A season's trades, kept live through death_draft_trades changes. */
+export function useTrades(year: number | null) {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (year === null) return;
+
+    let alive = true;
+
+    const load = () =>
+      fetchTrades(year)
+        .then((t) => {
+          if (alive) setTrades(t);
+        })
+        .catch((e: { message?: string }) => {
+          if (alive) setError(e?.message ?? "Failed to load trades.");
+        })
+        .finally(() => {
+          if (alive) setLoading(false);
+        });
+
+    void load();
+
+    // Trades are never deleted, so a season filter catches every change.
+    const channel = supabase
+      .channel(`death-draft-trades-${year}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "death_draft_trades", filter: `season=eq.${year}` },
+        () => void load()
+      )
+      .subscribe();
+
+    return () => {
+      alive = false;
+      void supabase.removeChannel(channel);
+    };
+  }, [year, version]);
+
+  const reload = useCallback(() => setVersion((v) => v + 1), []);
+
+  return { trades, loading, error, reload };
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+
+/**
+ * Window-scrolled virtualization for fixed-height rows. Render
+ * `items.slice(start, end)` inside the element behind `ref`, padded by
+ * `padTop` and `padBottom` so the scrollbar still reflects the whole list.
+ */
+export function useWindowVirtualList(count: number, rowHeight: number, overscan = 8) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [range, setRange] = useState({ start: 0, end: 40 });
+
+  useEffect(() => {
+    let frame = 0;
+
+    const update = () => {
+      frame = 0;
+      const el = ref.current;
+      if (!el) return;
+
+      // Distance scrolled past the top of the list, in px.
+      const offset = -el.getBoundingClientRect().top;
+      const start = Math.max(0, Math.floor(offset / rowHeight) - overscan);
+      const end = Math.max(start, Math.ceil((offset + window.innerHeight) / rowHeight) + overscan);
+      setRange((prev) => (prev.start === start && prev.end === end ? prev : { start, end }));
+    };
+
+    const schedule = () => {
+      if (!frame) frame = requestAnimationFrame(update);
+    };
+
+    schedule();
+    window.addEventListener("scroll", schedule, { passive: true });
+    window.addEventListener("resize", schedule);
+
+    return () => {
+      if (frame) cancelAnimationFrame(frame);
+      window.removeEventListener("scroll", schedule);
+      window.removeEventListener("resize", schedule);
+    };
+  }, [count, rowHeight, overscan]);
+
+  const start = Math.min(range.start, count);
+  const end = Math.min(range.end, count);
+
+  return { ref, start, end, padTop: start * rowHeight, padBottom: (count - end) * rowHeight };
+}
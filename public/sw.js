@@ -0,0 +1,146 @@
+// Service worker for the installed app. Registered on every page by
+// components/ServiceWorker.tsx; it keeps the app shell loadable offline and
+// delivers turn notifications (lib/usePushSubscription.ts).
+
+// Bump to drop everything cached by an older version.
+const CACHE = "death-draft-v1";
+const SHELL = ["/", "/board", "/manifest.webmanifest", "/icon-192.png", "/icon-512.png"];
+
+self.addEventListener("install", (event) => {
+  event.waitUntil(
+    caches
+      .open(CACHE)
+      // One unreachable URL shouldn't block installing the worker.
+      .then((cache) => Promise.all(SHELL.map((url) => cache.add(url).catch(() => {}))))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((k) => k !== CACHE).map((k) => caches.delete(k))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Build assets a page references, in script/link tags or in the route data
+// Next inlines into the HTML (which may leave off the /_next/ prefix).
+const ASSET_RE = /(?:\/_next\/)?static\/(?:chunks|css|media)\/[^"'\s\\)]+/g;
+
+async function cacheAsset(cache, url) {
+  if (await cache.match(url)) return;
+  await cache.add(url).catch(() => {});
+}
+
+// Fetches a page, caches it, then caches the chunks it needs to boot, so a
+// page listed here opens offline even if it was never visited on this device.
+async function cachePage(cache, url) {
+  const res = await fetch(url).catch(() => null);
+  if (!res?.ok) return;
+  await cache.put(url, res.clone());
+  const html = await res.text();
+  const assets = new Set((html.match(ASSET_RE) ?? []).map((a) => (a.startsWith("/_next/") ? a : `/_next/${a}`)));
+  await Promise.all([...assets].map((asset) => cacheAsset(cache, asset)));
+}
+
+// Pages ask for the pages they link to (and the assets they've loaded) to be
+// cached ahead of a dead zone.
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "cache-urls" || !Array.isArray(event.data.urls)) return;
+  event.waitUntil(
+    caches.open(CACHE).then((cache) =>
+      Promise.all(
+        event.data.urls.map((url) =>
+          new URL(url, self.location.origin).pathname.startsWith("/_next/static/")
+            ? cacheAsset(cache, url)
+            : cachePage(cache, url)
+        )
+      )
+    )
+  );
+});
+
+self.addEventListener("fetch", (event) => {
+  const req = event.request;
+  if (req.method !== "GET") return;
+  const url = new URL(req.url);
+  // Supabase, fonts and anything else cross-origin go straight to the network;
+  // the pages keep their own snapshots of the data (lib/offlineCache.ts).
+  if (url.origin !== self.location.origin || url.pathname.startsWith("/api/")) return;
+  // Client-side route payloads: when they fail offline Next falls back to a
+  // full page load, which the cached HTML below then answers.
+  if (req.headers.get("RSC")) return;
+
+  // Build assets are content-hashed, so a cached copy is always right.
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(
+      caches.match(req).then(
+        (hit) =>
+          hit ??
+          fetch(req).then((res) => {
+            if (res.ok) {
+              const copy = res.clone();
+              void caches.open(CACHE).then((cache) => cache.put(req, copy));
+            }
+            return res;
+          })
+      )
+    );
+    return;
+  }
+
+  // Pages and everything else: fresh when online, last copy when not.
+  event.respondWith(
+    fetch(req)
+      .then((res) => {
+        if (res.ok) {
+          const copy = res.clone();
+          void caches.open(CACHE).then((cache) => cache.put(req, copy));
+        }
+        return res;
+      })
+      .catch(async () => {
+        const hit = await caches.match(req, { ignoreSearch: req.mode === "navigate" });
+        return hit ?? Response.error();
+      })
+  );
+});
+
+// Payloads come from lib/pushSender.ts: { title, body, url, tag }.
+self.addEventListener("push", (event) => {
+  let msg = { title: "Celebrity Death Draft", body: "", url: "/", tag: "death-draft" };
+  try {
+    msg = { ...msg, ...event.data.json() };
+  } catch {
+    // Not JSON; show the generic title.
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(msg.title, {
+      body: msg.body,
+      tag: msg.tag,
+      renotify: true,
+      icon: "/icon-192.png",
+      badge: "/icon-192.png",
+      data: { url: msg.url },
+    })
+  );
+});
+
+// Focus an open tab on the pick page if there is one, otherwise open it.
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url ?? "/", self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: "window", includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((w) => w.url === url);
+      if (open) return open.focus();
+      const any = windows[0];
+      if (any) return any.navigate(url).then((w) => w?.focus());
+      return self.clients.openWindow(url);
+    })
+  );
+});
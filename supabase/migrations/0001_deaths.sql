@@ -0,0 +1,16 @@
+-- Deaths recorded during the season. One row per drafted (or undrafted)
+-- celebrity who has died; scoring is computed client-side from these rows.
+create table if not exists public.death_draft_deaths (
+  celebrity_id uuid primary key references public.death_draft_celebrities (id) on delete cascade,
+  died_on date not null,
+  source text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.death_draft_deaths enable row level security;
+
+create policy "death_draft_deaths read"
+  on public.death_draft_deaths for select
+  using (true);
+
+alter publication supabase_realtime add table public.death_draft_deaths;
@@ -0,0 +1,15 @@
+-- Audit trail for commissioner corrections made through /admin.
+create table if not exists public.death_draft_admin_log (
+  id bigint generated always as identity primary key,
+  actor text not null,
+  action text not null,
+  details jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+-- Only the service role (used by the /api/admin route) touches this table.
+alter table public.death_draft_admin_log enable row level security;
+
+-- Undo/reset delete picks; the board drops rows by celebrity_id, which is only
+-- present on DELETE payloads when the full old row is replicated.
+alter table public.death_draft_picks replica identity full;
@@ -0,0 +1,24 @@
+-- League roster: seat order, display name and colour for each player.
+-- The app reads this instead of hardcoding six players, so any league size works.
+create table if not exists public.death_draft_players (
+  seat int primary key check (seat >= 1),
+  name text not null,
+  color text
+);
+
+alter table public.death_draft_players add column if not exists color text;
+
+insert into public.death_draft_players (seat, name, color) values
+  (1, 'Scoot', '#ef4444'),
+  (2, 'Brian', '#f59e0b'),
+  (3, 'Stephan', '#10b981'),
+  (4, 'Bee', '#3b82f6'),
+  (5, 'Ryan', '#8b5cf6'),
+  (6, 'Thomas', '#ec4899')
+on conflict (seat) do nothing;
+
+alter table public.death_draft_players enable row level security;
+
+create policy "death_draft_players read"
+  on public.death_draft_players for select
+  using (true);
@@ -0,0 +1,124 @@
+-- Seasons: every pick, state row and celebrity pool belongs to one draft year.
+-- The edition number shown in titles is derived from the year in lib/season.ts.
+create table if not exists public.death_draft_seasons (
+  year int primary key,
+  is_current boolean not null default false,
+  draft_date date,
+  created_at timestamptz not null default now()
+);
+
+create unique index if not exists death_draft_seasons_one_current
+  on public.death_draft_seasons (is_current) where is_current;
+
+insert into public.death_draft_seasons (year, is_current, draft_date)
+values (2026, true, '2026-01-01')
+on conflict (year) do nothing;
+
+create or replace function public.death_draft_current_season()
+returns int
+language sql
+stable
+as $$
+  select year from public.death_draft_seasons where is_current limit 1
+$$;
+
+-- Existing rows all belong to the season that was running when this shipped.
+alter table public.death_draft_celebrities
+  add column if not exists season int not null default public.death_draft_current_season()
+  references public.death_draft_seasons (year);
+
+alter table public.death_draft_picks
+  add column if not exists season int not null default public.death_draft_current_season()
+  references public.death_draft_seasons (year);
+
+alter table public.death_draft_state
+  add column if not exists season int references public.death_draft_seasons (year);
+
+update public.death_draft_state set season = public.death_draft_current_season() where season is null;
+
+alter table public.death_draft_state alter column season set not null;
+
+create unique index if not exists death_draft_state_season on public.death_draft_state (season);
+
+-- Pick numbers restart every season.
+alter table public.death_draft_picks drop constraint if exists death_draft_picks_pkey;
+alter table public.death_draft_picks add primary key (season, pick_number);
+
+create index if not exists death_draft_celebrities_season on public.death_draft_celebrities (season);
+
+drop view if exists public.death_draft_board;
+create view public.death_draft_board as
+select
+  p.season,
+  p.pick_number,
+  p.seat,
+  pl.name as player_name,
+  p.celebrity_id,
+  c.name as celebrity_name,
+  c.age as celebrity_age,
+  p.picked_at
+from public.death_draft_picks p
+join public.death_draft_celebrities c on c.id = p.celebrity_id
+left join public.death_draft_players pl on pl.seat = p.seat;
+
+drop view if exists public.death_draft_available;
+create view public.death_draft_available as
+select c.id, c.season, c.name, c.age, c.created_at
+from public.death_draft_celebrities c
+where not exists (select 1 from public.death_draft_picks p where p.celebrity_id = c.id);
+
+-- Picks always go into the current season. Turn passes to the next seat in
+-- death_draft_players order, wrapping after the last seat.
+create or replace function public.death_draft_make_pick(p_seat int, p_celebrity_id uuid)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_state death_draft_state%rowtype;
+  v_next_seat int;
+begin
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if v_state.turn_seat <> p_seat then
+    return query select false, 'Not your turn.';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_celebrities where id = p_celebrity_id and season = v_season) then
+    return query select false, 'Unknown celebrity.';
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_picks where celebrity_id = p_celebrity_id) then
+    return query select false, 'Already taken.';
+    return;
+  end if;
+
+  insert into death_draft_picks (season, pick_number, seat, celebrity_id, picked_at)
+  values (v_season, v_state.pick_number + 1, p_seat, p_celebrity_id, now());
+
+  select coalesce(
+    (select seat from death_draft_players where seat > p_seat order by seat limit 1),
+    (select min(seat) from death_draft_players)
+  ) into v_next_seat;
+
+  update death_draft_state
+  set turn_seat = v_next_seat, pick_number = v_state.pick_number + 1, updated_at = now()
+  where season = v_season;
+
+  return query select true, 'ok';
+end;
+$$;
+
+alter table public.death_draft_seasons enable row level security;
+
+create policy "death_draft_seasons read"
+  on public.death_draft_seasons for select
+  using (true);
@@ -0,0 +1,90 @@
+-- Draft order is a per-season setting. order_seats is the round-one order
+-- (null = seat order); snake reverses it on even rounds. A lottery records the
+-- seed it was drawn from so the shuffle in lib/draftOrder.ts can be replayed.
+alter table public.death_draft_seasons
+  add column if not exists order_mode text not null default 'linear'
+    check (order_mode in ('linear', 'snake', 'lottery')),
+  add column if not exists order_seed bigint,
+  add column if not exists order_seats int[];
+
+-- Must stay in sync with seatForPick in lib/draftOrder.ts.
+create or replace function public.death_draft_seat_for_pick(p_season int, p_pick_number int)
+returns int
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_mode text;
+  v_order int[];
+  v_seats int[];
+  v_n int;
+  v_round int;
+  v_idx int;
+begin
+  select order_mode, order_seats into v_mode, v_order from death_draft_seasons where year = p_season;
+
+  -- Recorded seats still in the league first, then any players added since.
+  select array_agg(seat order by coalesce(array_position(v_order, seat), 2147483647), seat)
+  into v_seats
+  from death_draft_players;
+
+  v_n := coalesce(cardinality(v_seats), 0);
+  if v_n = 0 or p_pick_number < 1 then
+    return null;
+  end if;
+
+  v_round := (p_pick_number - 1) / v_n;
+  v_idx := (p_pick_number - 1) % v_n;
+  if v_mode = 'snake' and v_round % 2 = 1 then
+    v_idx := v_n - 1 - v_idx;
+  end if;
+
+  return v_seats[v_idx + 1];
+end;
+$$;
+
+-- Same as before, but the turn now advances along the season's draft order.
+create or replace function public.death_draft_make_pick(p_seat int, p_celebrity_id uuid)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_state death_draft_state%rowtype;
+begin
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if v_state.turn_seat <> p_seat then
+    return query select false, 'Not your turn.';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_celebrities where id = p_celebrity_id and season = v_season) then
+    return query select false, 'Unknown celebrity.';
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_picks where celebrity_id = p_celebrity_id) then
+    return query select false, 'Already taken.';
+    return;
+  end if;
+
+  insert into death_draft_picks (season, pick_number, seat, celebrity_id, picked_at)
+  values (v_season, v_state.pick_number + 1, p_seat, p_celebrity_id, now());
+
+  update death_draft_state
+  set turn_seat = death_draft_seat_for_pick(v_season, v_state.pick_number + 2),
+      pick_number = v_state.pick_number + 1,
+      updated_at = now()
+  where season = v_season;
+
+  return query select true, 'ok';
+end;
+$$;
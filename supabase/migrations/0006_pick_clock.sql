@@ -0,0 +1,135 @@
+-- Per-pick shot clock. The clock for the seat on the turn starts at
+-- death_draft_state.updated_at; null pick_clock_seconds means no clock.
+alter table public.death_draft_seasons
+  add column if not exists pick_clock_seconds int check (pick_clock_seconds is null or pick_clock_seconds > 0);
+
+alter table public.death_draft_picks
+  add column if not exists auto_pick boolean not null default false;
+
+drop view if exists public.death_draft_board;
+create view public.death_draft_board as
+select
+  p.season,
+  p.pick_number,
+  p.seat,
+  pl.name as player_name,
+  p.celebrity_id,
+  c.name as celebrity_name,
+  c.age as celebrity_age,
+  p.picked_at,
+  p.auto_pick
+from public.death_draft_picks p
+join public.death_draft_celebrities c on c.id = p.celebrity_id
+left join public.death_draft_players pl on pl.seat = p.seat;
+
+-- Records a pick for the seat on the clock and advances the turn. Callers must
+-- hold the state row lock and have validated the celebrity.
+create or replace function public.death_draft_record_pick(
+  p_state public.death_draft_state,
+  p_celebrity_id uuid,
+  p_auto boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into death_draft_picks (season, pick_number, seat, celebrity_id, picked_at, auto_pick)
+  values (p_state.season, p_state.pick_number + 1, p_state.turn_seat, p_celebrity_id, now(), p_auto);
+
+  update death_draft_state
+  set turn_seat = death_draft_seat_for_pick(p_state.season, p_state.pick_number + 2),
+      pick_number = p_state.pick_number + 1,
+      updated_at = now()
+  where season = p_state.season;
+end;
+$$;
+
+create or replace function public.death_draft_make_pick(p_seat int, p_celebrity_id uuid)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_state death_draft_state%rowtype;
+begin
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if v_state.turn_seat <> p_seat then
+    return query select false, 'Not your turn.';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_celebrities where id = p_celebrity_id and season = v_season) then
+    return query select false, 'Unknown celebrity.';
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_picks where celebrity_id = p_celebrity_id) then
+    return query select false, 'Already taken.';
+    return;
+  end if;
+
+  perform death_draft_record_pick(v_state, p_celebrity_id, false);
+
+  return query select true, 'ok';
+end;
+$$;
+
+-- Called by /api/clock whenever a client sees the clock hit zero. Safe to call
+-- repeatedly: once a pick lands, updated_at moves and the clock is fresh again.
+create or replace function public.death_draft_auto_pick()
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_clock int;
+  v_state death_draft_state%rowtype;
+  v_celebrity_id uuid;
+begin
+  select pick_clock_seconds into v_clock from death_draft_seasons where year = v_season;
+  if v_clock is null then
+    return query select false, 'No pick clock.';
+    return;
+  end if;
+
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if now() < v_state.updated_at + make_interval(secs => v_clock) then
+    return query select false, 'Clock has not expired.';
+    return;
+  end if;
+
+  select a.id into v_celebrity_id
+  from death_draft_available a
+  where a.season = v_season
+  order by a.created_at, a.name
+  limit 1;
+
+  if v_celebrity_id is null then
+    return query select false, 'No celebrities left.';
+    return;
+  end if;
+
+  perform death_draft_record_pick(v_state, v_celebrity_id, true);
+
+  return query select true, 'ok';
+end;
+$$;
+
+revoke execute on function public.death_draft_record_pick(public.death_draft_state, uuid, boolean) from public, anon, authenticated;
+revoke execute on function public.death_draft_auto_pick() from public, anon, authenticated;
@@ -0,0 +1,128 @@
+-- Each seat's ranked pre-draft queue. Position 1 is the top of the queue.
+create table if not exists public.death_draft_queue (
+  season int not null references public.death_draft_seasons (year),
+  seat int not null references public.death_draft_players (seat) on delete cascade,
+  celebrity_id uuid not null references public.death_draft_celebrities (id) on delete cascade,
+  position int not null,
+  created_at timestamptz not null default now(),
+  primary key (season, seat, celebrity_id)
+);
+
+alter table public.death_draft_queue enable row level security;
+
+create policy "death_draft_queue read"
+  on public.death_draft_queue for select
+  using (true);
+
+alter publication supabase_realtime add table public.death_draft_queue;
+
+-- Replaces a seat's whole queue, so add, remove and reorder are one call each.
+create or replace function public.death_draft_set_queue(p_seat int, p_celebrity_ids uuid[])
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+begin
+  if not exists (select 1 from death_draft_players where seat = p_seat) then
+    return query select false, 'Unknown seat.';
+    return;
+  end if;
+
+  delete from death_draft_queue where season = v_season and seat = p_seat;
+
+  insert into death_draft_queue (season, seat, celebrity_id, position)
+  select v_season, p_seat, a.id, ids.ord
+  from unnest(p_celebrity_ids) with ordinality as ids (id, ord)
+  join death_draft_available a on a.id = ids.id and a.season = v_season
+  on conflict do nothing;
+
+  return query select true, 'ok';
+end;
+$$;
+
+-- Picked celebrities leave every queue as soon as they're taken.
+create or replace function public.death_draft_record_pick(
+  p_state public.death_draft_state,
+  p_celebrity_id uuid,
+  p_auto boolean
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into death_draft_picks (season, pick_number, seat, celebrity_id, picked_at, auto_pick)
+  values (p_state.season, p_state.pick_number + 1, p_state.turn_seat, p_celebrity_id, now(), p_auto);
+
+  delete from death_draft_queue where season = p_state.season and celebrity_id = p_celebrity_id;
+
+  update death_draft_state
+  set turn_seat = death_draft_seat_for_pick(p_state.season, p_state.pick_number + 2),
+      pick_number = p_state.pick_number + 1,
+      updated_at = now()
+  where season = p_state.season;
+end;
+$$;
+
+-- Auto-pick takes the top of the seat's queue, falling back to the oldest
+-- available celebrity when the queue is empty.
+create or replace function public.death_draft_auto_pick()
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_clock int;
+  v_state death_draft_state%rowtype;
+  v_celebrity_id uuid;
+begin
+  select pick_clock_seconds into v_clock from death_draft_seasons where year = v_season;
+  if v_clock is null then
+    return query select false, 'No pick clock.';
+    return;
+  end if;
+
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if now() < v_state.updated_at + make_interval(secs => v_clock) then
+    return query select false, 'Clock has not expired.';
+    return;
+  end if;
+
+  select q.celebrity_id into v_celebrity_id
+  from death_draft_queue q
+  join death_draft_available a on a.id = q.celebrity_id
+  where q.season = v_season and q.seat = v_state.turn_seat
+  order by q.position
+  limit 1;
+
+  if v_celebrity_id is null then
+    select a.id into v_celebrity_id
+    from death_draft_available a
+    where a.season = v_season
+    order by a.created_at, a.name
+    limit 1;
+  end if;
+
+  if v_celebrity_id is null then
+    return query select false, 'No celebrities left.';
+    return;
+  end if;
+
+  perform death_draft_record_pick(v_state, v_celebrity_id, true);
+
+  return query select true, 'ok';
+end;
+$$;
+
+revoke execute on function public.death_draft_auto_pick() from public, anon, authenticated;
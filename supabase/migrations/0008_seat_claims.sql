@@ -0,0 +1,134 @@
+-- Seats are claimed by a Supabase Auth user (magic-link sign in). Only the
+-- claiming user can pick or edit the queue for that seat. The commissioner
+-- releases claims through /api/admin.
+create table if not exists public.death_draft_seat_claims (
+  seat int primary key references public.death_draft_players (seat) on delete cascade,
+  user_id uuid not null unique references auth.users (id) on delete cascade,
+  claimed_at timestamptz not null default now()
+);
+
+alter table public.death_draft_seat_claims enable row level security;
+
+create policy "death_draft_seat_claims read own"
+  on public.death_draft_seat_claims for select
+  using (user_id = auth.uid());
+
+-- Public list of which seats are taken, without exposing who took them.
+create or replace view public.death_draft_claimed_seats as
+select seat, claimed_at from public.death_draft_seat_claims;
+
+create or replace function public.death_draft_owns_seat(p_seat int)
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select exists (
+    select 1 from death_draft_seat_claims where seat = p_seat and user_id = auth.uid()
+  )
+$$;
+
+create or replace function public.death_draft_claim_seat(p_seat int)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_uid uuid := auth.uid();
+begin
+  if v_uid is null then
+    return query select false, 'Sign in first.';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_players where seat = p_seat) then
+    return query select false, 'Unknown seat.';
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_seat_claims where user_id = v_uid and seat <> p_seat) then
+    return query select false, 'You already claimed another seat.';
+    return;
+  end if;
+
+  insert into death_draft_seat_claims (seat, user_id) values (p_seat, v_uid)
+  on conflict (seat) do nothing;
+
+  if not death_draft_owns_seat(p_seat) then
+    return query select false, 'Someone else already claimed this seat.';
+    return;
+  end if;
+
+  return query select true, 'ok';
+end;
+$$;
+
+create or replace function public.death_draft_make_pick(p_seat int, p_celebrity_id uuid)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_state death_draft_state%rowtype;
+begin
+  if not death_draft_owns_seat(p_seat) then
+    return query select false, 'You are not signed in as this seat.';
+    return;
+  end if;
+
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if v_state.turn_seat <> p_seat then
+    return query select false, 'Not your turn.';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_celebrities where id = p_celebrity_id and season = v_season) then
+    return query select false, 'Unknown celebrity.';
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_picks where celebrity_id = p_celebrity_id) then
+    return query select false, 'Already taken.';
+    return;
+  end if;
+
+  perform death_draft_record_pick(v_state, p_celebrity_id, false);
+
+  return query select true, 'ok';
+end;
+$$;
+
+create or replace function public.death_draft_set_queue(p_seat int, p_celebrity_ids uuid[])
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+begin
+  if not death_draft_owns_seat(p_seat) then
+    return query select false, 'You are not signed in as this seat.';
+    return;
+  end if;
+
+  delete from death_draft_queue where season = v_season and seat = p_seat;
+
+  insert into death_draft_queue (season, seat, celebrity_id, position)
+  select v_season, p_seat, a.id, ids.ord
+  from unnest(p_celebrity_ids) with ordinality as ids (id, ord)
+  join death_draft_available a on a.id = ids.id and a.season = v_season
+  on conflict do nothing;
+
+  return query select true, 'ok';
+end;
+$$;
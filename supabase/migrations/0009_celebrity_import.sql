@@ -0,0 +1,47 @@
+-- Bulk pool import from /admin. Birth dates come in with the import; age is
+-- still stored, computed as of the draft date when the row is written.
+alter table public.death_draft_celebrities
+  add column if not exists birth_date date,
+  add column if not exists category text,
+  add column if not exists notes text;
+
+create index if not exists death_draft_celebrities_season_name
+  on public.death_draft_celebrities (season, lower(name));
+
+-- Adds and merges one planned batch in a single transaction. p_add rows are
+-- {name, birth_date, age, category, notes}; p_merge rows are
+-- {id, birth_date, category, notes} and only fill blanks on the pool entry.
+-- Names that landed in the pool since the plan was made are skipped.
+create or replace function public.death_draft_import_celebrities(p_season int, p_add jsonb, p_merge jsonb)
+returns table (added int, merged int)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_added int;
+  v_merged int;
+begin
+  insert into death_draft_celebrities (season, name, birth_date, age, category, notes)
+  select distinct on (lower(r.name)) p_season, r.name, r.birth_date, r.age, r.category, r.notes
+  from jsonb_to_recordset(coalesce(p_add, '[]'::jsonb))
+    as r (name text, birth_date date, age int, category text, notes text)
+  where not exists (
+    select 1 from death_draft_celebrities c where c.season = p_season and lower(c.name) = lower(r.name)
+  );
+  get diagnostics v_added = row_count;
+
+  update death_draft_celebrities c
+  set birth_date = coalesce(c.birth_date, r.birth_date),
+      category = coalesce(c.category, r.category),
+      notes = coalesce(c.notes, r.notes)
+  from jsonb_to_recordset(coalesce(p_merge, '[]'::jsonb))
+    as r (id uuid, birth_date date, category text, notes text)
+  where c.id = r.id and c.season = p_season;
+  get diagnostics v_merged = row_count;
+
+  return query select v_added, v_merged;
+end;
+$$;
+
+revoke execute on function public.death_draft_import_celebrities(int, jsonb, jsonb) from public, anon, authenticated;
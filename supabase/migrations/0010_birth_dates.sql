@@ -0,0 +1,25 @@
+-- Ages are computed from birth_date as of the season's draft date in the app
+-- (and as of died_on for scoring), so the views expose the birth date. The
+-- stored age stays as a fallback for rows without one.
+drop view if exists public.death_draft_board;
+create view public.death_draft_board as
+select
+  p.season,
+  p.pick_number,
+  p.seat,
+  pl.name as player_name,
+  p.celebrity_id,
+  c.name as celebrity_name,
+  c.age as celebrity_age,
+  c.birth_date as celebrity_birth_date,
+  p.picked_at,
+  p.auto_pick
+from public.death_draft_picks p
+join public.death_draft_celebrities c on c.id = p.celebrity_id
+left join public.death_draft_players pl on pl.seat = p.seat;
+
+drop view if exists public.death_draft_available;
+create view public.death_draft_available as
+select c.id, c.season, c.name, c.age, c.birth_date, c.created_at
+from public.death_draft_celebrities c
+where not exists (select 1 from public.death_draft_picks p where p.celebrity_id = c.id);
@@ -0,0 +1,6 @@
+-- The pick list filters by category, so the available view carries it.
+drop view if exists public.death_draft_available;
+create view public.death_draft_available as
+select c.id, c.season, c.name, c.age, c.birth_date, c.category, c.created_at
+from public.death_draft_celebrities c
+where not exists (select 1 from public.death_draft_picks p where p.celebrity_id = c.id);
@@ -0,0 +1,86 @@
+-- Richer celebrity records: shown in the pick confirm sheet, board expanders
+-- and the board CSV. Links are checked again in the app before rendering.
+alter table public.death_draft_celebrities
+  add column if not exists nationality text,
+  add column if not exists reference_url text check (reference_url is null or reference_url ~* '^https?://'),
+  add column if not exists photo_url text check (photo_url is null or photo_url ~* '^https?://');
+
+drop view if exists public.death_draft_board;
+create view public.death_draft_board as
+select
+  p.season,
+  p.pick_number,
+  p.seat,
+  pl.name as player_name,
+  p.celebrity_id,
+  c.name as celebrity_name,
+  c.age as celebrity_age,
+  c.birth_date as celebrity_birth_date,
+  c.category as celebrity_category,
+  c.nationality as celebrity_nationality,
+  c.notes as celebrity_notes,
+  c.reference_url as celebrity_url,
+  c.photo_url as celebrity_photo_url,
+  p.picked_at,
+  p.auto_pick
+from public.death_draft_picks p
+join public.death_draft_celebrities c on c.id = p.celebrity_id
+left join public.death_draft_players pl on pl.seat = p.seat;
+
+drop view if exists public.death_draft_available;
+create view public.death_draft_available as
+select
+  c.id,
+  c.season,
+  c.name,
+  c.age,
+  c.birth_date,
+  c.category,
+  c.nationality,
+  c.notes,
+  c.reference_url,
+  c.photo_url,
+  c.created_at
+from public.death_draft_celebrities c
+where not exists (select 1 from public.death_draft_picks p where p.celebrity_id = c.id);
+
+-- Same as 0009, with the new profile fields.
+create or replace function public.death_draft_import_celebrities(p_season int, p_add jsonb, p_merge jsonb)
+returns table (added int, merged int)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_added int;
+  v_merged int;
+begin
+  insert into death_draft_celebrities (
+    season, name, birth_date, age, category, nationality, notes, reference_url, photo_url
+  )
+  select distinct on (lower(r.name))
+    p_season, r.name, r.birth_date, r.age, r.category, r.nationality, r.notes, r.reference_url, r.photo_url
+  from jsonb_to_recordset(coalesce(p_add, '[]'::jsonb)) as r (
+    name text, birth_date date, age int, category text, nationality text, notes text, reference_url text, photo_url text
+  )
+  where not exists (
+    select 1 from death_draft_celebrities c where c.season = p_season and lower(c.name) = lower(r.name)
+  );
+  get diagnostics v_added = row_count;
+
+  update death_draft_celebrities c
+  set birth_date = coalesce(c.birth_date, r.birth_date),
+      category = coalesce(c.category, r.category),
+      nationality = coalesce(c.nationality, r.nationality),
+      notes = coalesce(c.notes, r.notes),
+      reference_url = coalesce(c.reference_url, r.reference_url),
+      photo_url = coalesce(c.photo_url, r.photo_url)
+  from jsonb_to_recordset(coalesce(p_merge, '[]'::jsonb)) as r (
+    id uuid, birth_date date, category text, nationality text, notes text, reference_url text, photo_url text
+  )
+  where c.id = r.id and c.season = p_season;
+  get diagnostics v_merged = row_count;
+
+  return query select v_added, v_merged;
+end;
+$$;
@@ -0,0 +1,284 @@
+-- Post-draft trades. A pick's `seat` stays the seat that drafted it; the
+-- current owner lives in `owner_seat` and is what rosters and scoring use.
+alter table public.death_draft_picks
+  add column if not exists owner_seat int references public.death_draft_players (seat);
+
+update public.death_draft_picks set owner_seat = seat where owner_seat is null;
+
+create or replace function public.death_draft_default_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.owner_seat := coalesce(new.owner_seat, new.seat);
+  return new;
+end;
+$$;
+
+drop trigger if exists death_draft_picks_default_owner on public.death_draft_picks;
+create trigger death_draft_picks_default_owner
+  before insert on public.death_draft_picks
+  for each row execute function public.death_draft_default_owner();
+
+create table if not exists public.death_draft_trades (
+  id bigint generated always as identity primary key,
+  season int not null references public.death_draft_seasons (year),
+  from_seat int not null references public.death_draft_players (seat),
+  to_seat int not null references public.death_draft_players (seat),
+  status text not null default 'pending'
+    check (status in ('pending', 'accepted', 'rejected', 'cancelled', 'vetoed')),
+  note text,
+  proposed_at timestamptz not null default now(),
+  resolved_at timestamptz,
+  check (from_seat <> to_seat)
+);
+
+-- Each item moves from `from_seat` to the other side of the trade.
+create table if not exists public.death_draft_trade_items (
+  trade_id bigint not null references public.death_draft_trades (id) on delete cascade,
+  celebrity_id uuid not null references public.death_draft_celebrities (id),
+  from_seat int not null,
+  primary key (trade_id, celebrity_id)
+);
+
+create index if not exists death_draft_trades_season on public.death_draft_trades (season, proposed_at desc);
+
+alter table public.death_draft_trades enable row level security;
+alter table public.death_draft_trade_items enable row level security;
+
+create policy "death_draft_trades read" on public.death_draft_trades for select using (true);
+create policy "death_draft_trade_items read" on public.death_draft_trade_items for select using (true);
+
+alter publication supabase_realtime add table public.death_draft_trades;
+
+drop view if exists public.death_draft_board;
+create view public.death_draft_board as
+select
+  p.season,
+  p.pick_number,
+  p.seat,
+  pl.name as player_name,
+  p.owner_seat,
+  o.name as owner_name,
+  p.celebrity_id,
+  c.name as celebrity_name,
+  c.age as celebrity_age,
+  c.birth_date as celebrity_birth_date,
+  c.category as celebrity_category,
+  c.nationality as celebrity_nationality,
+  c.notes as celebrity_notes,
+  c.reference_url as celebrity_url,
+  c.photo_url as celebrity_photo_url,
+  p.picked_at,
+  p.auto_pick
+from public.death_draft_picks p
+join public.death_draft_celebrities c on c.id = p.celebrity_id
+left join public.death_draft_players pl on pl.seat = p.seat
+left join public.death_draft_players o on o.seat = p.owner_seat;
+
+-- Trading opens once every celebrity in the season's pool has been drafted.
+create or replace function public.death_draft_is_complete(p_season int)
+returns boolean
+language sql
+stable
+set search_path = public
+as $$
+  select exists (select 1 from death_draft_picks where season = p_season)
+    and not exists (select 1 from death_draft_available where season = p_season)
+$$;
+
+create or replace function public.death_draft_propose_trade(
+  p_from_seat int,
+  p_to_seat int,
+  p_give uuid[],
+  p_get uuid[],
+  p_note text
+)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_trade_id bigint;
+begin
+  if not death_draft_owns_seat(p_from_seat) then
+    return query select false, 'You are not signed in as this seat.';
+    return;
+  end if;
+
+  if not death_draft_is_complete(v_season) then
+    return query select false, 'Trades open once the draft is complete.';
+    return;
+  end if;
+
+  if p_from_seat = p_to_seat or not exists (select 1 from death_draft_players where seat = p_to_seat) then
+    return query select false, 'Pick another seat to trade with.';
+    return;
+  end if;
+
+  if coalesce(array_length(p_give, 1), 0) = 0 or coalesce(array_length(p_get, 1), 0) = 0 then
+    return query select false, 'A trade needs at least one celebrity on each side.';
+    return;
+  end if;
+
+  if (select count(*) from death_draft_picks
+      where season = v_season and owner_seat = p_from_seat and celebrity_id = any (p_give))
+     <> (select count(distinct g) from unnest(p_give) g) then
+    return query select false, 'You can only offer celebrities you own.';
+    return;
+  end if;
+
+  if (select count(*) from death_draft_picks
+      where season = v_season and owner_seat = p_to_seat and celebrity_id = any (p_get))
+     <> (select count(distinct g) from unnest(p_get) g) then
+    return query select false, 'You can only ask for celebrities they own.';
+    return;
+  end if;
+
+  insert into death_draft_trades (season, from_seat, to_seat, note)
+  values (v_season, p_from_seat, p_to_seat, nullif(trim(p_note), ''))
+  returning id into v_trade_id;
+
+  insert into death_draft_trade_items (trade_id, celebrity_id, from_seat)
+  select v_trade_id, g, p_from_seat from (select distinct unnest(p_give) as g) x
+  union all
+  select v_trade_id, g, p_to_seat from (select distinct unnest(p_get) as g) y;
+
+  return query select true, 'ok';
+end;
+$$;
+
+-- Moves every item to the other side of the trade, provided each one is still
+-- owned by the seat it was offered from. Returns false if anything moved.
+create or replace function public.death_draft_apply_trade(p_trade public.death_draft_trades, p_reverse boolean)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_items int;
+  v_moved int;
+begin
+  select count(*) into v_items from death_draft_trade_items where trade_id = p_trade.id;
+
+  update death_draft_picks p
+  set owner_seat = case
+    when (i.from_seat = p_trade.from_seat) <> p_reverse then p_trade.to_seat
+    else p_trade.from_seat
+  end
+  from death_draft_trade_items i
+  where i.trade_id = p_trade.id
+    and p.season = p_trade.season
+    and p.celebrity_id = i.celebrity_id
+    and p.owner_seat = case
+      when p_reverse then (case when i.from_seat = p_trade.from_seat then p_trade.to_seat else p_trade.from_seat end)
+      else i.from_seat
+    end;
+  get diagnostics v_moved = row_count;
+
+  return v_moved = v_items;
+end;
+$$;
+
+-- p_response is 'accept' or 'reject' (the other seat) or 'cancel' (the proposer).
+create or replace function public.death_draft_respond_trade(p_trade_id bigint, p_response text)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trade death_draft_trades%rowtype;
+begin
+  select * into v_trade from death_draft_trades where id = p_trade_id for update;
+  if not found then
+    return query select false, 'Unknown trade.';
+    return;
+  end if;
+
+  if v_trade.status <> 'pending' then
+    return query select false, 'This trade is already ' || v_trade.status || '.';
+    return;
+  end if;
+
+  if p_response = 'cancel' then
+    if not death_draft_owns_seat(v_trade.from_seat) then
+      return query select false, 'Only the proposer can cancel.';
+      return;
+    end if;
+  elsif p_response in ('accept', 'reject') then
+    if not death_draft_owns_seat(v_trade.to_seat) then
+      return query select false, 'Only the other seat can respond.';
+      return;
+    end if;
+  else
+    return query select false, 'Unknown response.';
+    return;
+  end if;
+
+  if p_response = 'accept' and not death_draft_apply_trade(v_trade, false) then
+    -- Roll back any partial move; someone's roster changed since the proposal.
+    raise exception 'Rosters changed since this trade was proposed.' using errcode = 'P0001';
+  end if;
+
+  update death_draft_trades
+  set status = case p_response when 'accept' then 'accepted' when 'reject' then 'rejected' else 'cancelled' end,
+      resolved_at = now()
+  where id = p_trade_id;
+
+  if p_response = 'accept' then
+    -- Other offers involving these celebrities can no longer go through.
+    update death_draft_trades t
+    set status = 'cancelled', resolved_at = now()
+    where t.status = 'pending'
+      and t.id <> p_trade_id
+      and exists (
+        select 1
+        from death_draft_trade_items a
+        join death_draft_trade_items b on b.celebrity_id = a.celebrity_id
+        where a.trade_id = t.id and b.trade_id = p_trade_id
+      );
+  end if;
+
+  return query select true, 'ok';
+end;
+$$;
+
+-- Commissioner veto from /api/admin. Pending trades are just closed; accepted
+-- ones are reversed, as long as nothing in them has been traded on since.
+create or replace function public.death_draft_veto_trade(p_trade_id bigint)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trade death_draft_trades%rowtype;
+begin
+  select * into v_trade from death_draft_trades where id = p_trade_id for update;
+  if not found then
+    return query select false, 'Unknown trade.';
+    return;
+  end if;
+
+  if v_trade.status not in ('pending', 'accepted') then
+    return query select false, 'This trade is already ' || v_trade.status || '.';
+    return;
+  end if;
+
+  if v_trade.status = 'accepted' and not death_draft_apply_trade(v_trade, true) then
+    raise exception 'Some of these celebrities have been traded again; veto the later trade first.'
+      using errcode = 'P0001';
+  end if;
+
+  update death_draft_trades set status = 'vetoed', resolved_at = now() where id = p_trade_id;
+
+  return query select true, 'ok';
+end;
+$$;
+
+revoke execute on function public.death_draft_apply_trade(public.death_draft_trades, boolean) from public, anon, authenticated;
+revoke execute on function public.death_draft_veto_trade(bigint) from public, anon, authenticated;
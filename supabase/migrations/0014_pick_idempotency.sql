@@ -0,0 +1,95 @@
+-- Picks carry a client-generated key so a retry after a dropped response is
+-- recognised as the same pick instead of a second attempt.
+alter table public.death_draft_picks
+  add column if not exists client_key uuid unique;
+
+drop function if exists public.death_draft_make_pick(int, uuid);
+drop function if exists public.death_draft_record_pick(public.death_draft_state, uuid, boolean);
+
+-- Same as 0007 plus the key. Existing three-argument callers (auto_pick) get
+-- the null default.
+create function public.death_draft_record_pick(
+  p_state public.death_draft_state,
+  p_celebrity_id uuid,
+  p_auto boolean,
+  p_client_key uuid default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into death_draft_picks (season, pick_number, seat, celebrity_id, picked_at, auto_pick, client_key)
+  values (p_state.season, p_state.pick_number + 1, p_state.turn_seat, p_celebrity_id, now(), p_auto, p_client_key);
+
+  delete from death_draft_queue where season = p_state.season and celebrity_id = p_celebrity_id;
+
+  update death_draft_state
+  set turn_seat = death_draft_seat_for_pick(p_state.season, p_state.pick_number + 2),
+      pick_number = p_state.pick_number + 1,
+      updated_at = now()
+  where season = p_state.season;
+end;
+$$;
+
+-- `code` lets the client tell a lost-response retry ('duplicate') and a
+-- sniped celebrity ('taken') apart from other rejections.
+create function public.death_draft_make_pick(p_seat int, p_celebrity_id uuid, p_client_key uuid default null)
+returns table (ok boolean, message text, code text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_state death_draft_state%rowtype;
+  v_existing death_draft_picks%rowtype;
+begin
+  if not death_draft_owns_seat(p_seat) then
+    return query select false, 'You are not signed in as this seat.', 'not_owner';
+    return;
+  end if;
+
+  -- Take the lock before looking at the key, so two copies of the same request
+  -- can't both miss it and then disagree about whose turn it is.
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.', 'no_draft';
+    return;
+  end if;
+
+  if p_client_key is not null then
+    select * into v_existing from death_draft_picks where client_key = p_client_key;
+    if found then
+      if v_existing.seat = p_seat and v_existing.celebrity_id = p_celebrity_id then
+        return query select true, 'Already recorded.', 'duplicate';
+      else
+        return query select false, 'That request was already used for another pick.', 'conflict';
+      end if;
+      return;
+    end if;
+  end if;
+
+  if exists (select 1 from death_draft_picks where celebrity_id = p_celebrity_id) then
+    return query select false, 'Already taken.', 'taken';
+    return;
+  end if;
+
+  if v_state.turn_seat <> p_seat then
+    return query select false, 'Not your turn.', 'not_your_turn';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_celebrities where id = p_celebrity_id and season = v_season) then
+    return query select false, 'Unknown celebrity.', 'unknown';
+    return;
+  end if;
+
+  perform death_draft_record_pick(v_state, p_celebrity_id, false, p_client_key);
+
+  return query select true, 'ok', 'ok';
+end;
+$$;
+
+revoke execute on function public.death_draft_record_pick(public.death_draft_state, uuid, boolean, uuid) from public, anon, authenticated;
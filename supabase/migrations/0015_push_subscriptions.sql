@@ -0,0 +1,80 @@
+-- Web Push subscriptions, one per device, for "you're up" / "on deck" alerts.
+-- Endpoints are bearer secrets, so nothing here is readable by clients; the
+-- pick page writes through the RPCs below and /api/push reads with the
+-- service role.
+create table if not exists public.death_draft_push_subscriptions (
+  endpoint text primary key,
+  seat int not null references public.death_draft_players (seat) on delete cascade,
+  p256dh text not null,
+  auth text not null,
+  user_id uuid references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists death_draft_push_subscriptions_seat
+  on public.death_draft_push_subscriptions (seat);
+
+alter table public.death_draft_push_subscriptions enable row level security;
+
+-- One row per turn that has been announced, so however many clients report a
+-- turn change, each seat hears about it once. A turn is identified by when it
+-- started, so an undone pick is announced again when it comes back round.
+create table if not exists public.death_draft_push_sent (
+  season int not null,
+  pick_number int not null,
+  turn_started_at timestamptz not null,
+  sent_at timestamptz not null default now(),
+  primary key (season, pick_number, turn_started_at)
+);
+
+alter table public.death_draft_push_sent enable row level security;
+
+create or replace function public.death_draft_save_push_subscription(
+  p_seat int,
+  p_endpoint text,
+  p_p256dh text,
+  p_auth text
+)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if not death_draft_owns_seat(p_seat) then
+    return query select false, 'You are not signed in as this seat.';
+    return;
+  end if;
+
+  if p_endpoint !~ '^https://' then
+    return query select false, 'Push endpoints must be https.';
+    return;
+  end if;
+
+  -- A device re-subscribing (or switching seats) replaces its old row.
+  insert into death_draft_push_subscriptions (endpoint, seat, p256dh, auth, user_id)
+  values (p_endpoint, p_seat, p_p256dh, p_auth, auth.uid())
+  on conflict (endpoint) do update
+    set seat = excluded.seat,
+        p256dh = excluded.p256dh,
+        auth = excluded.auth,
+        user_id = excluded.user_id,
+        created_at = now();
+
+  return query select true, 'ok';
+end;
+$$;
+
+create or replace function public.death_draft_delete_push_subscription(p_endpoint text)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  delete from death_draft_push_subscriptions
+  where endpoint = p_endpoint and user_id = auth.uid();
+
+  return query select true, 'ok';
+end;
+$$;
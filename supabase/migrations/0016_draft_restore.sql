@@ -0,0 +1,87 @@
+-- Restores a draft log export (lib/draftLog.ts) into a season with no picks.
+-- Everything happens in one transaction: order settings, any drafted
+-- celebrities missing from the pool, the picks, then death_draft_state.
+create or replace function public.death_draft_restore_draft(
+  p_season int,
+  p_order_mode text,
+  p_order_seed bigint,
+  p_order_seats int[],
+  p_pick_clock_seconds int,
+  p_celebrities jsonb,
+  p_picks jsonb,
+  p_turn_seat int,
+  p_pick_number int,
+  p_turn_started_at timestamptz
+)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_state death_draft_state%rowtype;
+  v_elsewhere text;
+  v_restored int;
+begin
+  -- Holding the state row keeps make_pick and auto_pick out until we're done.
+  select * into v_state from death_draft_state where season = p_season for update;
+  if not found then
+    return query select false, format('Season %s has no draft to restore into.', p_season);
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_picks where season = p_season) then
+    return query select false, 'The draft already has picks. Reset it first.';
+    return;
+  end if;
+
+  select c.name into v_elsewhere
+  from jsonb_to_recordset(coalesce(p_celebrities, '[]'::jsonb)) as r (id uuid)
+  join death_draft_celebrities c on c.id = r.id
+  where c.season <> p_season
+  limit 1;
+  if v_elsewhere is not null then
+    return query select false, format('%s belongs to another season.', v_elsewhere);
+    return;
+  end if;
+
+  update death_draft_seasons
+  set order_mode = p_order_mode,
+      order_seed = p_order_seed,
+      order_seats = p_order_seats,
+      pick_clock_seconds = p_pick_clock_seconds
+  where year = p_season;
+
+  insert into death_draft_celebrities (
+    id, season, name, birth_date, age, category, nationality, notes, reference_url, photo_url
+  )
+  select r.id, p_season, r.name, r.birth_date, r.age, r.category, r.nationality, r.notes, r.reference_url, r.photo_url
+  from jsonb_to_recordset(coalesce(p_celebrities, '[]'::jsonb)) as r (
+    id uuid, name text, birth_date date, age int, category text, nationality text, notes text, reference_url text, photo_url text
+  )
+  on conflict (id) do nothing;
+
+  insert into death_draft_picks (season, pick_number, seat, owner_seat, celebrity_id, picked_at, auto_pick)
+  select p_season, r.pick_number, r.seat, r.owner_seat, r.celebrity_id, r.picked_at, r.auto_pick
+  from jsonb_to_recordset(coalesce(p_picks, '[]'::jsonb)) as r (
+    pick_number int, seat int, owner_seat int, celebrity_id uuid, picked_at timestamptz, auto_pick boolean
+  );
+  get diagnostics v_restored = row_count;
+
+  -- Restored picks are off the board, so they come out of everyone's queue.
+  delete from death_draft_queue q
+  using death_draft_picks p
+  where p.season = p_season and q.season = p_season and q.celebrity_id = p.celebrity_id;
+
+  update death_draft_state
+  set turn_seat = p_turn_seat,
+      pick_number = p_pick_number,
+      updated_at = p_turn_started_at
+  where season = p_season;
+
+  return query select true, format('Restored %s picks.', v_restored);
+end;
+$$;
+
+revoke execute on function public.death_draft_restore_draft(int, text, bigint, int[], int, jsonb, jsonb, int, int, timestamptz)
+  from public, anon, authenticated;
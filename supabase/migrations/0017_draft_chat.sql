@@ -0,0 +1,106 @@
+-- Draft-night chat and emoji reactions to picks, kept per season. Everyone
+-- can read them; only the login holding a seat can post as it, through the
+-- RPCs below.
+create table if not exists public.death_draft_chat (
+  id bigint generated always as identity primary key,
+  season int not null references public.death_draft_seasons (year),
+  seat int not null references public.death_draft_players (seat) on delete cascade,
+  body text not null check (char_length(body) between 1 and 500),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists death_draft_chat_season on public.death_draft_chat (season, created_at desc);
+
+-- One row per seat per emoji per pick; reacting again takes it back. Undoing
+-- or resetting picks drops their reactions with them.
+create table if not exists public.death_draft_reactions (
+  season int not null,
+  pick_number int not null,
+  seat int not null references public.death_draft_players (seat) on delete cascade,
+  emoji text not null check (emoji in ('💀', '⚰️', '😂', '🔥', '🤡', '👀')),
+  created_at timestamptz not null default now(),
+  primary key (season, pick_number, seat, emoji),
+  foreign key (season, pick_number) references public.death_draft_picks (season, pick_number) on delete cascade
+);
+
+alter table public.death_draft_chat enable row level security;
+alter table public.death_draft_reactions enable row level security;
+
+create policy "death_draft_chat read" on public.death_draft_chat for select using (true);
+create policy "death_draft_reactions read" on public.death_draft_reactions for select using (true);
+
+alter publication supabase_realtime add table public.death_draft_chat;
+alter publication supabase_realtime add table public.death_draft_reactions;
+
+create or replace function public.death_draft_post_chat(p_seat int, p_body text)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_body text := trim(coalesce(p_body, ''));
+begin
+  if not death_draft_owns_seat(p_seat) then
+    return query select false, 'You are not signed in as this seat.';
+    return;
+  end if;
+
+  if v_season is null then
+    return query select false, 'No season is running.';
+    return;
+  end if;
+
+  if v_body = '' then
+    return query select false, 'Say something.';
+    return;
+  end if;
+
+  if char_length(v_body) > 500 then
+    return query select false, 'Keep it under 500 characters.';
+    return;
+  end if;
+
+  if (select count(*) from death_draft_chat
+      where seat = p_seat and created_at > now() - interval '10 seconds') >= 5 then
+    return query select false, 'Slow down.';
+    return;
+  end if;
+
+  insert into death_draft_chat (season, seat, body) values (v_season, p_seat, v_body);
+
+  return query select true, 'ok';
+end;
+$$;
+
+create or replace function public.death_draft_toggle_reaction(p_seat int, p_pick_number int, p_emoji text)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+begin
+  if not death_draft_owns_seat(p_seat) then
+    return query select false, 'You are not signed in as this seat.';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_picks where season = v_season and pick_number = p_pick_number) then
+    return query select false, 'Unknown pick.';
+    return;
+  end if;
+
+  delete from death_draft_reactions
+  where season = v_season and pick_number = p_pick_number and seat = p_seat and emoji = p_emoji;
+
+  if not found then
+    insert into death_draft_reactions (season, pick_number, seat, emoji)
+    values (v_season, p_pick_number, p_seat, p_emoji);
+  end if;
+
+  return query select true, 'ok';
+end;
+$$;
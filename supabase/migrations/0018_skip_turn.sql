@@ -0,0 +1,171 @@
+-- A commissioner skip used to hand the turn to the on-deck seat without
+-- consuming the skipped slot, so the next pick gave that seat the turn again.
+-- Skips are now counted on the state row, and pick N is made from order slot
+-- N + skipped_slots.
+alter table public.death_draft_state
+  add column if not exists skipped_slots int not null default 0;
+
+-- Must stay in sync with seatForPick in lib/draftOrder.ts. Reads the season's
+-- skip count itself, so every caller that advances the turn stays in step.
+create or replace function public.death_draft_seat_for_pick(p_season int, p_pick_number int)
+returns int
+language plpgsql
+stable
+set search_path = public
+as $$
+declare
+  v_mode text;
+  v_order int[];
+  v_seats int[];
+  v_n int;
+  v_slot int;
+  v_round int;
+  v_idx int;
+begin
+  select order_mode, order_seats into v_mode, v_order from death_draft_seasons where year = p_season;
+
+  -- Recorded seats still in the league first, then any players added since.
+  select array_agg(seat order by coalesce(array_position(v_order, seat), 2147483647), seat)
+  into v_seats
+  from death_draft_players;
+
+  v_n := coalesce(cardinality(v_seats), 0);
+  if v_n = 0 or p_pick_number < 1 then
+    return null;
+  end if;
+
+  v_slot := p_pick_number + coalesce((select skipped_slots from death_draft_state where season = p_season), 0);
+  v_round := (v_slot - 1) / v_n;
+  v_idx := (v_slot - 1) % v_n;
+  if v_mode = 'snake' and v_round % 2 = 1 then
+    v_idx := v_n - 1 - v_idx;
+  end if;
+
+  return v_seats[v_idx + 1];
+end;
+$$;
+
+-- Gives the seat on the clock's slot away: the on-deck seat picks next, and
+-- every later pick shifts one slot along the order.
+create or replace function public.death_draft_skip_turn(p_season int)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_state death_draft_state%rowtype;
+  v_next int;
+begin
+  select * into v_state from death_draft_state where season = p_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if not exists (select 1 from death_draft_players) then
+    return query select false, 'The league has no players.';
+    return;
+  end if;
+
+  update death_draft_state set skipped_slots = skipped_slots + 1 where id = v_state.id;
+  v_next := death_draft_seat_for_pick(p_season, v_state.pick_number + 1);
+
+  update death_draft_state set turn_seat = v_next, updated_at = now() where id = v_state.id;
+
+  return query select true, format('Skipped seat %s; seat %s is on the clock.', v_state.turn_seat, v_next);
+end;
+$$;
+
+revoke execute on function public.death_draft_skip_turn(int) from public, anon, authenticated;
+
+-- Restores carry the skip count too, or a restored draft would hand out turns
+-- from the wrong slots. Same function as 0016 with one more argument.
+drop function if exists public.death_draft_restore_draft(int, text, bigint, int[], int, jsonb, jsonb, int, int, timestamptz);
+
+create or replace function public.death_draft_restore_draft(
+  p_season int,
+  p_order_mode text,
+  p_order_seed bigint,
+  p_order_seats int[],
+  p_pick_clock_seconds int,
+  p_celebrities jsonb,
+  p_picks jsonb,
+  p_turn_seat int,
+  p_pick_number int,
+  p_turn_started_at timestamptz,
+  p_skipped_slots int default 0
+)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_state death_draft_state%rowtype;
+  v_elsewhere text;
+  v_restored int;
+begin
+  -- Holding the state row keeps make_pick and auto_pick out until we're done.
+  select * into v_state from death_draft_state where season = p_season for update;
+  if not found then
+    return query select false, format('Season %s has no draft to restore into.', p_season);
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_picks where season = p_season) then
+    return query select false, 'The draft already has picks. Reset it first.';
+    return;
+  end if;
+
+  select c.name into v_elsewhere
+  from jsonb_to_recordset(coalesce(p_celebrities, '[]'::jsonb)) as r (id uuid)
+  join death_draft_celebrities c on c.id = r.id
+  where c.season <> p_season
+  limit 1;
+  if v_elsewhere is not null then
+    return query select false, format('%s belongs to another season.', v_elsewhere);
+    return;
+  end if;
+
+  update death_draft_seasons
+  set order_mode = p_order_mode,
+      order_seed = p_order_seed,
+      order_seats = p_order_seats,
+      pick_clock_seconds = p_pick_clock_seconds
+  where year = p_season;
+
+  insert into death_draft_celebrities (
+    id, season, name, birth_date, age, category, nationality, notes, reference_url, photo_url
+  )
+  select r.id, p_season, r.name, r.birth_date, r.age, r.category, r.nationality, r.notes, r.reference_url, r.photo_url
+  from jsonb_to_recordset(coalesce(p_celebrities, '[]'::jsonb)) as r (
+    id uuid, name text, birth_date date, age int, category text, nationality text, notes text, reference_url text, photo_url text
+  )
+  on conflict (id) do nothing;
+
+  insert into death_draft_picks (season, pick_number, seat, owner_seat, celebrity_id, picked_at, auto_pick)
+  select p_season, r.pick_number, r.seat, r.owner_seat, r.celebrity_id, r.picked_at, r.auto_pick
+  from jsonb_to_recordset(coalesce(p_picks, '[]'::jsonb)) as r (
+    pick_number int, seat int, owner_seat int, celebrity_id uuid, picked_at timestamptz, auto_pick boolean
+  );
+  get diagnostics v_restored = row_count;
+
+  -- Restored picks are off the board, so they come out of everyone's queue.
+  delete from death_draft_queue q
+  using death_draft_picks p
+  where p.season = p_season and q.season = p_season and q.celebrity_id = p.celebrity_id;
+
+  update death_draft_state
+  set turn_seat = p_turn_seat,
+      pick_number = p_pick_number,
+      updated_at = p_turn_started_at,
+      skipped_slots = coalesce(p_skipped_slots, 0)
+  where season = p_season;
+
+  return query select true, format('Restored %s picks.', v_restored);
+end;
+$$;
+
+revoke execute on function public.death_draft_restore_draft(int, text, bigint, int[], int, jsonb, jsonb, int, int, timestamptz, int)
+  from public, anon, authenticated;
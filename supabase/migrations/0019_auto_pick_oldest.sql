@@ -0,0 +1,71 @@
+-- The empty-queue fallback took the earliest-imported celebrity. It now takes
+-- the oldest, matching the pick list's default sort. Otherwise as in 0007.
+create or replace function public.death_draft_auto_pick()
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_clock int;
+  v_state death_draft_state%rowtype;
+  v_celebrity_id uuid;
+begin
+  select pick_clock_seconds into v_clock from death_draft_seasons where year = v_season;
+  if v_clock is null then
+    return query select false, 'No pick clock.';
+    return;
+  end if;
+
+  select * into v_state from death_draft_state where season = v_season for update;
+  if not found then
+    return query select false, 'No draft is running.';
+    return;
+  end if;
+
+  if now() < v_state.updated_at + make_interval(secs => v_clock) then
+    return query select false, 'Clock has not expired.';
+    return;
+  end if;
+
+  select q.celebrity_id into v_celebrity_id
+  from death_draft_queue q
+  join death_draft_available a on a.id = q.celebrity_id
+  where q.season = v_season and q.seat = v_state.turn_seat
+  order by q.position
+  limit 1;
+
+  if v_celebrity_id is null then
+    select a.id into v_celebrity_id
+    from death_draft_available a
+    where a.season = v_season
+    order by a.birth_date asc nulls last, a.age desc, a.name
+    limit 1;
+  end if;
+
+  if v_celebrity_id is null then
+    return query select false, 'No celebrities left.';
+    return;
+  end if;
+
+  perform death_draft_record_pick(v_state, v_celebrity_id, true);
+
+  return query select true, 'ok';
+end;
+$$;
+
+revoke execute on function public.death_draft_auto_pick() from public, anon, authenticated;
+
+-- Expiry is only acted on when something calls death_draft_auto_pick: every
+-- board and pick page posts to /api/clock when its countdown hits zero, so a
+-- clock runs out unattended if nobody has the draft open. Where pg_cron is
+-- installed, also run it from the database every 15 seconds; calls before the
+-- clock expires just return 'Clock has not expired.'.
+do $$
+begin
+  if exists (select 1 from pg_extension where extname = 'pg_cron') then
+    execute $cron$select cron.schedule('death-draft-auto-pick', '15 seconds', 'select public.death_draft_auto_pick()')$cron$;
+  end if;
+end;
+$$;
@@ -0,0 +1,14 @@
+-- The pick page only shows turn alerts as on when this device's subscription
+-- is stored against the seat being viewed; a browser subscribed for another
+-- seat (or by another user) reads as off until it's saved again here.
+create or replace function public.death_draft_push_subscription_seat(p_endpoint text)
+returns int
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select seat
+  from death_draft_push_subscriptions
+  where endpoint = p_endpoint and user_id = auth.uid();
+$$;
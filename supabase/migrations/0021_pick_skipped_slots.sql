@@ -0,0 +1,146 @@
+-- Rounds follow order slots, not pick numbers: after a commissioner skip,
+-- pick N comes from slot N + skipped_slots. Each pick records the skip count
+-- it was made under so the board, log and TV mode can place it in its round.
+-- Picks from before this migration can't be told apart and count as unskipped.
+alter table public.death_draft_picks
+  add column if not exists skipped_slots int;
+
+update public.death_draft_picks set skipped_slots = 0 where skipped_slots is null;
+
+alter table public.death_draft_picks
+  alter column skipped_slots set not null;
+
+-- Fills the count from the draft state, so make_pick and auto_pick need no
+-- changes; restores pass the logged value instead.
+create or replace function public.death_draft_default_skipped_slots()
+returns trigger
+language plpgsql
+as $$
+begin
+  new.skipped_slots := coalesce(
+    new.skipped_slots,
+    (select skipped_slots from public.death_draft_state where season = new.season),
+    0
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists death_draft_picks_default_skipped_slots on public.death_draft_picks;
+create trigger death_draft_picks_default_skipped_slots
+  before insert on public.death_draft_picks
+  for each row execute function public.death_draft_default_skipped_slots();
+
+create or replace view public.death_draft_board as
+select
+  p.season,
+  p.pick_number,
+  p.seat,
+  pl.name as player_name,
+  p.owner_seat,
+  o.name as owner_name,
+  p.celebrity_id,
+  c.name as celebrity_name,
+  c.age as celebrity_age,
+  c.birth_date as celebrity_birth_date,
+  c.category as celebrity_category,
+  c.nationality as celebrity_nationality,
+  c.notes as celebrity_notes,
+  c.reference_url as celebrity_url,
+  c.photo_url as celebrity_photo_url,
+  p.picked_at,
+  p.auto_pick,
+  p.skipped_slots
+from public.death_draft_picks p
+join public.death_draft_celebrities c on c.id = p.celebrity_id
+left join public.death_draft_players pl on pl.seat = p.seat
+left join public.death_draft_players o on o.seat = p.owner_seat;
+
+-- Same as 0018, with each pick's skip count restored from the log.
+create or replace function public.death_draft_restore_draft(
+  p_season int,
+  p_order_mode text,
+  p_order_seed bigint,
+  p_order_seats int[],
+  p_pick_clock_seconds int,
+  p_celebrities jsonb,
+  p_picks jsonb,
+  p_turn_seat int,
+  p_pick_number int,
+  p_turn_started_at timestamptz,
+  p_skipped_slots int default 0
+)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_state death_draft_state%rowtype;
+  v_elsewhere text;
+  v_restored int;
+begin
+  -- Holding the state row keeps make_pick and auto_pick out until we're done.
+  select * into v_state from death_draft_state where season = p_season for update;
+  if not found then
+    return query select false, format('Season %s has no draft to restore into.', p_season);
+    return;
+  end if;
+
+  if exists (select 1 from death_draft_picks where season = p_season) then
+    return query select false, 'The draft already has picks. Reset it first.';
+    return;
+  end if;
+
+  select c.name into v_elsewhere
+  from jsonb_to_recordset(coalesce(p_celebrities, '[]'::jsonb)) as r (id uuid)
+  join death_draft_celebrities c on c.id = r.id
+  where c.season <> p_season
+  limit 1;
+  if v_elsewhere is not null then
+    return query select false, format('%s belongs to another season.', v_elsewhere);
+    return;
+  end if;
+
+  update death_draft_seasons
+  set order_mode = p_order_mode,
+      order_seed = p_order_seed,
+      order_seats = p_order_seats,
+      pick_clock_seconds = p_pick_clock_seconds
+  where year = p_season;
+
+  insert into death_draft_celebrities (
+    id, season, name, birth_date, age, category, nationality, notes, reference_url, photo_url
+  )
+  select r.id, p_season, r.name, r.birth_date, r.age, r.category, r.nationality, r.notes, r.reference_url, r.photo_url
+  from jsonb_to_recordset(coalesce(p_celebrities, '[]'::jsonb)) as r (
+    id uuid, name text, birth_date date, age int, category text, nationality text, notes text, reference_url text, photo_url text
+  )
+  on conflict (id) do nothing;
+
+  -- Logs from before picks carried their skip count restore them as unskipped.
+  insert into death_draft_picks (season, pick_number, seat, owner_seat, celebrity_id, picked_at, auto_pick, skipped_slots)
+  select p_season, r.pick_number, r.seat, r.owner_seat, r.celebrity_id, r.picked_at, r.auto_pick, coalesce(r.skipped_slots, 0)
+  from jsonb_to_recordset(coalesce(p_picks, '[]'::jsonb)) as r (
+    pick_number int, seat int, owner_seat int, celebrity_id uuid, picked_at timestamptz, auto_pick boolean, skipped_slots int
+  );
+  get diagnostics v_restored = row_count;
+
+  -- Restored picks are off the board, so they come out of everyone's queue.
+  delete from death_draft_queue q
+  using death_draft_picks p
+  where p.season = p_season and q.season = p_season and q.celebrity_id = p.celebrity_id;
+
+  update death_draft_state
+  set turn_seat = p_turn_seat,
+      pick_number = p_pick_number,
+      updated_at = p_turn_started_at,
+      skipped_slots = coalesce(p_skipped_slots, 0)
+  where season = p_season;
+
+  return query select true, format('Restored %s picks.', v_restored);
+end;
+$$;
+
+revoke execute on function public.death_draft_restore_draft(int, text, bigint, int[], int, jsonb, jsonb, int, int, timestamptz, int)
+  from public, anon, authenticated;
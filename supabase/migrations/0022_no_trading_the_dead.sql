@@ -0,0 +1,158 @@
+-- Standings give a death's points to the celebrity's current owner, so a
+-- trade after a death would move those points to another seat. Celebrities
+-- with a death row can't be offered, and a pending trade that includes one is
+-- cancelled instead of accepted. Otherwise the same functions as 0013.
+
+create or replace function public.death_draft_propose_trade(
+  p_from_seat int,
+  p_to_seat int,
+  p_give uuid[],
+  p_get uuid[],
+  p_note text
+)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_season int := death_draft_current_season();
+  v_trade_id bigint;
+  v_dead text;
+begin
+  if not death_draft_owns_seat(p_from_seat) then
+    return query select false, 'You are not signed in as this seat.';
+    return;
+  end if;
+
+  if not death_draft_is_complete(v_season) then
+    return query select false, 'Trades open once the draft is complete.';
+    return;
+  end if;
+
+  if p_from_seat = p_to_seat or not exists (select 1 from death_draft_players where seat = p_to_seat) then
+    return query select false, 'Pick another seat to trade with.';
+    return;
+  end if;
+
+  if coalesce(array_length(p_give, 1), 0) = 0 or coalesce(array_length(p_get, 1), 0) = 0 then
+    return query select false, 'A trade needs at least one celebrity on each side.';
+    return;
+  end if;
+
+  if (select count(*) from death_draft_picks
+      where season = v_season and owner_seat = p_from_seat and celebrity_id = any (p_give))
+     <> (select count(distinct g) from unnest(p_give) g) then
+    return query select false, 'You can only offer celebrities you own.';
+    return;
+  end if;
+
+  if (select count(*) from death_draft_picks
+      where season = v_season and owner_seat = p_to_seat and celebrity_id = any (p_get))
+     <> (select count(distinct g) from unnest(p_get) g) then
+    return query select false, 'You can only ask for celebrities they own.';
+    return;
+  end if;
+
+  select c.name into v_dead
+  from death_draft_deaths d
+  join death_draft_celebrities c on c.id = d.celebrity_id
+  where d.celebrity_id = any (p_give || p_get)
+  order by c.name
+  limit 1;
+  if v_dead is not null then
+    return query select false, format('%s has died and can no longer be traded.', v_dead);
+    return;
+  end if;
+
+  insert into death_draft_trades (season, from_seat, to_seat, note)
+  values (v_season, p_from_seat, p_to_seat, nullif(trim(p_note), ''))
+  returning id into v_trade_id;
+
+  insert into death_draft_trade_items (trade_id, celebrity_id, from_seat)
+  select v_trade_id, g, p_from_seat from (select distinct unnest(p_give) as g) x
+  union all
+  select v_trade_id, g, p_to_seat from (select distinct unnest(p_get) as g) y;
+
+  return query select true, 'ok';
+end;
+$$;
+
+create or replace function public.death_draft_respond_trade(p_trade_id bigint, p_response text)
+returns table (ok boolean, message text)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_trade death_draft_trades%rowtype;
+  v_dead text;
+begin
+  select * into v_trade from death_draft_trades where id = p_trade_id for update;
+  if not found then
+    return query select false, 'Unknown trade.';
+    return;
+  end if;
+
+  if v_trade.status <> 'pending' then
+    return query select false, 'This trade is already ' || v_trade.status || '.';
+    return;
+  end if;
+
+  if p_response = 'cancel' then
+    if not death_draft_owns_seat(v_trade.from_seat) then
+      return query select false, 'Only the proposer can cancel.';
+      return;
+    end if;
+  elsif p_response in ('accept', 'reject') then
+    if not death_draft_owns_seat(v_trade.to_seat) then
+      return query select false, 'Only the other seat can respond.';
+      return;
+    end if;
+  else
+    return query select false, 'Unknown response.';
+    return;
+  end if;
+
+  if p_response = 'accept' then
+    select c.name into v_dead
+    from death_draft_trade_items i
+    join death_draft_deaths d on d.celebrity_id = i.celebrity_id
+    join death_draft_celebrities c on c.id = i.celebrity_id
+    where i.trade_id = p_trade_id
+    order by c.name
+    limit 1;
+    if v_dead is not null then
+      update death_draft_trades set status = 'cancelled', resolved_at = now() where id = p_trade_id;
+      return query select false, format('%s has died since this trade was proposed, so it was cancelled.', v_dead);
+      return;
+    end if;
+  end if;
+
+  if p_response = 'accept' and not death_draft_apply_trade(v_trade, false) then
+    -- Roll back any partial move; someone's roster changed since the proposal.
+    raise exception 'Rosters changed since this trade was proposed.' using errcode = 'P0001';
+  end if;
+
+  update death_draft_trades
+  set status = case p_response when 'accept' then 'accepted' when 'reject' then 'rejected' else 'cancelled' end,
+      resolved_at = now()
+  where id = p_trade_id;
+
+  if p_response = 'accept' then
+    -- Other offers involving these celebrities can no longer go through.
+    update death_draft_trades t
+    set status = 'cancelled', resolved_at = now()
+    where t.status = 'pending'
+      and t.id <> p_trade_id
+      and exists (
+        select 1
+        from death_draft_trade_items a
+        join death_draft_trade_items b on b.celebrity_id = a.celebrity_id
+        where a.trade_id = t.id and b.trade_id = p_trade_id
+      );
+  end if;
+
+  return query select true, 'ok';
+end;
+$$;